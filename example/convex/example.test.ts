@@ -39,7 +39,9 @@ describe("example", () => {
       input: {},
     });
 
-    const workflows = await t.query(api.example.listWorkflows, {});
-    expect(workflows).toHaveLength(2);
+    const workflows = await t.query(api.example.listWorkflows, {
+      paginationOpts: { numItems: 10, cursor: null },
+    });
+    expect(workflows.page).toHaveLength(2);
   });
 });
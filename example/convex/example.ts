@@ -8,22 +8,58 @@ export const {
   getWorkflow,
   listWorkflows,
   getWorkflowSteps,
+  getWorkflowHistory,
+  searchWorkflows,
   signalWorkflow,
+  queryWorkflow,
+  getQueryResult,
+  updateWorkflow,
+  getUpdateResult,
+  retryWorkflow,
+  listSchedules,
+  listConcurrencyLimits,
+  listRetentionPolicies,
+  listWorkers,
 } = exposeApi(components.convexOrchestrator);
 
 export const {
   // For worker operations (intentionally opt-in; protect in production)
   claimWorkflow,
+  claimWorkflows,
   heartbeat,
   completeWorkflow,
   failWorkflow,
   getOrCreateStep,
   scheduleSleep,
+  scheduleStepRetry,
   waitForSignal,
+  startChildWorkflow,
+  awaitChildWorkflow,
+  upsertSearchAttributes,
+  recordPatch,
   completeStep,
+  completeUpdate,
+  stepHeartbeat,
   failStep,
+  generateUploadUrl,
+  deleteUpload,
   sleepWorkflow,
   subscribePendingWorkflows,
+  subscribePendingQueries,
+  answerQuery,
+  registerWorker,
+  workerHeartbeat,
+  unregisterWorker,
+  // Admin operations (also checked by authorize)
+  setRetentionPolicy,
+  drainWorker,
+  resetWorkflow,
+  cancelWorkflow,
+  setConcurrencyLimit,
+  createSchedule,
+  pauseSchedule,
+  resumeSchedule,
+  deleteSchedule,
 } = exposeApiWithWorker(components.convexOrchestrator, {
   authorize: () => true,
 });
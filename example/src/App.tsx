@@ -1,5 +1,5 @@
 import "./App.css";
-import { useMutation, useQuery } from "convex/react";
+import { useMutation, usePaginatedQuery, useQuery } from "convex/react";
 import { api } from "../convex/_generated/api";
 import { useState } from "react";
 
@@ -9,7 +9,8 @@ type WorkflowStatus =
   | "sleeping"
   | "waiting"
   | "completed"
-  | "failed";
+  | "failed"
+  | "cancelled";
 type TabType = "steps" | "input" | "output";
 
 function StatusBadge({ status }: { status: WorkflowStatus }) {
@@ -44,7 +45,11 @@ function formatDuration(start?: number, end?: number): string {
 }
 
 function WorkflowDashboard() {
-  const workflows = useQuery(api.example.listWorkflows, { limit: 50 });
+  const { results: workflows } = usePaginatedQuery(
+    api.example.listWorkflows,
+    {},
+    { initialNumItems: 50 },
+  );
   const startWorkflow = useMutation(api.example.startWorkflow);
   const signalWorkflow = useMutation(api.example.signalWorkflow);
   const [selectedWorkflow, setSelectedWorkflow] = useState<string | null>(null);
@@ -4,6 +4,8 @@
  * This script demonstrates how to start workflows from any client.
  * Run with: bun example/trigger.ts [workflow-name]
  * Or send a signal: bun example/trigger.ts signal <workflowId> <signalName> <jsonPayload>
+ * Or cancel a workflow: bun example/trigger.ts cancel <workflowId> [reason]
+ * Or retry a failed workflow: bun example/trigger.ts retry <workflowId>
  *
  * Examples:
  *   bun example/trigger.ts greet
@@ -11,6 +13,8 @@
  *   bun example/trigger.ts approval
  *
  *   bun example/trigger.ts signal <workflowId> approved '{"approved":true}'
+ *   bun example/trigger.ts cancel <workflowId> "no longer needed"
+ *   bun example/trigger.ts retry <workflowId>
  */
 
 import { ConvexClient } from "convex/browser";
@@ -64,6 +68,48 @@ async function main() {
     return;
   }
 
+  if (command === "cancel") {
+    const workflowId = process.argv[3];
+    const reason = process.argv[4];
+
+    if (!workflowId) {
+      console.error(`Usage: bun example/trigger.ts cancel <workflowId> [reason]`);
+      process.exit(1);
+    }
+
+    const ok = await client.mutation(api.example.cancelWorkflow, {
+      workflowId,
+      reason,
+    });
+
+    console.log(
+      ok
+        ? `✅ Cancelled ${workflowId}`
+        : `❌ Could not cancel ${workflowId} (not found or already finished)`,
+    );
+    client.close();
+    return;
+  }
+
+  if (command === "retry") {
+    const workflowId = process.argv[3];
+
+    if (!workflowId) {
+      console.error(`Usage: bun example/trigger.ts retry <workflowId>`);
+      process.exit(1);
+    }
+
+    const ok = await client.mutation(api.example.retryWorkflow, { workflowId });
+
+    console.log(
+      ok
+        ? `✅ Retrying ${workflowId}`
+        : `❌ Could not retry ${workflowId} (not found or not failed)`,
+    );
+    client.close();
+    return;
+  }
+
   const workflowName = command;
   console.log(`\n🚀 Starting "${workflowName}" workflow...`);
 
@@ -125,6 +171,12 @@ async function main() {
       break;
     }
 
+    if (workflow.status === "cancelled") {
+      console.log(`\n🛑 Workflow cancelled`);
+      console.log(`   Reason: ${workflow.error}`);
+      break;
+    }
+
     console.log(`   Status: ${workflow.status}...`);
     if (workflow.status === "waiting") {
       console.log(
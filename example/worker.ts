@@ -101,8 +101,10 @@ const orderWorkflow = workflow("order", async (ctx, input: OrderInput) => {
 
   // Step 2: Calculate total and process payment
   const total = input.items.reduce((sum, item) => sum + item.price, 0);
-  const payment = await ctx.step("process-payment", () =>
-    activities.processPayment(total, "USD")
+  const payment = await ctx.step(
+    "process-payment",
+    () => activities.processPayment(total, "USD"),
+    { retry: { maxAttempts: 3, initialIntervalMs: 2000 } }
   );
   console.log(`   Payment: ${payment.transactionId}`);
 
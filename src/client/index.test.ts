@@ -1,5 +1,13 @@
 import { describe, expect, test, vi, beforeEach, afterEach } from "vitest";
-import { createWorker, exposeApi, exposeApiWithWorker, workflow } from "./index.js";
+import {
+  SignalTimeoutError,
+  StepHeartbeatTimeoutError,
+  UpdateRejectedError,
+  createWorker,
+  exposeApi,
+  exposeApiWithWorker,
+  workflow,
+} from "./index.js";
 import { anyApi, type ApiFromModules } from "convex/server";
 import { components, initConvexTest } from "./setup.test.js";
 
@@ -58,16 +66,22 @@ describe("client tests", () => {
       input: {},
     });
 
-    const workflows = await t.query(testApi.listWorkflows, {});
-    expect(workflows).toHaveLength(2);
+    const workflows = await t.query(testApi.listWorkflows, {
+      paginationOpts: { numItems: 10, cursor: null },
+    });
+    expect(workflows.page).toHaveLength(2);
   });
 
-  test("listWorkflows via exposed API accepts sleeping status filter", async () => {
+  test("listWorkflows via exposed API accepts name and status filters", async () => {
     const t = initConvexTest();
+    await t.mutation(testApi.startWorkflow, { name: "order", input: {} });
     const workflows = await t.query(testApi.listWorkflows, {
+      paginationOpts: { numItems: 10, cursor: null },
+      name: "order",
       status: "sleeping",
     });
-    expect(Array.isArray(workflows)).toBe(true);
+    expect(workflows.page).toEqual([]);
+    expect(workflows.isDone).toBe(true);
   });
 
   test("exposeApi does not include worker control functions by default", () => {
@@ -77,10 +91,20 @@ describe("client tests", () => {
     expect(apiObj.failWorkflow).toBeUndefined();
     expect(apiObj.getOrCreateStep).toBeUndefined();
     expect(apiObj.scheduleSleep).toBeUndefined();
+    expect(apiObj.scheduleStepRetry).toBeUndefined();
     expect(apiObj.waitForSignal).toBeUndefined();
     expect(apiObj.completeStep).toBeUndefined();
     expect(apiObj.failStep).toBeUndefined();
     expect(apiObj.subscribePendingWorkflows).toBeUndefined();
+    expect(apiObj.createSchedule).toBeUndefined();
+    expect(apiObj.pauseSchedule).toBeUndefined();
+    expect(apiObj.resumeSchedule).toBeUndefined();
+    expect(apiObj.deleteSchedule).toBeUndefined();
+    expect(apiObj.setConcurrencyLimit).toBeUndefined();
+    expect(apiObj.cancelWorkflow).toBeUndefined();
+    expect(apiObj.resetWorkflow).toBeUndefined();
+    expect(apiObj.drainWorker).toBeUndefined();
+    expect(apiObj.setRetentionPolicy).toBeUndefined();
   });
 
   test("exposeApiWithWorker enforces authorization", async () => {
@@ -103,30 +127,48 @@ describe("worker unit tests", () => {
     vi.useRealTimers();
   });
 
+  // Worker registry and query refs every worker uses; registryResults answers
+  // them like the component does for an active worker.
+  const workerRegistryApi = {
+    registerWorker: Symbol("registerWorker") as any,
+    workerHeartbeat: Symbol("workerHeartbeat") as any,
+    unregisterWorker: Symbol("unregisterWorker") as any,
+    subscribePendingQueries: Symbol("subscribePendingQueries") as any,
+  };
+  const registryResults = new Map<unknown, unknown>([
+    [workerRegistryApi.registerWorker, "active"],
+    [workerRegistryApi.workerHeartbeat, "active"],
+    [workerRegistryApi.unregisterWorker, null],
+  ]);
+
   test('claimAllWorkflows uses workflowNames ["*"]', async () => {
-    const claimWorkflowRef = Symbol("claimWorkflow") as any;
+    const claimWorkflowsRef = Symbol("claimWorkflows") as any;
     const subscribePendingRef = Symbol("subscribePendingWorkflows") as any;
 
     const client = {
       mutation: vi.fn(async (ref: any, _args: any) => {
-        if (ref === claimWorkflowRef) {
+        if (registryResults.has(ref)) return registryResults.get(ref);
+        if (ref === claimWorkflowsRef) {
           // Keep returning null to avoid executing anything.
-          return null;
+          return [];
         }
         throw new Error(`Unexpected mutation: ${String(ref)}`);
       }),
       query: vi.fn(async () => {
         throw new Error("Unexpected query");
       }),
-      onUpdate: vi.fn((_ref: any, args: any, _cb: any) => {
-        expect(args).toEqual({ workflowNames: ["*"] });
+      onUpdate: vi.fn((ref: any, args: any, _cb: any) => {
+        if (ref === subscribePendingRef) {
+          expect(args).toEqual({ workflowNames: ["*"] });
+        }
         return () => {};
       }),
     };
 
     const orchestratorApi: any = {
+      ...workerRegistryApi,
       startWorkflow: Symbol("startWorkflow") as any,
-      claimWorkflow: claimWorkflowRef,
+      claimWorkflows: claimWorkflowsRef,
       heartbeat: Symbol("heartbeat") as any,
       completeWorkflow: Symbol("completeWorkflow") as any,
       failWorkflow: Symbol("failWorkflow") as any,
@@ -148,16 +190,174 @@ describe("worker unit tests", () => {
     await Promise.resolve();
     await Promise.resolve();
 
-    expect(client.mutation).toHaveBeenCalledWith(claimWorkflowRef, {
+    expect(client.mutation).toHaveBeenCalledWith(claimWorkflowsRef, {
       workflowNames: ["*"],
       workerId: worker.workerId,
+      max: 1,
+    });
+
+    worker.stop();
+  });
+
+  test("versioned workflows register their versions when claiming", async () => {
+    const claimWorkflowsRef = Symbol("claimWorkflows") as any;
+    const subscribePendingRef = Symbol("subscribePendingWorkflows") as any;
+
+    const client = {
+      mutation: vi.fn(async (ref: any, _args: any) => {
+        if (registryResults.has(ref)) return registryResults.get(ref);
+        if (ref === claimWorkflowsRef) return [];
+        throw new Error(`Unexpected mutation: ${String(ref)}`);
+      }),
+      query: vi.fn(async () => {
+        throw new Error("Unexpected query");
+      }),
+      onUpdate: vi.fn((ref: any, args: any, _cb: any) => {
+        if (ref === subscribePendingRef) {
+          expect(args).toEqual({
+            workflowNames: ["order", "greet"],
+            workflowVersions: { order: "2" },
+          });
+        }
+        return () => {};
+      }),
+    };
+
+    const orchestratorApi: any = {
+      ...workerRegistryApi,
+      startWorkflow: Symbol("startWorkflow") as any,
+      claimWorkflows: claimWorkflowsRef,
+      subscribePendingWorkflows: subscribePendingRef,
+    };
+
+    const order = workflow("order", { version: "2" }, async () => "ok");
+    const greet = workflow("greet", async () => "hi");
+    expect(order.version).toEqual("2");
+    expect(greet.version).toBeUndefined();
+
+    const worker = createWorker(client as any, orchestratorApi, {
+      workflows: [order, greet],
+      pollIntervalMs: 1000,
+    });
+
+    await worker.start();
+    await Promise.resolve();
+    await Promise.resolve();
+
+    expect(client.mutation).toHaveBeenCalledWith(claimWorkflowsRef, {
+      workflowNames: ["order", "greet"],
+      workerId: worker.workerId,
+      workflowVersions: { order: "2" },
+      max: 1,
+    });
+
+    worker.stop();
+  });
+
+  test("lease duration and heartbeat interval are configurable per workflow", async () => {
+    const claimWorkflowsRef = Symbol("claimWorkflows") as any;
+    const heartbeatRef = Symbol("heartbeat") as any;
+    const completeWorkflowRef = Symbol("completeWorkflow") as any;
+
+    const heartbeats: Array<{ at: number; args: any }> = [];
+    let claimArgs: any;
+    let claimedOnce = false;
+    let finish!: () => void;
+
+    const client = {
+      mutation: vi.fn(async (ref: any, args: any) => {
+        if (registryResults.has(ref)) return registryResults.get(ref);
+        if (ref === claimWorkflowsRef) {
+          claimArgs = args;
+          if (claimedOnce) return [];
+          claimedOnce = true;
+          return [{ workflowId: "wf1", name: "laptop", input: {} }];
+        }
+        if (ref === heartbeatRef) {
+          heartbeats.push({ at: Date.now(), args });
+          return true;
+        }
+        if (ref === completeWorkflowRef) return true;
+        throw new Error(`Unexpected mutation: ${String(ref)}`);
+      }),
+      query: vi.fn(async () => {
+        throw new Error("Unexpected query");
+      }),
+      onUpdate: vi.fn(() => () => {}),
+    };
+
+    const orchestratorApi: any = {
+      ...workerRegistryApi,
+      claimWorkflows: claimWorkflowsRef,
+      heartbeat: heartbeatRef,
+      completeWorkflow: completeWorkflowRef,
+      subscribePendingWorkflows: Symbol("subscribePendingWorkflows") as any,
+    };
+
+    const laptop = workflow(
+      "laptop",
+      { leaseDurationMs: 120_000 },
+      () => new Promise<string>((resolve) => (finish = () => resolve("ok"))),
+    );
+    const critical = workflow("critical", async () => "ok");
+
+    const worker = createWorker(client as any, orchestratorApi, {
+      workflows: [laptop, critical],
+      pollIntervalMs: 1000,
+      leaseDurationMs: 5_000,
+      heartbeatIntervalMs: 2_000,
+    });
+
+    vi.setSystemTime(0);
+    await worker.start();
+    await Promise.resolve();
+    await Promise.resolve();
+
+    expect(claimArgs).toEqual({
+      workflowNames: ["laptop", "critical"],
+      workerId: worker.workerId,
+      leaseDurationMs: 5_000,
+      workflowLeaseDurationsMs: { laptop: 120_000 },
+      max: 1,
     });
 
+    await vi.advanceTimersByTimeAsync(4_000);
+    expect(heartbeats).toEqual([
+      {
+        at: 2_000,
+        args: {
+          workflowId: "wf1",
+          workerId: worker.workerId,
+          leaseDurationMs: 120_000,
+        },
+      },
+      {
+        at: 4_000,
+        args: {
+          workflowId: "wf1",
+          workerId: worker.workerId,
+          leaseDurationMs: 120_000,
+        },
+      },
+    ]);
+
     worker.stop();
+    finish();
+    await vi.runOnlyPendingTimersAsync();
+
+    expect(() =>
+      createWorker(client as any, orchestratorApi, {
+        workflows: [critical],
+        leaseDurationMs: 5_000,
+        heartbeatIntervalMs: 5_000,
+      }),
+    ).toThrow(
+      "heartbeatIntervalMs (5000) must be shorter than leaseDurationMs",
+    );
   });
 
   test("maxConcurrentWorkflows claims and executes workflows concurrently", async () => {
-    const claimWorkflowRef = Symbol("claimWorkflow") as any;
+    const claimWorkflowsRef = Symbol("claimWorkflows") as any;
     const heartbeatRef = Symbol("heartbeat") as any;
     const completeWorkflowRef = Symbol("completeWorkflow") as any;
     const subscribePendingRef = Symbol("subscribePendingWorkflows") as any;
@@ -180,8 +380,9 @@ describe("worker unit tests", () => {
 
     const client = {
       mutation: vi.fn(async (ref: any, args: any) => {
-        if (ref === claimWorkflowRef) {
-          return claimedQueue.shift() ?? null;
+        if (registryResults.has(ref)) return registryResults.get(ref);
+        if (ref === claimWorkflowsRef) {
+          return claimedQueue.splice(0, args.max);
         }
         if (ref === heartbeatRef) return true;
         if (ref === completeWorkflowRef) return true;
@@ -198,8 +399,9 @@ describe("worker unit tests", () => {
     };
 
     const orchestratorApi: any = {
+      ...workerRegistryApi,
       startWorkflow: Symbol("startWorkflow") as any,
-      claimWorkflow: claimWorkflowRef,
+      claimWorkflows: claimWorkflowsRef,
       heartbeat: heartbeatRef,
       completeWorkflow: completeWorkflowRef,
       failWorkflow: Symbol("failWorkflow") as any,
@@ -246,8 +448,84 @@ describe("worker unit tests", () => {
     expect(finished.sort()).toEqual(["wf1", "wf2"]);
   });
 
+  test("worker fills free capacity with one claimWorkflows call", async () => {
+    const claimWorkflowsRef = Symbol("claimWorkflows") as any;
+    const completeWorkflowRef = Symbol("completeWorkflow") as any;
+
+    const release: Array<() => void> = [];
+    const claimCalls: any[] = [];
+    let claimedOnce = false;
+
+    const client = {
+      mutation: vi.fn(async (ref: any, args: any) => {
+        if (registryResults.has(ref)) return registryResults.get(ref);
+        if (ref === claimWorkflowsRef) {
+          claimCalls.push(args);
+          if (claimedOnce) return [];
+          claimedOnce = true;
+          return [1, 2, 3].map((i) => ({
+            workflowId: `wf${i}`,
+            name: "test",
+            input: i,
+          }));
+        }
+        if (ref === completeWorkflowRef) return true;
+        throw new Error(`Unexpected mutation: ${String(ref)}`);
+      }),
+      query: vi.fn(async () => {
+        throw new Error("Unexpected query");
+      }),
+      onUpdate: vi.fn(() => () => {}),
+    };
+
+    const orchestratorApi: any = {
+      ...workerRegistryApi,
+      claimWorkflow: Symbol("claimWorkflow") as any,
+      claimWorkflows: claimWorkflowsRef,
+      completeWorkflow: completeWorkflowRef,
+      heartbeat: Symbol("heartbeat") as any,
+      subscribePendingWorkflows: Symbol("subscribePendingWorkflows") as any,
+    };
+
+    const started: number[] = [];
+    const wf = workflow("test", async (_ctx, input: number) => {
+      started.push(input);
+      await new Promise<void>((resolve) => release.push(resolve));
+      return input;
+    });
+
+    const worker = createWorker(client as any, orchestratorApi, {
+      workflows: [wf],
+      pollIntervalMs: 1000,
+      maxConcurrentWorkflows: 5,
+    });
+
+    await worker.start();
+    await Promise.resolve();
+    await Promise.resolve();
+
+    expect(started).toEqual([1, 2, 3]);
+    // A short batch means nothing else is pending: wait for the next poll.
+    expect(claimCalls).toEqual([
+      {
+        workflowNames: ["test"],
+        workerId: worker.workerId,
+        workflowVersions: undefined,
+        taskQueues: undefined,
+        max: 5,
+      },
+    ]);
+
+    await vi.advanceTimersByTimeAsync(1000);
+    expect(claimCalls.map((args) => args.max)).toEqual([5, 2]);
+
+    worker.stop();
+    release.forEach((resolve) => resolve());
+    await vi.runOnlyPendingTimersAsync();
+  });
+
   test("worker stops writing results after claim is lost", async () => {
-    const claimWorkflowRef = Symbol("claimWorkflow") as any;
+    const claimWorkflowsRef = Symbol("claimWorkflows") as any;
     const heartbeatRef = Symbol("heartbeat") as any;
     const getOrCreateStepRef = Symbol("getOrCreateStep") as any;
     const completeStepRef = Symbol("completeStep") as any;
@@ -262,12 +540,13 @@ describe("worker unit tests", () => {
 
     const client = {
       mutation: vi.fn(async (ref: any, args: any) => {
+        if (registryResults.has(ref)) return registryResults.get(ref);
         calls.push({ ref, args });
 
-        if (ref === claimWorkflowRef) {
-          if (claimedOnce) return null;
+        if (ref === claimWorkflowsRef) {
+          if (claimedOnce) return [];
           claimedOnce = true;
-          return { workflowId: "wf1", name: "test", input: {} };
+          return [{ workflowId: "wf1", name: "test", input: {} }];
         }
 
         if (ref === getOrCreateStepRef) {
@@ -294,8 +573,9 @@ describe("worker unit tests", () => {
     };
 
     const orchestratorApi: any = {
+      ...workerRegistryApi,
       startWorkflow: Symbol("startWorkflow") as any,
-      claimWorkflow: claimWorkflowRef,
+      claimWorkflows: claimWorkflowsRef,
       heartbeat: heartbeatRef,
       completeWorkflow: completeWorkflowRef,
       failWorkflow: failWorkflowRef,
@@ -341,37 +621,39 @@ describe("worker unit tests", () => {
     expect(calls.some((c) => c.ref === failWorkflowRef)).toBe(false);
   });
 
-  test("worker rejects ctx.sleep inside ctx.step (fails step and workflow)", async () => {
-    const claimWorkflowRef = Symbol("claimWorkflow") as any;
+  test("worker stops executing when heartbeat reports cancellation", async () => {
+    const claimWorkflowsRef = Symbol("claimWorkflows") as any;
+    const heartbeatRef = Symbol("heartbeat") as any;
     const getOrCreateStepRef = Symbol("getOrCreateStep") as any;
+    const completeStepRef = Symbol("completeStep") as any;
     const failStepRef = Symbol("failStep") as any;
+    const completeWorkflowRef = Symbol("completeWorkflow") as any;
     const failWorkflowRef = Symbol("failWorkflow") as any;
-    const scheduleSleepRef = Symbol("scheduleSleep") as any;
     const subscribePendingRef = Symbol("subscribePendingWorkflows") as any;
 
     const calls: Array<{ ref: any; args: any }> = [];
     let claimedOnce = false;
+    const executed: string[] = [];
 
     const client = {
       mutation: vi.fn(async (ref: any, args: any) => {
+        if (registryResults.has(ref)) return registryResults.get(ref);
         calls.push({ ref, args });
 
-        if (ref === claimWorkflowRef) {
-          if (claimedOnce) return null;
+        if (ref === claimWorkflowsRef) {
+          if (claimedOnce) return [];
           claimedOnce = true;
-          return { workflowId: "wf1", name: "test", input: {} };
+          return [{ workflowId: "wf1", name: "test", input: {} }];
         }
         if (ref === getOrCreateStepRef) {
-          return { stepId: "step1", status: "running", isNew: true };
-        }
-        if (ref === scheduleSleepRef) {
-          throw new Error(
-            "scheduleSleep should not be called from inside ctx.step",
-          );
+          return { stepId: args.stepName, status: "running", isNew: true };
         }
-        if (ref === failStepRef) return true;
-        if (ref === failWorkflowRef) return true;
-        return true;
+        if (ref === heartbeatRef) return "cancelled";
+        if (ref === completeStepRef) return false;
+        if (ref === failStepRef) return false;
+        if (ref === completeWorkflowRef) return false;
+        if (ref === failWorkflowRef) return false;
+        throw new Error("Unexpected mutation");
       }),
       query: vi.fn(async () => {
         throw new Error("Unexpected query");
@@ -382,23 +664,30 @@ describe("worker unit tests", () => {
     };
 
     const orchestratorApi: any = {
+      ...workerRegistryApi,
       startWorkflow: Symbol("startWorkflow") as any,
-      claimWorkflow: claimWorkflowRef,
-      heartbeat: Symbol("heartbeat") as any,
-      completeWorkflow: Symbol("completeWorkflow") as any,
+      claimWorkflows: claimWorkflowsRef,
+      heartbeat: heartbeatRef,
+      completeWorkflow: completeWorkflowRef,
       failWorkflow: failWorkflowRef,
       getOrCreateStep: getOrCreateStepRef,
-      scheduleSleep: scheduleSleepRef,
-      completeStep: Symbol("completeStep") as any,
+      completeStep: completeStepRef,
       failStep: failStepRef,
-      sleepWorkflow: Symbol("sleepWorkflow") as any,
       getWorkflow: Symbol("getWorkflow") as any,
       subscribePendingWorkflows: subscribePendingRef,
     };
 
     const wf = workflow("test", async (ctx) => {
-      await ctx.step("bad", async () => {
-        await ctx.sleep("delay", 1000);
+      await ctx.step(
+        "long",
+        () =>
+          new Promise((resolve) => {
+            setTimeout(() => resolve("ok"), 15_000);
+          }),
+      );
+      await ctx.step("after", () => {
+        executed.push("after");
+        return "ok";
       });
       return "done";
     });
@@ -412,115 +701,152 @@ describe("worker unit tests", () => {
     await Promise.resolve();
     await Promise.resolve();
 
+    await vi.advanceTimersByTimeAsync(10_000);
+    await vi.advanceTimersByTimeAsync(10_000);
+
     worker.stop();
     await vi.runOnlyPendingTimersAsync();
 
-    const failStepCall = calls.find((c) => c.ref === failStepRef);
-    const failWorkflowCall = calls.find((c) => c.ref === failWorkflowRef);
-
-    expect(failStepCall).toBeDefined();
-    expect(failWorkflowCall).toBeDefined();
-    expect(failStepCall?.args.error).toMatch(/cannot be called inside ctx\.step/i);
-    expect(failWorkflowCall?.args.error).toMatch(/cannot be called inside ctx\.step/i);
+    expect(executed).toEqual([]);
+    expect(calls.some((c) => c.ref === completeStepRef)).toBe(false);
+    expect(calls.some((c) => c.ref === completeWorkflowRef)).toBe(false);
+    expect(calls.some((c) => c.ref === failWorkflowRef)).toBe(false);
   });
 
-  test("named ctx.sleep resumes after wake without re-sleeping", async () => {
-    const claimWorkflowRef = Symbol("claimWorkflow") as any;
-    const heartbeatRef = Symbol("heartbeat") as any;
+  test("ctx.step retry policy schedules a durable retry instead of failing", async () => {
+    const claimWorkflowsRef = Symbol("claimWorkflows") as any;
     const getOrCreateStepRef = Symbol("getOrCreateStep") as any;
-    const scheduleSleepRef = Symbol("scheduleSleep") as any;
-    const completeStepRef = Symbol("completeStep") as any;
-    const completeWorkflowRef = Symbol("completeWorkflow") as any;
+    const scheduleStepRetryRef = Symbol("scheduleStepRetry") as any;
+    const failStepRef = Symbol("failStep") as any;
+    const failWorkflowRef = Symbol("failWorkflow") as any;
     const subscribePendingRef = Symbol("subscribePendingWorkflows") as any;
 
     vi.setSystemTime(0);
 
-    const steps = new Map<
-      string,
-      {
-        stepId: string;
-        status: "running" | "completed" | "failed";
-        output?: any;
-        error?: string;
-        sleepUntil?: number;
-      }
-    >();
-    let workflowSleepUntil: number | null = null;
-    let firstClaimed = false;
-    let resumedClaimed = false;
-    let completed = false;
+    const calls: Array<{ ref: any; args: any }> = [];
+    let claimedOnce = false;
 
     const client = {
       mutation: vi.fn(async (ref: any, args: any) => {
-        if (ref === claimWorkflowRef) {
-          if (completed) return null;
-          if (!firstClaimed) {
-            firstClaimed = true;
-            return { workflowId: "wf1", name: "test", input: {} };
-          }
-          if (
-            workflowSleepUntil != null &&
-            Date.now() >= workflowSleepUntil &&
-            !resumedClaimed
-          ) {
-            resumedClaimed = true;
-            return { workflowId: "wf1", name: "test", input: {} };
-          }
-          return null;
-        }
-
-        if (ref === heartbeatRef) return true;
+        if (registryResults.has(ref)) return registryResults.get(ref);
+        calls.push({ ref, args });
 
+        if (ref === claimWorkflowsRef) {
+          if (claimedOnce) return [];
+          claimedOnce = true;
+          return [{ workflowId: "wf1", name: "test", input: {} }];
+        }
         if (ref === getOrCreateStepRef) {
-          const stepName = args.stepName as string;
-          const existing = steps.get(stepName);
-          if (existing) {
-            return {
-              stepId: existing.stepId,
-              status: existing.status,
-              output: existing.output,
-              error: existing.error,
-              sleepUntil: existing.sleepUntil,
-              isNew: false,
-            };
-          }
-          const created = {
-            stepId: stepName,
-            status: "running" as const,
-            output: undefined,
-            error: undefined,
-            sleepUntil: undefined,
+          return {
+            stepId: args.stepName,
+            status: "running",
+            attempts: 1,
+            isNew: true,
           };
-          steps.set(stepName, created);
-          return { ...created, isNew: true };
         }
+        if (ref === scheduleStepRetryRef) return true;
+        if (ref === failStepRef) return true;
+        if (ref === failWorkflowRef) return true;
+        throw new Error(`Unexpected mutation: ${String(ref)}`);
+      }),
+      query: vi.fn(async () => {
+        throw new Error("Unexpected query");
+      }),
+      onUpdate: vi.fn((_ref: any, _args: any, _cb: any) => {
+        return () => {};
+      }),
+    };
 
-        if (ref === scheduleSleepRef) {
-          workflowSleepUntil = args.sleepUntil as number;
-          const marker = steps.get("__sleep:delay");
-          if (marker) marker.sleepUntil = workflowSleepUntil;
-          return true;
-        }
+    const orchestratorApi: any = {
+      ...workerRegistryApi,
+      startWorkflow: Symbol("startWorkflow") as any,
+      claimWorkflows: claimWorkflowsRef,
+      heartbeat: Symbol("heartbeat") as any,
+      completeWorkflow: Symbol("completeWorkflow") as any,
+      failWorkflow: failWorkflowRef,
+      getOrCreateStep: getOrCreateStepRef,
+      scheduleStepRetry: scheduleStepRetryRef,
+      completeStep: Symbol("completeStep") as any,
+      failStep: failStepRef,
+      getWorkflow: Symbol("getWorkflow") as any,
+      subscribePendingWorkflows: subscribePendingRef,
+    };
 
-        if (ref === completeStepRef) {
-          for (const [name, step] of steps.entries()) {
-            if (step.stepId === args.stepId) {
-              steps.set(name, {
-                ...step,
-                status: "completed",
-                output: args.output,
-                sleepUntil: undefined,
-              });
-            }
-          }
-          return true;
-        }
+    const wf = workflow("test", async (ctx) => {
+      await ctx.step(
+        "flaky",
+        () => {
+          throw new Error("ECONNRESET");
+        },
+        { retry: { initialIntervalMs: 1000, maxIntervalMs: 1000 } },
+      );
+      return "done";
+    });
 
-        if (ref === completeWorkflowRef) {
-          completed = true;
-          return true;
-        }
+    const worker = createWorker(client as any, orchestratorApi, {
+      workflows: [wf],
+      pollIntervalMs: 1000,
+    });
+
+    await worker.start();
+    await Promise.resolve();
+    await Promise.resolve();
+
+    worker.stop();
+    await vi.runOnlyPendingTimersAsync();
+
+    const retryCall = calls.find((c) => c.ref === scheduleStepRetryRef);
+    expect(retryCall?.args).toMatchObject({
+      workflowId: "wf1",
+      stepId: "flaky",
+      error: "ECONNRESET",
+    });
+    expect(retryCall?.args.retryAt).toBeGreaterThan(0);
+    expect(retryCall?.args.retryAt).toBeLessThanOrEqual(1000);
+    expect(calls.some((c) => c.ref === failStepRef)).toBe(false);
+    expect(calls.some((c) => c.ref === failWorkflowRef)).toBe(false);
+  });
+
+  test("ctx.step does not retry non-retryable errors or the last attempt", async () => {
+    const claimWorkflowsRef = Symbol("claimWorkflows") as any;
+    const getOrCreateStepRef = Symbol("getOrCreateStep") as any;
+    const scheduleStepRetryRef = Symbol("scheduleStepRetry") as any;
+    const failStepRef = Symbol("failStep") as any;
+    const failWorkflowRef = Symbol("failWorkflow") as any;
+    const subscribePendingRef = Symbol("subscribePendingWorkflows") as any;
+
+    const calls: Array<{ ref: any; args: any }> = [];
+    let claimedOnce = false;
+
+    class CardDeclinedError extends Error {
+      constructor() {
+        super("card declined");
+        this.name = "CardDeclinedError";
+      }
+    }
 
+    const client = {
+      mutation: vi.fn(async (ref: any, args: any) => {
+        if (registryResults.has(ref)) return registryResults.get(ref);
+        calls.push({ ref, args });
+
+        if (ref === claimWorkflowsRef) {
+          if (claimedOnce) return [];
+          claimedOnce = true;
+          return [{ workflowId: "wf1", name: "test", input: {} }];
+        }
+        if (ref === getOrCreateStepRef) {
+          // "last" is on its final attempt already.
+          return {
+            stepId: args.stepName,
+            status: "running",
+            attempts: args.stepName === "last" ? 3 : 1,
+            isNew: args.stepName !== "last",
+          };
+        }
+        if (ref === scheduleStepRetryRef) return true;
+        if (ref === failStepRef) return true;
+        if (ref === failWorkflowRef) return true;
         throw new Error(`Unexpected mutation: ${String(ref)}`);
       }),
       query: vi.fn(async () => {
@@ -532,25 +858,40 @@ describe("worker unit tests", () => {
     };
 
     const orchestratorApi: any = {
+      ...workerRegistryApi,
       startWorkflow: Symbol("startWorkflow") as any,
-      claimWorkflow: claimWorkflowRef,
-      heartbeat: heartbeatRef,
-      completeWorkflow: completeWorkflowRef,
-      failWorkflow: Symbol("failWorkflow") as any,
+      claimWorkflows: claimWorkflowsRef,
+      heartbeat: Symbol("heartbeat") as any,
+      completeWorkflow: Symbol("completeWorkflow") as any,
+      failWorkflow: failWorkflowRef,
       getOrCreateStep: getOrCreateStepRef,
-      scheduleSleep: scheduleSleepRef,
-      completeStep: completeStepRef,
-      failStep: Symbol("failStep") as any,
-      sleepWorkflow: Symbol("sleepWorkflow") as any,
+      scheduleStepRetry: scheduleStepRetryRef,
+      completeStep: Symbol("completeStep") as any,
+      failStep: failStepRef,
       getWorkflow: Symbol("getWorkflow") as any,
       subscribePendingWorkflows: subscribePendingRef,
     };
 
     const wf = workflow("test", async (ctx) => {
-      await ctx.step("pre", () => "ok");
-      await ctx.sleep("delay", 1000);
-      await ctx.step("post", () => "done");
-      return "finished";
+      try {
+        await ctx.step(
+          "charge",
+          () => {
+            throw new CardDeclinedError();
+          },
+          { retry: { nonRetryableErrors: ["CardDeclinedError"] } },
+        );
+      } catch {
+        // fall through to the next step
+      }
+      await ctx.step(
+        "last",
+        () => {
+          throw new Error("still broken");
+        },
+        { retry: { maxAttempts: 3 } },
+      );
+      return "done";
     });
 
     const worker = createWorker(client as any, orchestratorApi, {
@@ -562,104 +903,162 @@ describe("worker unit tests", () => {
     await Promise.resolve();
     await Promise.resolve();
 
-    // Let the worker reach the sleep and park itself.
+    worker.stop();
     await vi.runOnlyPendingTimersAsync();
 
-    // Advance time past the wake time so claimWorkflow can return it again.
-    await vi.advanceTimersByTimeAsync(1000);
-    await Promise.resolve();
-    await Promise.resolve();
-    await vi.runOnlyPendingTimersAsync();
+    expect(calls.some((c) => c.ref === scheduleStepRetryRef)).toBe(false);
+    expect(
+      calls.filter((c) => c.ref === failStepRef).map((c) => c.args.stepId),
+    ).toEqual(["charge", "last"]);
+    const failWorkflowCall = calls.find((c) => c.ref === failWorkflowRef);
+    expect(failWorkflowCall?.args.error).toEqual("still broken");
+  });
 
-    worker.stop();
+  test("ctx.step heartbeats record progress and a silent step times out", async () => {
+    const claimWorkflowsRef = Symbol("claimWorkflows") as any;
+    const getOrCreateStepRef = Symbol("getOrCreateStep") as any;
+    const stepHeartbeatRef = Symbol("stepHeartbeat") as any;
+    const scheduleStepRetryRef = Symbol("scheduleStepRetry") as any;
+
+    vi.setSystemTime(0);
+
+    const calls: Array<{ ref: any; args: any }> = [];
+    let claimedOnce = false;
+
+    const client = {
+      mutation: vi.fn(async (ref: any, args: any) => {
+        if (registryResults.has(ref)) return registryResults.get(ref);
+        calls.push({ ref, args });
+        if (ref === claimWorkflowsRef) {
+          if (claimedOnce) return [];
+          claimedOnce = true;
+          return [{ workflowId: "wf1", name: "test", input: {} }];
+        }
+        if (ref === getOrCreateStepRef) {
+          return {
+            stepId: args.stepName,
+            status: "running",
+            attempts: 2,
+            heartbeatDetails: { exported: 100 },
+            isNew: false,
+          };
+        }
+        if (ref === stepHeartbeatRef) return true;
+        if (ref === scheduleStepRetryRef) return true;
+        throw new Error(`Unexpected mutation: ${String(ref)}`);
+      }),
+      query: vi.fn(async () => {
+        throw new Error("Unexpected query");
+      }),
+      onUpdate: vi.fn(() => () => {}),
+    };
+
+    const orchestratorApi: any = {
+      ...workerRegistryApi,
+      claimWorkflows: claimWorkflowsRef,
+      heartbeat: Symbol("heartbeat") as any,
+      getOrCreateStep: getOrCreateStepRef,
+      stepHeartbeat: stepHeartbeatRef,
+      scheduleStepRetry: scheduleStepRetryRef,
+      subscribePendingWorkflows: Symbol("subscribePendingWorkflows") as any,
+    };
+
+    let resumedFrom: unknown;
+    let lateHeartbeatError: unknown;
+    let signal!: AbortSignal;
+    const wf = workflow("test", async (ctx) => {
+      await ctx.step(
+        "export",
+        async (stepCtx) => {
+          resumedFrom = stepCtx.heartbeatDetails;
+          signal = stepCtx.signal;
+          await new Promise((resolve) => setTimeout(resolve, 4_000));
+          await stepCtx.heartbeat({ exported: 200 });
+          // Hangs: no heartbeat for longer than the timeout.
+          await new Promise((resolve) => setTimeout(resolve, 60_000));
+          lateHeartbeatError = await stepCtx
+            .heartbeat({ exported: 300 })
+            .catch((error: unknown) => error);
+        },
+        {
+          heartbeatTimeoutMs: 5_000,
+          retry: { initialIntervalMs: 1000, maxIntervalMs: 1000 },
+        },
+      );
+      return "done";
+    });
+
+    const worker = createWorker(client as any, orchestratorApi, {
+      workflows: [wf],
+      pollIntervalMs: 1000,
+    });
 
+    await worker.start();
+    await vi.advanceTimersByTimeAsync(8_000);
+
+    expect(resumedFrom).toEqual({ exported: 100 });
     expect(
-      client.mutation.mock.calls.filter((c: any[]) => c[0] === scheduleSleepRef),
-    ).toHaveLength(1);
-    expect(completed).toBe(true);
+      calls.filter((c) => c.ref === stepHeartbeatRef).map((c) => c.args),
+    ).toEqual([
+      {
+        stepId: "export",
+        workerId: worker.workerId,
+        details: { exported: 200 },
+      },
+    ]);
+    // Timed out 5s after the heartbeat at 4s, not 5s after the start.
+    expect(calls.some((c) => c.ref === scheduleStepRetryRef)).toBe(false);
+    expect(signal.aborted).toBe(false);
+    await vi.advanceTimersByTimeAsync(2_000);
+    expect(signal.reason).toBeInstanceOf(StepHeartbeatTimeoutError);
+    const retryCall = calls.find((c) => c.ref === scheduleStepRetryRef);
+    expect(retryCall?.args).toMatchObject({
+      stepId: "export",
+      error: 'Step "export" did not heartbeat within 5000ms',
+    });
+
+    worker.stop();
+    await vi.advanceTimersByTimeAsync(60_000);
+    expect(lateHeartbeatError).toBeInstanceOf(StepHeartbeatTimeoutError);
+    expect(calls.filter((c) => c.ref === stepHeartbeatRef)).toHaveLength(1);
   });
 
-  test("named ctx.waitForSignal resumes after signal without re-waiting", async () => {
-    const claimWorkflowRef = Symbol("claimWorkflow") as any;
-    const heartbeatRef = Symbol("heartbeat") as any;
+  test("ctx.patched reports the steps visited so far", async () => {
+    const claimWorkflowsRef = Symbol("claimWorkflows") as any;
     const getOrCreateStepRef = Symbol("getOrCreateStep") as any;
-    const waitForSignalRef = Symbol("waitForSignal") as any;
-    const completeStepRef = Symbol("completeStep") as any;
+    const recordPatchRef = Symbol("recordPatch") as any;
     const completeWorkflowRef = Symbol("completeWorkflow") as any;
     const subscribePendingRef = Symbol("subscribePendingWorkflows") as any;
 
-    const steps = new Map<
-      string,
-      { stepId: string; status: "running" | "completed"; output?: any; isNew: boolean }
-    >();
-    let signalAvailable = false;
-    let firstClaimed = false;
-    let resumedClaimed = false;
-    let completed = false;
+    const calls: Array<{ ref: any; args: any }> = [];
+    let claimedOnce = false;
+    let output: unknown;
 
     const client = {
       mutation: vi.fn(async (ref: any, args: any) => {
-        if (ref === claimWorkflowRef) {
-          if (completed) return null;
-          if (!firstClaimed) {
-            firstClaimed = true;
-            return { workflowId: "wf1", name: "test", input: {} };
-          }
-          if (signalAvailable && !resumedClaimed) {
-            resumedClaimed = true;
-            return { workflowId: "wf1", name: "test", input: {} };
-          }
-          return null;
-        }
-
-        if (ref === heartbeatRef) return true;
+        if (registryResults.has(ref)) return registryResults.get(ref);
+        calls.push({ ref, args });
 
+        if (ref === claimWorkflowsRef) {
+          if (claimedOnce) return [];
+          claimedOnce = true;
+          return [{ workflowId: "wf1", name: "test", input: {} }];
+        }
         if (ref === getOrCreateStepRef) {
-          const stepName = args.stepName as string;
-          const existing = steps.get(stepName);
-          if (existing) {
-            return {
-              stepId: existing.stepId,
-              status: existing.status,
-              output: existing.output,
-              error: undefined,
-              isNew: false,
-            };
-          }
-          const created = {
-            stepId: stepName,
-            status: "running" as const,
-            output: undefined,
-            isNew: true,
+          // Replaying a completed step from history.
+          return {
+            stepId: args.stepName,
+            status: "completed",
+            output: "cached",
+            attempts: 1,
+            isNew: false,
           };
-          steps.set(stepName, created);
-          return { ...created, error: undefined };
-        }
-
-        if (ref === waitForSignalRef) {
-          if (!signalAvailable) return { kind: "waiting" as const };
-          return { kind: "signaled" as const, payload: { approved: true } };
-        }
-
-        if (ref === completeStepRef) {
-          for (const [name, step] of steps.entries()) {
-            if (step.stepId === args.stepId) {
-              steps.set(name, {
-                ...step,
-                status: "completed",
-                output: args.output,
-                isNew: false,
-              });
-            }
-          }
-          return true;
         }
-
+        if (ref === recordPatchRef) return false;
         if (ref === completeWorkflowRef) {
-          completed = true;
+          output = args.output;
           return true;
         }
-
         throw new Error(`Unexpected mutation: ${String(ref)}`);
       }),
       query: vi.fn(async () => {
@@ -671,28 +1070,26 @@ describe("worker unit tests", () => {
     };
 
     const orchestratorApi: any = {
+      ...workerRegistryApi,
       startWorkflow: Symbol("startWorkflow") as any,
-      claimWorkflow: claimWorkflowRef,
-      heartbeat: heartbeatRef,
+      claimWorkflows: claimWorkflowsRef,
+      heartbeat: Symbol("heartbeat") as any,
       completeWorkflow: completeWorkflowRef,
       failWorkflow: Symbol("failWorkflow") as any,
       getOrCreateStep: getOrCreateStepRef,
-      scheduleSleep: Symbol("scheduleSleep") as any,
-      waitForSignal: waitForSignalRef,
-      completeStep: completeStepRef,
+      recordPatch: recordPatchRef,
+      completeStep: Symbol("completeStep") as any,
       failStep: Symbol("failStep") as any,
-      sleepWorkflow: Symbol("sleepWorkflow") as any,
       getWorkflow: Symbol("getWorkflow") as any,
       subscribePendingWorkflows: subscribePendingRef,
     };
 
     const wf = workflow("test", async (ctx) => {
-      const decision = await ctx.waitForSignal<{ approved: boolean }>(
-        "decision",
-        "approved",
-      );
-      await ctx.step("after", () => (decision.approved ? "ok" : "no"));
-      return "done";
+      await ctx.step("charge", () => "charged");
+      if (await ctx.patched("sms")) {
+        return "new";
+      }
+      return "old";
     });
 
     const worker = createWorker(client as any, orchestratorApi, {
@@ -704,21 +1101,1394 @@ describe("worker unit tests", () => {
     await Promise.resolve();
     await Promise.resolve();
 
-    // First run should park waiting.
-    expect(signalAvailable).toBe(false);
-    expect(completed).toBe(false);
+    worker.stop();
+    await vi.runOnlyPendingTimersAsync();
 
-    // Now "send" the signal and advance time to trigger another claim.
-    signalAvailable = true;
-    await vi.advanceTimersByTimeAsync(1000);
-    await Promise.resolve();
-    await Promise.resolve();
+    const patchCall = calls.find((c) => c.ref === recordPatchRef);
+    expect(patchCall?.args).toEqual({
+      workflowId: "wf1",
+      workerId: worker.workerId,
+      stepName: "__patch:sms",
+      visitedStepNames: ["charge"],
+    });
+    expect(output).toEqual("old");
+  });
 
-    worker.stop();
+  test("worker rejects ctx.sleep inside ctx.step (fails step and workflow)", async () => {
+    const claimWorkflowsRef = Symbol("claimWorkflows") as any;
+    const getOrCreateStepRef = Symbol("getOrCreateStep") as any;
+    const failStepRef = Symbol("failStep") as any;
+    const failWorkflowRef = Symbol("failWorkflow") as any;
+    const scheduleSleepRef = Symbol("scheduleSleep") as any;
+    const subscribePendingRef = Symbol("subscribePendingWorkflows") as any;
 
-    expect(completed).toBe(true);
-    expect(
-      client.mutation.mock.calls.filter((c: any[]) => c[0] === waitForSignalRef),
-    ).toHaveLength(2);
+    const calls: Array<{ ref: any; args: any }> = [];
+    let claimedOnce = false;
+
+    const client = {
+      mutation: vi.fn(async (ref: any, args: any) => {
+        if (registryResults.has(ref)) return registryResults.get(ref);
+        calls.push({ ref, args });
+
+        if (ref === claimWorkflowsRef) {
+          if (claimedOnce) return [];
+          claimedOnce = true;
+          return [{ workflowId: "wf1", name: "test", input: {} }];
+        }
+        if (ref === getOrCreateStepRef) {
+          return { stepId: "step1", status: "running", isNew: true };
+        }
+        if (ref === scheduleSleepRef) {
+          throw new Error(
+            "scheduleSleep should not be called from inside ctx.step",
+          );
+        }
+        if (ref === failStepRef) return true;
+        if (ref === failWorkflowRef) return true;
+        return true;
+      }),
+      query: vi.fn(async () => {
+        throw new Error("Unexpected query");
+      }),
+      onUpdate: vi.fn((_ref: any, _args: any, _cb: any) => {
+        return () => {};
+      }),
+    };
+
+    const orchestratorApi: any = {
+      ...workerRegistryApi,
+      startWorkflow: Symbol("startWorkflow") as any,
+      claimWorkflows: claimWorkflowsRef,
+      heartbeat: Symbol("heartbeat") as any,
+      completeWorkflow: Symbol("completeWorkflow") as any,
+      failWorkflow: failWorkflowRef,
+      getOrCreateStep: getOrCreateStepRef,
+      scheduleSleep: scheduleSleepRef,
+      completeStep: Symbol("completeStep") as any,
+      failStep: failStepRef,
+      sleepWorkflow: Symbol("sleepWorkflow") as any,
+      getWorkflow: Symbol("getWorkflow") as any,
+      subscribePendingWorkflows: subscribePendingRef,
+    };
+
+    const wf = workflow("test", async (ctx) => {
+      await ctx.step("bad", async () => {
+        await ctx.sleep("delay", 1000);
+      });
+      return "done";
+    });
+
+    const worker = createWorker(client as any, orchestratorApi, {
+      workflows: [wf],
+      pollIntervalMs: 1000,
+    });
+
+    await worker.start();
+    await Promise.resolve();
+    await Promise.resolve();
+
+    worker.stop();
+    await vi.runOnlyPendingTimersAsync();
+
+    const failStepCall = calls.find((c) => c.ref === failStepRef);
+    const failWorkflowCall = calls.find((c) => c.ref === failWorkflowRef);
+
+    expect(failStepCall).toBeDefined();
+    expect(failWorkflowCall).toBeDefined();
+    expect(failStepCall?.args.error).toMatch(/cannot be called inside ctx\.step/i);
+    expect(failWorkflowCall?.args.error).toMatch(/cannot be called inside ctx\.step/i);
+  });
+
+  test("named ctx.sleep resumes after wake without re-sleeping", async () => {
+    const claimWorkflowsRef = Symbol("claimWorkflows") as any;
+    const heartbeatRef = Symbol("heartbeat") as any;
+    const getOrCreateStepRef = Symbol("getOrCreateStep") as any;
+    const scheduleSleepRef = Symbol("scheduleSleep") as any;
+    const completeStepRef = Symbol("completeStep") as any;
+    const completeWorkflowRef = Symbol("completeWorkflow") as any;
+    const subscribePendingRef = Symbol("subscribePendingWorkflows") as any;
+
+    vi.setSystemTime(0);
+
+    const steps = new Map<
+      string,
+      {
+        stepId: string;
+        status: "running" | "completed" | "failed";
+        output?: any;
+        error?: string;
+        sleepUntil?: number;
+      }
+    >();
+    let workflowSleepUntil: number | null = null;
+    let firstClaimed = false;
+    let resumedClaimed = false;
+    let completed = false;
+
+    const client = {
+      mutation: vi.fn(async (ref: any, args: any) => {
+        if (registryResults.has(ref)) return registryResults.get(ref);
+        if (ref === claimWorkflowsRef) {
+          if (completed) return [];
+          if (!firstClaimed) {
+            firstClaimed = true;
+            return [{ workflowId: "wf1", name: "test", input: {} }];
+          }
+          if (
+            workflowSleepUntil != null &&
+            Date.now() >= workflowSleepUntil &&
+            !resumedClaimed
+          ) {
+            resumedClaimed = true;
+            return [{ workflowId: "wf1", name: "test", input: {} }];
+          }
+          return [];
+        }
+
+        if (ref === heartbeatRef) return true;
+
+        if (ref === getOrCreateStepRef) {
+          const stepName = args.stepName as string;
+          const existing = steps.get(stepName);
+          if (existing) {
+            return {
+              stepId: existing.stepId,
+              status: existing.status,
+              output: existing.output,
+              error: existing.error,
+              sleepUntil: existing.sleepUntil,
+              isNew: false,
+            };
+          }
+          const created = {
+            stepId: stepName,
+            status: "running" as const,
+            output: undefined,
+            error: undefined,
+            sleepUntil: undefined,
+          };
+          steps.set(stepName, created);
+          return { ...created, isNew: true };
+        }
+
+        if (ref === scheduleSleepRef) {
+          workflowSleepUntil = args.sleepUntil as number;
+          const marker = steps.get("__sleep:delay");
+          if (marker) marker.sleepUntil = workflowSleepUntil;
+          return true;
+        }
+
+        if (ref === completeStepRef) {
+          for (const [name, step] of steps.entries()) {
+            if (step.stepId === args.stepId) {
+              steps.set(name, {
+                ...step,
+                status: "completed",
+                output: args.output,
+                sleepUntil: undefined,
+              });
+            }
+          }
+          return true;
+        }
+
+        if (ref === completeWorkflowRef) {
+          completed = true;
+          return true;
+        }
+
+        throw new Error(`Unexpected mutation: ${String(ref)}`);
+      }),
+      query: vi.fn(async () => {
+        throw new Error("Unexpected query");
+      }),
+      onUpdate: vi.fn((_ref: any, _args: any, _cb: any) => {
+        return () => {};
+      }),
+    };
+
+    const orchestratorApi: any = {
+      ...workerRegistryApi,
+      startWorkflow: Symbol("startWorkflow") as any,
+      claimWorkflows: claimWorkflowsRef,
+      heartbeat: heartbeatRef,
+      completeWorkflow: completeWorkflowRef,
+      failWorkflow: Symbol("failWorkflow") as any,
+      getOrCreateStep: getOrCreateStepRef,
+      scheduleSleep: scheduleSleepRef,
+      completeStep: completeStepRef,
+      failStep: Symbol("failStep") as any,
+      sleepWorkflow: Symbol("sleepWorkflow") as any,
+      getWorkflow: Symbol("getWorkflow") as any,
+      subscribePendingWorkflows: subscribePendingRef,
+    };
+
+    const wf = workflow("test", async (ctx) => {
+      await ctx.step("pre", () => "ok");
+      await ctx.sleep("delay", 1000);
+      await ctx.step("post", () => "done");
+      return "finished";
+    });
+
+    const worker = createWorker(client as any, orchestratorApi, {
+      workflows: [wf],
+      pollIntervalMs: 1000,
+    });
+
+    await worker.start();
+    await Promise.resolve();
+    await Promise.resolve();
+
+    // Let the worker reach the sleep and park itself.
+    await vi.runOnlyPendingTimersAsync();
+
+    // Advance time past the wake time so claimWorkflow can return it again.
+    await vi.advanceTimersByTimeAsync(1000);
+    await Promise.resolve();
+    await Promise.resolve();
+    await vi.runOnlyPendingTimersAsync();
+
+    worker.stop();
+
+    expect(
+      client.mutation.mock.calls.filter((c: any[]) => c[0] === scheduleSleepRef),
+    ).toHaveLength(1);
+    expect(completed).toBe(true);
+  });
+
+  test("named ctx.waitForSignal resumes after signal without re-waiting", async () => {
+    const claimWorkflowsRef = Symbol("claimWorkflows") as any;
+    const heartbeatRef = Symbol("heartbeat") as any;
+    const getOrCreateStepRef = Symbol("getOrCreateStep") as any;
+    const waitForSignalRef = Symbol("waitForSignal") as any;
+    const completeStepRef = Symbol("completeStep") as any;
+    const completeWorkflowRef = Symbol("completeWorkflow") as any;
+    const subscribePendingRef = Symbol("subscribePendingWorkflows") as any;
+
+    const steps = new Map<
+      string,
+      { stepId: string; status: "running" | "completed"; output?: any; isNew: boolean }
+    >();
+    let signalAvailable = false;
+    let firstClaimed = false;
+    let resumedClaimed = false;
+    let completed = false;
+
+    const client = {
+      mutation: vi.fn(async (ref: any, args: any) => {
+        if (registryResults.has(ref)) return registryResults.get(ref);
+        if (ref === claimWorkflowsRef) {
+          if (completed) return [];
+          if (!firstClaimed) {
+            firstClaimed = true;
+            return [{ workflowId: "wf1", name: "test", input: {} }];
+          }
+          if (signalAvailable && !resumedClaimed) {
+            resumedClaimed = true;
+            return [{ workflowId: "wf1", name: "test", input: {} }];
+          }
+          return [];
+        }
+
+        if (ref === heartbeatRef) return true;
+
+        if (ref === getOrCreateStepRef) {
+          const stepName = args.stepName as string;
+          const existing = steps.get(stepName);
+          if (existing) {
+            return {
+              stepId: existing.stepId,
+              status: existing.status,
+              output: existing.output,
+              error: undefined,
+              isNew: false,
+            };
+          }
+          const created = {
+            stepId: stepName,
+            status: "running" as const,
+            output: undefined,
+            isNew: true,
+          };
+          steps.set(stepName, created);
+          return { ...created, error: undefined };
+        }
+
+        if (ref === waitForSignalRef) {
+          if (!signalAvailable) return { kind: "waiting" as const };
+          return { kind: "signaled" as const, payload: { approved: true } };
+        }
+
+        if (ref === completeStepRef) {
+          for (const [name, step] of steps.entries()) {
+            if (step.stepId === args.stepId) {
+              steps.set(name, {
+                ...step,
+                status: "completed",
+                output: args.output,
+                isNew: false,
+              });
+            }
+          }
+          return true;
+        }
+
+        if (ref === completeWorkflowRef) {
+          completed = true;
+          return true;
+        }
+
+        throw new Error(`Unexpected mutation: ${String(ref)}`);
+      }),
+      query: vi.fn(async () => {
+        throw new Error("Unexpected query");
+      }),
+      onUpdate: vi.fn((_ref: any, _args: any, _cb: any) => {
+        return () => {};
+      }),
+    };
+
+    const orchestratorApi: any = {
+      ...workerRegistryApi,
+      startWorkflow: Symbol("startWorkflow") as any,
+      claimWorkflows: claimWorkflowsRef,
+      heartbeat: heartbeatRef,
+      completeWorkflow: completeWorkflowRef,
+      failWorkflow: Symbol("failWorkflow") as any,
+      getOrCreateStep: getOrCreateStepRef,
+      scheduleSleep: Symbol("scheduleSleep") as any,
+      waitForSignal: waitForSignalRef,
+      completeStep: completeStepRef,
+      failStep: Symbol("failStep") as any,
+      sleepWorkflow: Symbol("sleepWorkflow") as any,
+      getWorkflow: Symbol("getWorkflow") as any,
+      subscribePendingWorkflows: subscribePendingRef,
+    };
+
+    const wf = workflow("test", async (ctx) => {
+      const decision = await ctx.waitForSignal<{ approved: boolean }>(
+        "decision",
+        "approved",
+      );
+      await ctx.step("after", () => (decision.approved ? "ok" : "no"));
+      return "done";
+    });
+
+    const worker = createWorker(client as any, orchestratorApi, {
+      workflows: [wf],
+      pollIntervalMs: 1000,
+    });
+
+    await worker.start();
+    await Promise.resolve();
+    await Promise.resolve();
+
+    // First run should park waiting.
+    expect(signalAvailable).toBe(false);
+    expect(completed).toBe(false);
+
+    // Now "send" the signal and advance time to trigger another claim.
+    signalAvailable = true;
+    await vi.advanceTimersByTimeAsync(1000);
+    await Promise.resolve();
+    await Promise.resolve();
+
+    worker.stop();
+
+    expect(completed).toBe(true);
+    expect(
+      client.mutation.mock.calls.filter((c: any[]) => c[0] === waitForSignalRef),
+    ).toHaveLength(2);
+  });
+
+  test("ctx.waitForSignal throws SignalTimeoutError after its timeout", async () => {
+    const claimWorkflowsRef = Symbol("claimWorkflows") as any;
+    const getOrCreateStepRef = Symbol("getOrCreateStep") as any;
+    const waitForSignalRef = Symbol("waitForSignal") as any;
+    const completeWorkflowRef = Symbol("completeWorkflow") as any;
+    const subscribePendingRef = Symbol("subscribePendingWorkflows") as any;
+
+    const calls: Array<{ ref: any; args: any }> = [];
+    let claimedOnce = false;
+    let output: unknown;
+
+    const client = {
+      mutation: vi.fn(async (ref: any, args: any) => {
+        if (registryResults.has(ref)) return registryResults.get(ref);
+        calls.push({ ref, args });
+
+        if (ref === claimWorkflowsRef) {
+          if (claimedOnce) return [];
+          claimedOnce = true;
+          return [{ workflowId: "wf1", name: "test", input: {} }];
+        }
+        if (ref === getOrCreateStepRef) {
+          return {
+            stepId: args.stepName,
+            status: "running",
+            attempts: 1,
+            isNew: true,
+          };
+        }
+        if (ref === waitForSignalRef) return { kind: "timedOut" as const };
+        if (ref === completeWorkflowRef) {
+          output = args.output;
+          return true;
+        }
+        throw new Error(`Unexpected mutation: ${String(ref)}`);
+      }),
+      query: vi.fn(async () => {
+        throw new Error("Unexpected query");
+      }),
+      onUpdate: vi.fn((_ref: any, _args: any, _cb: any) => {
+        return () => {};
+      }),
+    };
+
+    const orchestratorApi: any = {
+      ...workerRegistryApi,
+      startWorkflow: Symbol("startWorkflow") as any,
+      claimWorkflows: claimWorkflowsRef,
+      heartbeat: Symbol("heartbeat") as any,
+      completeWorkflow: completeWorkflowRef,
+      failWorkflow: Symbol("failWorkflow") as any,
+      getOrCreateStep: getOrCreateStepRef,
+      waitForSignal: waitForSignalRef,
+      completeStep: Symbol("completeStep") as any,
+      failStep: Symbol("failStep") as any,
+      getWorkflow: Symbol("getWorkflow") as any,
+      subscribePendingWorkflows: subscribePendingRef,
+    };
+
+    const wf = workflow("test", async (ctx) => {
+      try {
+        await ctx.waitForSignal("decision", "approved", { timeoutMs: 5_000 });
+        return "approved";
+      } catch (error) {
+        if (error instanceof SignalTimeoutError) return "escalated";
+        throw error;
+      }
+    });
+
+    const worker = createWorker(client as any, orchestratorApi, {
+      workflows: [wf],
+      pollIntervalMs: 1000,
+    });
+
+    await worker.start();
+    await Promise.resolve();
+    await Promise.resolve();
+
+    worker.stop();
+    await vi.runOnlyPendingTimersAsync();
+
+    const waitCall = calls.find((c) => c.ref === waitForSignalRef);
+    expect(waitCall?.args.timeoutMs).toBe(5_000);
+    expect(output).toEqual("escalated");
+  });
+
+  test("ctx.awaitChild parks the parent without failing it", async () => {
+    const claimWorkflowsRef = Symbol("claimWorkflows") as any;
+    const getOrCreateStepRef = Symbol("getOrCreateStep") as any;
+    const startChildWorkflowRef = Symbol("startChildWorkflow") as any;
+    const awaitChildWorkflowRef = Symbol("awaitChildWorkflow") as any;
+    const failWorkflowRef = Symbol("failWorkflow") as any;
+    const subscribePendingRef = Symbol("subscribePendingWorkflows") as any;
+
+    const calls: Array<{ ref: any; args: any }> = [];
+    let claimedOnce = false;
+
+    const client = {
+      mutation: vi.fn(async (ref: any, args: any) => {
+        if (registryResults.has(ref)) return registryResults.get(ref);
+        calls.push({ ref, args });
+
+        if (ref === claimWorkflowsRef) {
+          if (claimedOnce) return [];
+          claimedOnce = true;
+          return [{ workflowId: "wf1", name: "parent", input: {} }];
+        }
+        if (ref === getOrCreateStepRef) {
+          return {
+            stepId: args.stepName,
+            status: "running",
+            attempts: 1,
+            isNew: true,
+          };
+        }
+        if (ref === startChildWorkflowRef) return "child1";
+        if (ref === awaitChildWorkflowRef) return { kind: "waiting" as const };
+        if (ref === failWorkflowRef) return true;
+        throw new Error(`Unexpected mutation: ${String(ref)}`);
+      }),
+      query: vi.fn(async () => {
+        throw new Error("Unexpected query");
+      }),
+      onUpdate: vi.fn((_ref: any, _args: any, _cb: any) => {
+        return () => {};
+      }),
+    };
+
+    const orchestratorApi: any = {
+      ...workerRegistryApi,
+      startWorkflow: Symbol("startWorkflow") as any,
+      claimWorkflows: claimWorkflowsRef,
+      heartbeat: Symbol("heartbeat") as any,
+      completeWorkflow: Symbol("completeWorkflow") as any,
+      failWorkflow: failWorkflowRef,
+      getOrCreateStep: getOrCreateStepRef,
+      startChildWorkflow: startChildWorkflowRef,
+      awaitChildWorkflow: awaitChildWorkflowRef,
+      completeStep: Symbol("completeStep") as any,
+      failStep: Symbol("failStep") as any,
+      getWorkflow: Symbol("getWorkflow") as any,
+      subscribePendingWorkflows: subscribePendingRef,
+    };
+
+    const wf = workflow("parent", async (ctx) => {
+      const childId = await ctx.startChild(
+        "billing",
+        "billing",
+        { plan: "pro" },
+        { parentClosePolicy: "abandon" },
+      );
+      return await ctx.awaitChild(childId);
+    });
+
+    const worker = createWorker(client as any, orchestratorApi, {
+      workflows: [wf],
+      pollIntervalMs: 1000,
+    });
+
+    await worker.start();
+    await Promise.resolve();
+    await Promise.resolve();
+
+    worker.stop();
+    await vi.runOnlyPendingTimersAsync();
+
+    const startCall = calls.find((c) => c.ref === startChildWorkflowRef);
+    expect(startCall?.args).toMatchObject({
+      stepId: "__child:billing",
+      name: "billing",
+      input: { plan: "pro" },
+      parentClosePolicy: "abandon",
+    });
+    const awaitCall = calls.find((c) => c.ref === awaitChildWorkflowRef);
+    expect(awaitCall?.args).toMatchObject({
+      stepId: "__awaitChild:child1",
+      childWorkflowId: "child1",
+    });
+    expect(calls.some((c) => c.ref === failWorkflowRef)).toBe(false);
+  });
+
+  test("ctx.upsertSearchAttributes updates the running workflow", async () => {
+    const claimWorkflowsRef = Symbol("claimWorkflows") as any;
+    const upsertSearchAttributesRef = Symbol("upsertSearchAttributes") as any;
+    const completeWorkflowRef = Symbol("completeWorkflow") as any;
+
+    const calls: Array<{ ref: any; args: any }> = [];
+    let claimedOnce = false;
+
+    const client = {
+      mutation: vi.fn(async (ref: any, args: any) => {
+        if (registryResults.has(ref)) return registryResults.get(ref);
+        calls.push({ ref, args });
+        if (ref === claimWorkflowsRef) {
+          if (claimedOnce) return [];
+          claimedOnce = true;
+          return [{ workflowId: "wf1", name: "test", input: {} }];
+        }
+        if (ref === upsertSearchAttributesRef) return true;
+        if (ref === completeWorkflowRef) return true;
+        throw new Error(`Unexpected mutation: ${String(ref)}`);
+      }),
+      query: vi.fn(async () => {
+        throw new Error("Unexpected query");
+      }),
+      onUpdate: vi.fn(() => () => {}),
+    };
+
+    const orchestratorApi: any = {
+      ...workerRegistryApi,
+      claimWorkflows: claimWorkflowsRef,
+      upsertSearchAttributes: upsertSearchAttributesRef,
+      completeWorkflow: completeWorkflowRef,
+      heartbeat: Symbol("heartbeat") as any,
+      subscribePendingWorkflows: Symbol("subscribePendingWorkflows") as any,
+    };
+
+    const wf = workflow("test", async (ctx) => {
+      await ctx.upsertSearchAttributes({ stage: "shipped", customerId: null });
+      return "ok";
+    });
+
+    const worker = createWorker(client as any, orchestratorApi, {
+      workflows: [wf],
+      pollIntervalMs: 1000,
+    });
+
+    await worker.start();
+    await Promise.resolve();
+    await Promise.resolve();
+
+    worker.stop();
+    await vi.runOnlyPendingTimersAsync();
+
+    expect(
+      calls.find((c) => c.ref === upsertSearchAttributesRef)?.args,
+    ).toEqual({
+      workflowId: "wf1",
+      workerId: worker.workerId,
+      searchAttributes: { stage: "shipped", customerId: null },
+    });
+    expect(calls.some((c) => c.ref === completeWorkflowRef)).toBe(true);
+  });
+
+  test("query handlers answer from the running workflow or by replaying its history", async () => {
+    const claimWorkflowsRef = Symbol("claimWorkflows") as any;
+    const getOrCreateStepRef = Symbol("getOrCreateStep") as any;
+    const completeStepRef = Symbol("completeStep") as any;
+    const completeWorkflowRef = Symbol("completeWorkflow") as any;
+    const getWorkflowRef = Symbol("getWorkflow") as any;
+    const getWorkflowStepsRef = Symbol("getWorkflowSteps") as any;
+    const subscribePendingQueriesRef = Symbol("subscribePendingQueries") as any;
+    const answerQueryRef = Symbol("answerQuery") as any;
+    const queryWorkflowRef = Symbol("queryWorkflow") as any;
+    const getQueryResultRef = Symbol("getQueryResult") as any;
+
+    const answers: any[] = [];
+    let allAnswered!: () => void;
+    const answered = new Promise<void>((resolve) => {
+      allAnswered = resolve;
+    });
+    let claimedOnce = false;
+    let resultPolls = 0;
+    let onQueries!: (queries: any[]) => void;
+
+    const client = {
+      mutation: vi.fn(async (ref: any, args: any) => {
+        if (registryResults.has(ref)) return registryResults.get(ref);
+        if (ref === claimWorkflowsRef) {
+          if (claimedOnce) return [];
+          claimedOnce = true;
+          return [{ workflowId: "wf1", name: "import", input: {} }];
+        }
+        if (ref === getOrCreateStepRef) {
+          return {
+            stepId: args.stepName,
+            status: "running",
+            attempts: 1,
+            isNew: true,
+          };
+        }
+        if (ref === completeStepRef) return true;
+        if (ref === completeWorkflowRef) return true;
+        if (ref === answerQueryRef) {
+          answers.push(args);
+          if (answers.length === 3) allAnswered();
+          return true;
+        }
+        if (ref === queryWorkflowRef) return "q4";
+        throw new Error(`Unexpected mutation: ${String(ref)}`);
+      }),
+      query: vi.fn(async (ref: any) => {
+        if (ref === getWorkflowRef) {
+          return { _id: "wf2", name: "import", status: "sleeping", input: {} };
+        }
+        if (ref === getWorkflowStepsRef) {
+          return [{ name: "a", status: "completed", output: 5, attempts: 1 }];
+        }
+        if (ref === getQueryResultRef) {
+          resultPolls++;
+          return resultPolls === 1
+            ? { status: "pending" }
+            : { status: "answered", result: 7 };
+        }
+        throw new Error("Unexpected query");
+      }),
+      onUpdate: vi.fn((ref: any, _args: any, cb: any) => {
+        if (ref === subscribePendingQueriesRef) onQueries = cb;
+        return () => {};
+      }),
+    };
+
+    const orchestratorApi: any = {
+      ...workerRegistryApi,
+      claimWorkflows: claimWorkflowsRef,
+      getOrCreateStep: getOrCreateStepRef,
+      completeStep: completeStepRef,
+      completeWorkflow: completeWorkflowRef,
+      getWorkflow: getWorkflowRef,
+      getWorkflowSteps: getWorkflowStepsRef,
+      subscribePendingQueries: subscribePendingQueriesRef,
+      answerQuery: answerQueryRef,
+      queryWorkflow: queryWorkflowRef,
+      getQueryResult: getQueryResultRef,
+      heartbeat: Symbol("heartbeat") as any,
+      subscribePendingWorkflows: Symbol("subscribePendingWorkflows") as any,
+    };
+
+    let enteredStepB!: () => void;
+    const inStepB = new Promise<void>((resolve) => {
+      enteredStepB = resolve;
+    });
+    let finishStepB!: () => void;
+    const stepBDone = new Promise<void>((resolve) => {
+      finishStepB = resolve;
+    });
+    const wf = workflow("import", async (ctx) => {
+      let imported = 0;
+      ctx.setQueryHandler("progress", () => imported);
+      imported += await ctx.step("a", () => 1);
+      imported += await ctx.step("b", async () => {
+        enteredStepB();
+        await stepBDone;
+        return 1;
+      });
+      return imported;
+    });
+
+    const worker = createWorker(client as any, orchestratorApi, {
+      workflows: [wf],
+      pollIntervalMs: 1000,
+    });
+
+    await worker.start();
+    expect(client.onUpdate).toHaveBeenCalledWith(
+      subscribePendingQueriesRef,
+      { workerId: worker.workerId, workflowNames: ["import"] },
+      expect.any(Function),
+    );
+    await inStepB;
+
+    const pendingQuery = (
+      _id: string,
+      workflowId: string,
+      queryName: string,
+    ) => ({
+      _id,
+      workflowId,
+      workflowName: "import",
+      queryName,
+    });
+    onQueries([
+      pendingQuery("q1", "wf1", "progress"),
+      pendingQuery("q2", "wf1", "eta"),
+      pendingQuery("q3", "wf2", "progress"),
+    ]);
+    await answered;
+    expect(answers).toEqual(
+      expect.arrayContaining([
+        { queryId: "q1", workerId: worker.workerId, result: 1 },
+        {
+          queryId: "q2",
+          workerId: worker.workerId,
+          error: 'Workflow import has no query handler "eta"',
+        },
+        // wf2 isn't running here: replayed up to the step that isn't done.
+        { queryId: "q3", workerId: worker.workerId, result: 5 },
+      ]),
+    );
+
+    const result = worker.getWorkflow("wf1").query("progress");
+    await vi.advanceTimersByTimeAsync(100);
+    expect(await result).toBe(7);
+    expect(resultPolls).toBe(2);
+
+    finishStepB();
+    worker.stop();
+    await vi.runOnlyPendingTimersAsync();
+  });
+
+  test("queries of a parked run replay the updates it accepted", async () => {
+    const getWorkflowRef = Symbol("getWorkflow") as any;
+    const getWorkflowStepsRef = Symbol("getWorkflowSteps") as any;
+    const subscribePendingQueriesRef = Symbol("subscribePendingQueries") as any;
+    const answerQueryRef = Symbol("answerQuery") as any;
+
+    let answer!: (args: any) => void;
+    const answered = new Promise<any>((resolve) => {
+      answer = resolve;
+    });
+    let onQueries!: (queries: any[]) => void;
+    const claimWorkflowsRef = Symbol("claimWorkflows") as any;
+
+    const client = {
+      mutation: vi.fn(async (ref: any, args: any) => {
+        if (registryResults.has(ref)) return registryResults.get(ref);
+        if (ref === claimWorkflowsRef) return [];
+        if (ref === answerQueryRef) {
+          answer(args);
+          return true;
+        }
+        throw new Error(`Unexpected mutation: ${String(ref)}`);
+      }),
+      query: vi.fn(async (ref: any) => {
+        if (ref === getWorkflowRef) {
+          return {
+            _id: "wf1",
+            name: "order",
+            status: "sleeping",
+            input: { address: "A" },
+          };
+        }
+        if (ref === getWorkflowStepsRef) {
+          // Sleeping at "nap", with an update handled there and one that was
+          // delivered but not handled yet.
+          return [
+            {
+              name: "__sleep:nap",
+              status: "running",
+              attempts: 1,
+              updates: [
+                {
+                  updateId: "u1",
+                  updateName: "changeAddress",
+                  args: { address: "B" },
+                  status: "completed",
+                },
+                {
+                  updateId: "u2",
+                  updateName: "changeAddress",
+                  args: { address: "C" },
+                  status: "delivered",
+                },
+              ],
+            },
+          ];
+        }
+        throw new Error("Unexpected query");
+      }),
+      onUpdate: vi.fn((ref: any, _args: any, cb: any) => {
+        if (ref === subscribePendingQueriesRef) onQueries = cb;
+        return () => {};
+      }),
+    };
+
+    const orchestratorApi: any = {
+      ...workerRegistryApi,
+      claimWorkflows: claimWorkflowsRef,
+      getWorkflow: getWorkflowRef,
+      getWorkflowSteps: getWorkflowStepsRef,
+      subscribePendingQueries: subscribePendingQueriesRef,
+      answerQuery: answerQueryRef,
+      completeUpdate: Symbol("completeUpdate") as any,
+      heartbeat: Symbol("heartbeat") as any,
+      subscribePendingWorkflows: Symbol("subscribePendingWorkflows") as any,
+    };
+
+    const wf = workflow("order", async (ctx, input: { address: string }) => {
+      let address = input.address;
+      ctx.setQueryHandler("address", () => address);
+      ctx.setUpdateHandler("changeAddress", (next: { address: string }) => {
+        address = next.address;
+      });
+      await ctx.sleep("nap", 60_000);
+      address = "after the nap";
+    });
+
+    const worker = createWorker(client as any, orchestratorApi, {
+      workflows: [wf],
+      pollIntervalMs: 1000,
+    });
+
+    await worker.start();
+    onQueries([
+      {
+        _id: "q1",
+        workflowId: "wf1",
+        workflowName: "order",
+        queryName: "address",
+      },
+    ]);
+    expect(await answered).toEqual({
+      queryId: "q1",
+      workerId: worker.workerId,
+      result: "C",
+    });
+
+    worker.stop();
+    await vi.runOnlyPendingTimersAsync();
+  });
+
+  test("ctx.setUpdateHandler applies updates before the step and records outcomes", async () => {
+    const claimWorkflowsRef = Symbol("claimWorkflows") as any;
+    const getOrCreateStepRef = Symbol("getOrCreateStep") as any;
+    const completeStepRef = Symbol("completeStep") as any;
+    const completeUpdateRef = Symbol("completeUpdate") as any;
+    const completeWorkflowRef = Symbol("completeWorkflow") as any;
+    const updateWorkflowRef = Symbol("updateWorkflow") as any;
+    const getUpdateResultRef = Symbol("getUpdateResult") as any;
+
+    const calls: Array<{ ref: any; args: any }> = [];
+    let claimedOnce = false;
+    const update = (updateId: string, updateName: string, args: any) => ({
+      updateId,
+      updateName,
+      args,
+      status: "delivered",
+    });
+
+    const client = {
+      mutation: vi.fn(async (ref: any, args: any) => {
+        if (registryResults.has(ref)) return registryResults.get(ref);
+        calls.push({ ref, args });
+        if (ref === claimWorkflowsRef) {
+          if (claimedOnce) return [];
+          claimedOnce = true;
+          return [{ workflowId: "wf1", name: "order", input: {} }];
+        }
+        if (ref === getOrCreateStepRef) {
+          return {
+            stepId: "s1",
+            status: "running",
+            attempts: 1,
+            isNew: false,
+            updates: [
+              // Already handled: replayed only to rebuild the address.
+              {
+                ...update("u0", "changeAddress", { address: "A" }),
+                status: "completed",
+              },
+              update("u1", "changeAddress", { address: "B" }),
+              update("u2", "changeAddress", { address: "" }),
+              update("u3", "cancelOrder", {}),
+              update("u4", "addNote", {}),
+            ],
+          };
+        }
+        if (ref === completeStepRef) return true;
+        if (ref === completeUpdateRef) return true;
+        if (ref === completeWorkflowRef) return true;
+        if (ref === updateWorkflowRef) return "u5";
+        throw new Error(`Unexpected mutation: ${String(ref)}`);
+      }),
+      query: vi.fn(async (ref: any) => {
+        if (ref === getUpdateResultRef) {
+          return { status: "rejected", error: "Order already shipped" };
+        }
+        throw new Error("Unexpected query");
+      }),
+      onUpdate: vi.fn(() => () => {}),
+    };
+
+    const orchestratorApi: any = {
+      ...workerRegistryApi,
+      claimWorkflows: claimWorkflowsRef,
+      getOrCreateStep: getOrCreateStepRef,
+      completeStep: completeStepRef,
+      completeUpdate: completeUpdateRef,
+      completeWorkflow: completeWorkflowRef,
+      updateWorkflow: updateWorkflowRef,
+      getUpdateResult: getUpdateResultRef,
+      heartbeat: Symbol("heartbeat") as any,
+      subscribePendingWorkflows: Symbol("subscribePendingWorkflows") as any,
+    };
+
+    const handled: string[] = [];
+    const wf = workflow("order", async (ctx) => {
+      let address = "";
+      ctx.setUpdateHandler(
+        "changeAddress",
+        (next: { address: string }) => {
+          handled.push(next.address);
+          address = next.address;
+          return { address };
+        },
+        {
+          validator: (next) => {
+            if (!next.address) throw new Error("Address required");
+          },
+        },
+      );
+      ctx.setUpdateHandler("addNote", () => {
+        throw new Error("Notes are full");
+      });
+      return await ctx.step("ship", () => address);
+    });
+
+    const worker = createWorker(client as any, orchestratorApi, {
+      workflows: [wf],
+      pollIntervalMs: 1000,
+    });
+
+    await worker.start();
+    await Promise.resolve();
+    await Promise.resolve();
+
+    worker.stop();
+    await vi.runOnlyPendingTimersAsync();
+
+    expect(handled).toEqual(["A", "B"]);
+    expect(
+      calls.filter((c) => c.ref === completeUpdateRef).map((c) => c.args),
+    ).toEqual([
+      {
+        updateId: "u1",
+        workerId: worker.workerId,
+        status: "completed",
+        result: { address: "B" },
+      },
+      {
+        updateId: "u2",
+        workerId: worker.workerId,
+        status: "rejected",
+        error: "Address required",
+      },
+      {
+        updateId: "u3",
+        workerId: worker.workerId,
+        status: "rejected",
+        error: 'Workflow order has no update handler "cancelOrder"',
+      },
+      {
+        updateId: "u4",
+        workerId: worker.workerId,
+        status: "failed",
+        error: "Notes are full",
+      },
+    ]);
+    expect(
+      calls.find((c) => c.ref === completeWorkflowRef)?.args.output,
+    ).toEqual("B");
+
+    await expect(
+      worker.getWorkflow("wf1").update("changeAddress", { address: "C" }),
+    ).rejects.toThrow(UpdateRejectedError);
+  });
+
+  test("large values are uploaded to file storage and loaded back on replay", async () => {
+    const claimWorkflowsRef = Symbol("claimWorkflows") as any;
+    const getOrCreateStepRef = Symbol("getOrCreateStep") as any;
+    const generateUploadUrlRef = Symbol("generateUploadUrl") as any;
+    const completeWorkflowRef = Symbol("completeWorkflow") as any;
+
+    const calls: Array<{ ref: any; args: any }> = [];
+    let claimedOnce = false;
+
+    const client = {
+      mutation: vi.fn(async (ref: any, args: any) => {
+        if (registryResults.has(ref)) return registryResults.get(ref);
+        calls.push({ ref, args });
+        if (ref === claimWorkflowsRef) {
+          if (claimedOnce) return [];
+          claimedOnce = true;
+          return [
+            {
+              workflowId: "wf1",
+              name: "test",
+              input: null,
+              inputUrl: "https://storage/input",
+            },
+          ];
+        }
+        if (ref === getOrCreateStepRef) {
+          return {
+            stepId: "s1",
+            status: "completed",
+            output: null,
+            outputUrl: "https://storage/step",
+            attempts: 1,
+            isNew: false,
+          };
+        }
+        if (ref === generateUploadUrlRef) return "https://storage/upload";
+        if (ref === completeWorkflowRef) return true;
+        throw new Error(`Unexpected mutation: ${String(ref)}`);
+      }),
+      query: vi.fn(async () => {
+        throw new Error("Unexpected query");
+      }),
+      onUpdate: vi.fn(() => () => {}),
+    };
+
+    const uploads: string[] = [];
+    const fetchMock = vi.fn(async (url: string, init?: RequestInit) => {
+      if (url === "https://storage/upload") {
+        uploads.push(init?.body as string);
+        return Response.json({ storageId: "storage-output" });
+      }
+      const values: Record<string, unknown> = {
+        "https://storage/input": { items: ["a", "b"] },
+        "https://storage/step": { count: 2 },
+      };
+      return Response.json(values[url]);
+    });
+    vi.stubGlobal("fetch", fetchMock);
+
+    const orchestratorApi: any = {
+      ...workerRegistryApi,
+      claimWorkflows: claimWorkflowsRef,
+      getOrCreateStep: getOrCreateStepRef,
+      generateUploadUrl: generateUploadUrlRef,
+      completeWorkflow: completeWorkflowRef,
+      heartbeat: Symbol("heartbeat") as any,
+      subscribePendingWorkflows: Symbol("subscribePendingWorkflows") as any,
+    };
+
+    const seen: unknown[] = [];
+    const wf = workflow("test", async (ctx, input: { items: string[] }) => {
+      const step = await ctx.step("count", () => ({ count: -1 }));
+      seen.push(input, step);
+      return "x".repeat(100);
+    });
+
+    const worker = createWorker(client as any, orchestratorApi, {
+      workflows: [wf],
+      pollIntervalMs: 1000,
+      offloadThresholdBytes: 64,
+    });
+
+    try {
+      await worker.start();
+      await vi.waitFor(() =>
+        expect(calls.some((c) => c.ref === completeWorkflowRef)).toBe(true),
+      );
+      worker.stop();
+      await vi.runOnlyPendingTimersAsync();
+    } finally {
+      vi.unstubAllGlobals();
+    }
+
+    expect(seen).toEqual([{ items: ["a", "b"] }, { count: 2 }]);
+    expect(uploads).toEqual([JSON.stringify("x".repeat(100))]);
+    expect(calls.find((c) => c.ref === completeWorkflowRef)?.args).toEqual({
+      workflowId: "wf1",
+      workerId: worker.workerId,
+      output: null,
+      outputStorageId: "storage-output",
+    });
+  });
+
+  test("workers register, stop claiming once drained and unregister on stop", async () => {
+    const claimWorkflowsRef = Symbol("claimWorkflows") as any;
+    const registerWorkerRef = Symbol("registerWorker") as any;
+    const workerHeartbeatRef = Symbol("workerHeartbeat") as any;
+    const unregisterWorkerRef = Symbol("unregisterWorker") as any;
+
+    const calls: Array<{ ref: any; args: any }> = [];
+    const client = {
+      mutation: vi.fn(async (ref: any, args: any) => {
+        calls.push({ ref, args });
+        if (ref === registerWorkerRef) return "active";
+        if (ref === workerHeartbeatRef) return "draining";
+        if (ref === claimWorkflowsRef) return [];
+        if (ref === unregisterWorkerRef) return null;
+        throw new Error(`Unexpected mutation: ${String(ref)}`);
+      }),
+      query: vi.fn(async () => {
+        throw new Error("Unexpected query");
+      }),
+      onUpdate: vi.fn(() => () => {}),
+    };
+
+    const orchestratorApi: any = {
+      claimWorkflows: claimWorkflowsRef,
+      subscribePendingWorkflows: Symbol("subscribePendingWorkflows") as any,
+      registerWorker: registerWorkerRef,
+      workerHeartbeat: workerHeartbeatRef,
+      unregisterWorker: unregisterWorkerRef,
+    };
+
+    const worker = createWorker(client as any, orchestratorApi, {
+      workflows: [workflow("order", async () => "ok")],
+      maxConcurrentWorkflows: 3,
+      version: "abc123",
+      hostname: "host-a",
+      pollIntervalMs: 1000,
+    });
+
+    await worker.start();
+    expect(calls[0]).toMatchObject({
+      ref: registerWorkerRef,
+      args: {
+        workerId: worker.workerId,
+        hostname: "host-a",
+        workflowNames: ["order"],
+        version: "abc123",
+        capacity: 3,
+      },
+    });
+
+    await vi.advanceTimersByTimeAsync(10_000);
+    expect(calls.some((c) => c.ref === workerHeartbeatRef)).toBe(true);
+
+    const claimsWhenDrained = calls.filter(
+      (c) => c.ref === claimWorkflowsRef,
+    ).length;
+    await vi.advanceTimersByTimeAsync(5_000);
+    expect(calls.filter((c) => c.ref === claimWorkflowsRef).length).toBe(
+      claimsWhenDrained,
+    );
+
+    worker.stop();
+    await vi.runOnlyPendingTimersAsync();
+    expect(calls[calls.length - 1]).toEqual({
+      ref: unregisterWorkerRef,
+      args: { workerId: worker.workerId },
+    });
+  });
+
+  describe("concurrent steps", () => {
+    const setup = (wf: ReturnType<typeof workflow>) => {
+      const claimWorkflowsRef = Symbol("claimWorkflows") as any;
+      const getOrCreateStepRef = Symbol("getOrCreateStep") as any;
+      const scheduleSleepRef = Symbol("scheduleSleep") as any;
+      const completeStepRef = Symbol("completeStep") as any;
+      const failStepRef = Symbol("failStep") as any;
+      const completeWorkflowRef = Symbol("completeWorkflow") as any;
+      const failWorkflowRef = Symbol("failWorkflow") as any;
+      const scheduleStepRetryRef = Symbol("scheduleStepRetry") as any;
+
+      const calls: Array<{ ref: any; args: any }> = [];
+      let claimedOnce = false;
+
+      const client = {
+        mutation: vi.fn(async (ref: any, args: any) => {
+          if (registryResults.has(ref)) return registryResults.get(ref);
+          calls.push({ ref, args });
+          if (ref === claimWorkflowsRef) {
+            if (claimedOnce) return [];
+            claimedOnce = true;
+            return [{ workflowId: "wf1", name: wf.name, input: {} }];
+          }
+          if (ref === getOrCreateStepRef) {
+            return {
+              stepId: args.stepName,
+              status: "running",
+              attempts: 1,
+              isNew: true,
+            };
+          }
+          if (ref === scheduleSleepRef) {
+            throw new Error("scheduleSleep should not be called");
+          }
+          return true;
+        }),
+        query: vi.fn(async () => {
+          throw new Error("Unexpected query");
+        }),
+        onUpdate: vi.fn((_ref: any, _args: any, _cb: any) => {
+          return () => {};
+        }),
+      };
+
+      const orchestratorApi: any = {
+        ...workerRegistryApi,
+        startWorkflow: Symbol("startWorkflow") as any,
+        claimWorkflows: claimWorkflowsRef,
+        heartbeat: Symbol("heartbeat") as any,
+        completeWorkflow: completeWorkflowRef,
+        failWorkflow: failWorkflowRef,
+        getOrCreateStep: getOrCreateStepRef,
+        scheduleSleep: scheduleSleepRef,
+        completeStep: completeStepRef,
+        failStep: failStepRef,
+        scheduleStepRetry: scheduleStepRetryRef,
+        getWorkflow: Symbol("getWorkflow") as any,
+        subscribePendingWorkflows: Symbol("subscribePendingWorkflows") as any,
+      };
+
+      const worker = createWorker(client as any, orchestratorApi, {
+        workflows: [wf],
+        pollIntervalMs: 1000,
+      });
+
+      const run = async () => {
+        await worker.start();
+        await Promise.resolve();
+        await Promise.resolve();
+        worker.stop();
+        await vi.runOnlyPendingTimersAsync();
+      };
+
+      return {
+        run,
+        calls,
+        completeStepRef,
+        completeWorkflowRef,
+        failWorkflowRef,
+        scheduleStepRetryRef,
+      };
+    };
+
+    test("ctx.parallel runs steps concurrently and keeps their order", async () => {
+      let releaseFirst!: () => void;
+      const firstReleased = new Promise<void>((resolve) => {
+        releaseFirst = resolve;
+      });
+
+      const wf = workflow("fan-out", async (ctx) => {
+        // "first" only finishes once "second" has started, so this deadlocks
+        // unless the callbacks run concurrently.
+        return await ctx.parallel([
+          ctx.step("first", async () => {
+            await firstReleased;
+            return "a";
+          }),
+          ctx.step("second", async () => {
+            releaseFirst();
+            return "b";
+          }),
+        ]);
+      });
+
+      const { run, calls, completeWorkflowRef } = setup(wf);
+      await run();
+
+      const completeCall = calls.find((c) => c.ref === completeWorkflowRef);
+      expect(completeCall?.args.output).toEqual(["a", "b"]);
+    });
+
+    test("a step retry waits for sibling steps to record their results", async () => {
+      const wf = workflow("fan-out", async (ctx) => {
+        return await ctx.parallel([
+          ctx.step(
+            "flaky",
+            async () => {
+              throw new Error("Service unavailable");
+            },
+            { retry: { maxAttempts: 3 } },
+          ),
+          ctx.step("slow", async () => {
+            await new Promise((resolve) => setTimeout(resolve, 500));
+            return "b";
+          }),
+        ]);
+      });
+
+      const { run, calls, completeStepRef, scheduleStepRetryRef } = setup(wf);
+      await run();
+
+      // Parking releases the claim, so "slow" must be recorded before it.
+      const completed = calls.findIndex(
+        (c) => c.ref === completeStepRef && c.args.stepId === "slow",
+      );
+      const parked = calls.findIndex((c) => c.ref === scheduleStepRetryRef);
+      expect(completed).toBeGreaterThanOrEqual(0);
+      expect(parked).toBeGreaterThan(completed);
+      expect(calls[parked].args.stepId).toBe("flaky");
+    });
+
+    test("ctx.sleep inside a step is rejected after a sibling step finished", async () => {
+      const wf = workflow("fan-out", async (ctx) => {
+        const fast = ctx.step("fast", async () => 1);
+        const slow = ctx.step("slow", async () => {
+          await fast;
+          await ctx.sleep("delay", 1000);
+        });
+        await Promise.all([fast, slow]);
+        return "done";
+      });
+
+      const { run, calls, failWorkflowRef } = setup(wf);
+      await run();
+
+      const failCall = calls.find((c) => c.ref === failWorkflowRef);
+      expect(failCall?.args.error).toMatch(
+        /cannot be called inside ctx\.step\("slow"\)/,
+      );
+    });
   });
 });
@@ -1,7 +1,11 @@
 import type { ConvexClient } from "convex/browser";
 import type { FunctionReference } from "convex/server";
-import { mutationGeneric, queryGeneric } from "convex/server";
-import { v } from "convex/values";
+import {
+  mutationGeneric,
+  paginationOptsValidator,
+  queryGeneric,
+} from "convex/server";
+import { convexToJson, jsonToConvex, v, type Value } from "convex/values";
 import type { ComponentApi } from "../component/_generated/component.js";
 
 // Re-export types
@@ -17,9 +21,17 @@ export type WorkflowStatus =
   | "sleeping"
   | "waiting"
   | "completed"
-  | "failed";
+  | "failed"
+  | "cancelled";
 export type StepStatus = "pending" | "running" | "completed" | "failed";
 
+export type UpdateStatus =
+  | "pending"
+  | "delivered"
+  | "completed"
+  | "failed"
+  | "rejected";
+
 /**
  * Error thrown when a workflow goes to sleep
  * This is caught by the worker to gracefully stop execution
@@ -45,10 +57,196 @@ export class WorkflowWaitError extends Error {
   }
 }
 
+/**
+ * Error thrown by ctx.waitForSignal() when its timeout passes before the signal
+ * arrives. Catch it in the workflow to handle the timeout (e.g. escalate).
+ */
+export class SignalTimeoutError extends Error {
+  constructor(
+    public readonly signalName: string,
+    public readonly marker: string,
+  ) {
+    super(`Timed out waiting for signal "${signalName}" (${marker})`);
+    this.name = "SignalTimeoutError";
+  }
+}
+
+/**
+ * Error a step attempt fails with when its callback didn't call
+ * stepCtx.heartbeat() within the step's `heartbeatTimeoutMs`. The callback may
+ * still be running, but its result is ignored; stepCtx.signal is aborted.
+ */
+export class StepHeartbeatTimeoutError extends Error {
+  constructor(
+    public readonly stepName: string,
+    public readonly timeoutMs: number,
+  ) {
+    super(`Step "${stepName}" did not heartbeat within ${timeoutMs}ms`);
+    this.name = "StepHeartbeatTimeoutError";
+  }
+}
+
+/**
+ * Error thrown when a workflow is waiting for a child workflow to finish.
+ * This is caught by the worker to gracefully stop execution.
+ */
+export class WorkflowChildWaitError extends Error {
+  constructor(public readonly childWorkflowId: string) {
+    super(`Workflow waiting for child workflow ${childWorkflowId}`);
+    this.name = "WorkflowChildWaitError";
+  }
+}
+
+/**
+ * Error thrown by ctx.awaitChild() when the child workflow failed or was
+ * cancelled.
+ */
+export class ChildWorkflowFailedError extends Error {
+  constructor(
+    public readonly childWorkflowId: string,
+    message: string,
+  ) {
+    super(message);
+    this.name = "ChildWorkflowFailedError";
+  }
+}
+
+/**
+ * Error thrown when a workflow was cancelled while a worker was executing it.
+ * This is caught by the worker to gracefully stop execution.
+ */
+export class WorkflowCancelledError extends Error {
+  constructor(public readonly workflowId: string) {
+    super(`Workflow ${workflowId} was cancelled`);
+    this.name = "WorkflowCancelledError";
+  }
+}
+
+/**
+ * Error thrown by handle.update() when the update was refused: its validator
+ * threw, the workflow has no handler for it, or the workflow finished first.
+ */
+export class UpdateRejectedError extends Error {
+  constructor(
+    public readonly updateName: string,
+    message: string,
+  ) {
+    super(message);
+    this.name = "UpdateRejectedError";
+  }
+}
+
+/**
+ * Retry policy for ctx.step(). Retries are durable: between attempts the
+ * workflow is parked until the next attempt is due, so a worker crash doesn't
+ * lose the retry.
+ */
+export interface RetryPolicy {
+  /**
+   * Total number of attempts, including the first one. Defaults to 3.
+   */
+  maxAttempts?: number;
+  /**
+   * Delay before the first retry. Defaults to 1 second.
+   */
+  initialIntervalMs?: number;
+  /**
+   * Multiplier applied to the delay after each attempt. Defaults to 2.
+   */
+  backoffCoefficient?: number;
+  /**
+   * Upper bound for the delay between attempts. Defaults to 60 seconds.
+   */
+  maxIntervalMs?: number;
+  /**
+   * Error names (`error.name`) that fail the step immediately without retrying.
+   */
+  nonRetryableErrors?: string[];
+}
+
+export interface StepOptions {
+  retry?: RetryPolicy;
+  /**
+   * Consider the attempt lost if the callback goes this long without calling
+   * stepCtx.heartbeat() (counted from the start of the attempt): it fails with
+   * StepHeartbeatTimeoutError and is retried according to `retry`. The timeout
+   * doesn't stop the callback; it aborts stepCtx.signal, which the callback
+   * should pass on to its I/O or check to stop early.
+   */
+  heartbeatTimeoutMs?: number;
+}
+
+/**
+ * Passed to ctx.step() callbacks.
+ */
+export interface StepContext {
+  /**
+   * Details from the last heartbeat of an earlier attempt of this step, to
+   * resume from. Undefined on the first attempt.
+   */
+  heartbeatDetails: unknown;
+  /**
+   * Report that the step is alive. `details` (e.g. progress) is recorded on
+   * the step and shown by getWorkflowSteps. Throws if the step was lost (its
+   * heartbeat timeout passed or the worker lost its claim).
+   */
+  heartbeat: (details?: unknown) => Promise<void>;
+  /**
+   * Aborted, with the StepHeartbeatTimeoutError as its reason, when the
+   * attempt's heartbeat timeout passes.
+   */
+  signal: AbortSignal;
+}
+
+export interface WaitForSignalOptions {
+  timeoutMs?: number;
+}
+
+/**
+ * What happens to a child workflow when its parent finishes first:
+ * - "cancel" (default): the child is cancelled.
+ * - "abandon": the child keeps running on its own.
+ */
+export type ParentClosePolicy = "cancel" | "abandon";
+
+export interface StartChildOptions {
+  parentClosePolicy?: ParentClosePolicy;
+  /**
+   * Claim priority of the child (see StartWorkflowOptions.priority). Defaults
+   * to the parent's priority.
+   */
+  priority?: number;
+  /**
+   * Task queue of the child. Defaults to the parent's task queue.
+   */
+  taskQueue?: string;
+}
+
 export interface WorkflowContext<TInput> {
   input: TInput;
   workflowId: string;
-  step: <T>(name: string, fn: () => T | Promise<T>) => Promise<T>;
+  step: <T>(
+    name: string,
+    fn: (stepCtx: StepContext) => T | Promise<T>,
+    options?: StepOptions,
+  ) => Promise<T>;
+  /**
+   * Wait for steps started concurrently, like Promise.all, but only after every
+   * one of them settled. Step results are recorded by name, so replay is
+   * deterministic regardless of completion order. If several fail, the error of
+   * the first one in `steps` order is thrown.
+   *
+   * @example
+   * ```ts
+   * const [user, orders] = await ctx.parallel([
+   *   ctx.step("fetch-user", () => fetchUser(input.userId)),
+   *   ctx.step("fetch-orders", () => fetchOrders(input.userId)),
+   * ]);
+   * ```
+   */
+  parallel: <T extends readonly unknown[]>(steps: {
+    [K in keyof T]: Promise<T[K]>;
+  }) => Promise<T>;
   sleep: {
     (durationMs: number): Promise<void>;
     (marker: string, durationMs: number): Promise<void>;
@@ -57,7 +255,89 @@ export interface WorkflowContext<TInput> {
     (timestamp: number | Date): Promise<void>;
     (marker: string, timestamp: number | Date): Promise<void>;
   };
-  waitForSignal: <T = any>(marker: string, signalName: string) => Promise<T>;
+  /**
+   * Wait for a signal sent with signalWorkflow(). With `timeoutMs`, throws a
+   * SignalTimeoutError if no signal arrives before the (durable) deadline.
+   */
+  waitForSignal: <T = any>(
+    marker: string,
+    signalName: string,
+    options?: WaitForSignalOptions,
+  ) => Promise<T>;
+  /**
+   * Returns true if this run should take the patched code path: for new runs,
+   * and for runs whose recorded history hasn't reached this point yet. Returns
+   * false when replaying history recorded before the patch existed. The
+   * decision is recorded durably, so replays always see the same answer.
+   *
+   * @example
+   * ```ts
+   * if (await ctx.patched("send-sms")) {
+   *   await ctx.step("notify-sms", () => sendSms(input.phone));
+   * } else {
+   *   await ctx.step("notify-email", () => sendEmail(input.email));
+   * }
+   * ```
+   */
+  patched: (patchId: string) => Promise<boolean>;
+  /**
+   * Start a child workflow and return its workflowId. The child is started
+   * exactly once per marker; replays return the recorded id. It can be
+   * executed by any worker that registered `workflowName`.
+   */
+  startChild: <TChildInput>(
+    marker: string,
+    workflowName: string,
+    input: TChildInput,
+    options?: StartChildOptions,
+  ) => Promise<string>;
+  /**
+   * Wait for a child started with ctx.startChild() and return its output. The
+   * parent is parked (without holding a worker) until the child finishes.
+   * Throws a ChildWorkflowFailedError if the child failed or was cancelled.
+   */
+  awaitChild: <T = any>(childWorkflowId: string) => Promise<T>;
+  /**
+   * Add or overwrite search attributes of this run (see searchWorkflows);
+   * attributes set to null are removed. Safe to repeat on replay.
+   */
+  upsertSearchAttributes: (
+    searchAttributes: Record<string, SearchAttributeValue | null>,
+  ) => Promise<void>;
+  /**
+   * Answer queryWorkflow() calls named `queryName` from the run's in-memory
+   * state. Register handlers before the first await so a run that isn't held
+   * by any worker can answer by replaying its history up to that point.
+   * Handlers must not call ctx methods.
+   */
+  setQueryHandler: <TArgs = any, TResult = unknown>(
+    queryName: string,
+    handler: QueryHandler<TArgs, TResult>,
+  ) => void;
+  /**
+   * Handle updateWorkflow() calls named `updateName`. An update is applied
+   * before the workflow's next durable call (ctx.step, ctx.sleep, ...) and
+   * replayed at the same point, so its handler may change workflow state and
+   * call ctx.step. `validator` runs first; if it throws, the update is
+   * rejected and the handler doesn't run.
+   */
+  setUpdateHandler: <TArgs = any, TResult = unknown>(
+    updateName: string,
+    handler: UpdateHandler<TArgs, TResult>,
+    options?: UpdateHandlerOptions<TArgs>,
+  ) => void;
+}
+
+export type QueryHandler<TArgs = any, TResult = unknown> = (
+  args: TArgs,
+) => TResult | Promise<TResult>;
+
+export type UpdateHandler<TArgs = any, TResult = unknown> = (
+  args: TArgs,
+) => TResult | Promise<TResult>;
+
+export interface UpdateHandlerOptions<TArgs = any> {
+  validator?: (args: TArgs) => void | Promise<void>;
 }
 
 export type WorkflowFunction<TInput, TOutput> = (
@@ -65,11 +345,79 @@ export type WorkflowFunction<TInput, TOutput> = (
   input: TInput,
 ) => Promise<TOutput>;
 
+export interface WorkflowOptions {
+  /**
+   * Version of this workflow definition. A run is pinned to the version of the
+   * worker that first claims it and is only handed to workers that registered
+   * the same version, so changing the order of ctx.step calls doesn't break
+   * runs started on older code. Unversioned runs can be claimed by any worker.
+   */
+  version?: string;
+  /**
+   * How long a claim on a run of this workflow lasts without a heartbeat.
+   * Overrides the worker's `leaseDurationMs`.
+   */
+  leaseDurationMs?: number;
+  /**
+   * How often a run of this workflow renews its lease. Overrides the worker's
+   * `heartbeatIntervalMs`.
+   */
+  heartbeatIntervalMs?: number;
+}
+
 export interface WorkflowDefinition<TInput = unknown, TOutput = unknown> {
   name: string;
+  version?: string;
+  leaseDurationMs?: number;
+  heartbeatIntervalMs?: number;
   fn: WorkflowFunction<TInput, TOutput>;
 }
 
+/**
+ * What startWorkflow does when a workflow with the same name and workflowKey
+ * already exists:
+ * - "returnExisting" (default): return the existing workflow.
+ * - "fail": throw.
+ * - "startNewIfFinished": start a new run if the existing one completed,
+ *   failed or was cancelled; otherwise return the existing workflow.
+ */
+export type WorkflowKeyConflictPolicy =
+  | "returnExisting"
+  | "fail"
+  | "startNewIfFinished";
+
+export type SearchAttributeValue = string | number | boolean;
+
+export interface StartWorkflowOptions {
+  /**
+   * Idempotency key, unique per workflow name. Starting a workflow with a key
+   * that's already in use is resolved by `onConflict` instead of creating a
+   * duplicate run (e.g. pass an order id from a webhook that may be retried).
+   */
+  workflowKey?: string;
+  onConflict?: WorkflowKeyConflictPolicy;
+  /**
+   * Pending workflows with a higher priority are claimed first; equal
+   * priorities run oldest first. Defaults to 0.
+   */
+  priority?: number;
+  /**
+   * Task queue whose workers may claim the run (see WorkerOptions.taskQueues).
+   * Defaults to "default".
+   */
+  taskQueue?: string;
+  /**
+   * Labels to find the run by with searchWorkflows.
+   */
+  tags?: string[];
+  /**
+   * Key/value attributes to find the run by with searchWorkflows (e.g.
+   * `{ customerId: "123" }`). Names start with a letter and contain only
+   * letters, digits and underscores.
+   */
+  searchAttributes?: Record<string, SearchAttributeValue>;
+}
+
 export interface WorkflowHandle {
   workflowId: string;
   status: () => Promise<{
@@ -78,6 +426,43 @@ export interface WorkflowHandle {
     error?: string;
   }>;
   result: () => Promise<unknown>;
+  /**
+   * Cancel the workflow. Returns false if it already finished.
+   */
+  cancel: (reason?: string) => Promise<boolean>;
+  /**
+   * Retry a failed workflow from its failed step. Completed steps are not
+   * re-executed. Returns false if the workflow isn't failed.
+   */
+  retry: () => Promise<boolean>;
+  /**
+   * Re-run the workflow from the named step: that step and every step after it
+   * are discarded, earlier steps are kept. Returns false if the step isn't
+   * found.
+   */
+  reset: (toStepName: string) => Promise<boolean>;
+  /**
+   * Ask the workflow a question answered by one of its query handlers (see
+   * ctx.setQueryHandler) and wait for the answer. Throws if the handler
+   * throws or doesn't exist, or if no worker answers within `timeoutMs`
+   * (default 30s).
+   */
+  query: <T = unknown>(
+    queryName: string,
+    args?: unknown,
+    options?: { timeoutMs?: number },
+  ) => Promise<T>;
+  /**
+   * Send the workflow an update (see ctx.setUpdateHandler) and wait for its
+   * outcome: the handler's result, an UpdateRejectedError if the update was
+   * refused, or the handler's error if it threw. Throws if the update wasn't
+   * handled within `timeoutMs` (default 60s); it stays queued regardless.
+   */
+  update: <T = unknown>(
+    updateName: string,
+    args?: unknown,
+    options?: { timeoutMs?: number },
+  ) => Promise<T>;
 }
 
 export interface ConvexWorkerClient {
@@ -86,30 +471,81 @@ export interface ConvexWorkerClient {
   onUpdate: ConvexClient["onUpdate"];
 }
 
+export interface ClaimedWorkflow {
+  workflowId: string;
+  name: string;
+  input: any;
+  // Set when the input is in file storage (input is then null).
+  inputUrl?: string;
+}
+
+export interface DeliveredUpdate {
+  updateId: string;
+  updateName: string;
+  args?: any;
+  status: UpdateStatus;
+}
+
 // API type that workers need to operate
 export interface OrchestratorApi {
   startWorkflow: FunctionReference<
     "mutation",
     "public",
-    { name: string; input: any },
+    {
+      name: string;
+      input: any;
+      inputStorageId?: string;
+      workflowKey?: string;
+      onConflict?: WorkflowKeyConflictPolicy;
+      priority?: number;
+      taskQueue?: string;
+      tags?: string[];
+      searchAttributes?: Record<string, SearchAttributeValue>;
+    },
     string
   >;
   claimWorkflow: FunctionReference<
     "mutation",
     "public",
-    { workflowNames: string[]; workerId: string },
-    { workflowId: string; name: string; input: any } | null
+    {
+      workflowNames: string[];
+      workerId: string;
+      workflowVersions?: Record<string, string>;
+      taskQueues?: string[];
+      leaseDurationMs?: number;
+      workflowLeaseDurationsMs?: Record<string, number>;
+    },
+    ClaimedWorkflow | null
+  >;
+  claimWorkflows: FunctionReference<
+    "mutation",
+    "public",
+    {
+      workflowNames: string[];
+      workerId: string;
+      workflowVersions?: Record<string, string>;
+      taskQueues?: string[];
+      leaseDurationMs?: number;
+      workflowLeaseDurationsMs?: Record<string, number>;
+      max: number;
+    },
+    ClaimedWorkflow[]
   >;
   heartbeat: FunctionReference<
     "mutation",
     "public",
-    { workflowId: string; workerId: string },
-    boolean
+    { workflowId: string; workerId: string; leaseDurationMs?: number },
+    boolean | "cancelled"
   >;
   completeWorkflow: FunctionReference<
     "mutation",
     "public",
-    { workflowId: string; workerId: string; output: any },
+    {
+      workflowId: string;
+      workerId: string;
+      output: any;
+      outputStorageId?: string;
+    },
     boolean
   >;
   failWorkflow: FunctionReference<
@@ -126,8 +562,13 @@ export interface OrchestratorApi {
       stepId: string;
       status: StepStatus;
       output?: any;
+      outputUrl?: string;
       error?: string;
       sleepUntil?: number;
+      attempts: number;
+      retryAt?: number;
+      heartbeatDetails?: any;
+      updates?: DeliveredUpdate[];
       isNew: boolean;
     }
   >;
@@ -137,16 +578,92 @@ export interface OrchestratorApi {
     { workflowId: string; stepId: string; workerId: string; sleepUntil: number },
     boolean
   >;
+  scheduleStepRetry: FunctionReference<
+    "mutation",
+    "public",
+    {
+      workflowId: string;
+      stepId: string;
+      workerId: string;
+      error: string;
+      retryAt: number;
+    },
+    boolean
+  >;
   waitForSignal: FunctionReference<
     "mutation",
     "public",
-    { workflowId: string; stepId: string; workerId: string; signalName: string },
-    { kind: "waiting" } | { kind: "signaled"; payload: any }
+    {
+      workflowId: string;
+      stepId: string;
+      workerId: string;
+      signalName: string;
+      timeoutMs?: number;
+    },
+    | { kind: "waiting" }
+    | { kind: "signaled"; payload: any }
+    | { kind: "timedOut" }
+  >;
+  startChildWorkflow: FunctionReference<
+    "mutation",
+    "public",
+    {
+      workflowId: string;
+      stepId: string;
+      workerId: string;
+      name: string;
+      input: any;
+      inputStorageId?: string;
+      parentClosePolicy?: ParentClosePolicy;
+      priority?: number;
+      taskQueue?: string;
+    },
+    string | null
+  >;
+  awaitChildWorkflow: FunctionReference<
+    "mutation",
+    "public",
+    {
+      workflowId: string;
+      stepId: string;
+      workerId: string;
+      childWorkflowId: string;
+    },
+    | { kind: "waiting" }
+    | { kind: "completed"; output: any; outputUrl?: string }
+    | { kind: "failed"; error: string }
+  >;
+  upsertSearchAttributes: FunctionReference<
+    "mutation",
+    "public",
+    {
+      workflowId: string;
+      workerId: string;
+      searchAttributes: Record<string, SearchAttributeValue | null>;
+    },
+    boolean
+  >;
+  recordPatch: FunctionReference<
+    "mutation",
+    "public",
+    {
+      workflowId: string;
+      workerId: string;
+      stepName: string;
+      visitedStepNames: string[];
+    },
+    boolean
   >;
   completeStep: FunctionReference<
     "mutation",
     "public",
-    { stepId: string; workerId: string; output: any },
+    { stepId: string; workerId: string; output: any; outputStorageId?: string },
+    boolean
+  >;
+  stepHeartbeat: FunctionReference<
+    "mutation",
+    "public",
+    { stepId: string; workerId: string; details?: any },
     boolean
   >;
   failStep: FunctionReference<
@@ -161,6 +678,24 @@ export interface OrchestratorApi {
     { workflowId: string; workerId: string; sleepUntil: number },
     boolean
   >;
+  cancelWorkflow: FunctionReference<
+    "mutation",
+    "public",
+    { workflowId: string; reason?: string },
+    boolean
+  >;
+  retryWorkflow: FunctionReference<
+    "mutation",
+    "public",
+    { workflowId: string },
+    boolean
+  >;
+  resetWorkflow: FunctionReference<
+    "mutation",
+    "public",
+    { workflowId: string; toStepName: string },
+    boolean
+  >;
   getWorkflow: FunctionReference<
     "query",
     "public",
@@ -172,19 +707,151 @@ export interface OrchestratorApi {
       status: WorkflowStatus;
       input: any;
       output?: any;
+      inputUrl?: string;
+      outputUrl?: string;
       error?: string;
       claimedBy?: string | null;
       sleepUntil?: number;
+      parentWorkflowId?: string;
+      scheduleId?: string;
+      priority?: number;
+      taskQueue?: string;
+      version?: string;
+      workflowKey?: string;
+      tags?: string[];
+      searchAttributes?: Record<string, SearchAttributeValue>;
     } | null
   >;
   subscribePendingWorkflows: FunctionReference<
     "query",
     "public",
-    { workflowNames: string[] },
+    {
+      workflowNames: string[];
+      workflowVersions?: Record<string, string>;
+      taskQueues?: string[];
+    },
     number
   >;
+  // Workflow queries. getWorkflowSteps is used to replay runs that no worker
+  // holds.
+  getWorkflowSteps: FunctionReference<
+    "query",
+    "public",
+    { workflowId: string },
+    Array<{
+      name: string;
+      status: StepStatus;
+      output?: any;
+      outputUrl?: string;
+      error?: string;
+      attempts: number;
+      updates?: DeliveredUpdate[];
+    }>
+  >;
+  queryWorkflow: FunctionReference<
+    "mutation",
+    "public",
+    { workflowId: string; queryName: string; args?: any; timeoutMs?: number },
+    string
+  >;
+  getQueryResult: FunctionReference<
+    "query",
+    "public",
+    { queryId: string },
+    {
+      status: "pending" | "answered" | "failed";
+      result?: any;
+      error?: string;
+    } | null
+  >;
+  subscribePendingQueries: FunctionReference<
+    "query",
+    "public",
+    { workerId: string; workflowNames: string[] },
+    Array<{
+      _id: string;
+      workflowId: string;
+      workflowName: string;
+      queryName: string;
+      args?: any;
+    }>
+  >;
+  answerQuery: FunctionReference<
+    "mutation",
+    "public",
+    { queryId: string; workerId: string; result?: any; error?: string },
+    boolean
+  >;
+  // Workflow updates
+  updateWorkflow: FunctionReference<
+    "mutation",
+    "public",
+    { workflowId: string; updateName: string; args?: any },
+    string
+  >;
+  getUpdateResult: FunctionReference<
+    "query",
+    "public",
+    { updateId: string },
+    { status: UpdateStatus; result?: any; error?: string } | null
+  >;
+  completeUpdate: FunctionReference<
+    "mutation",
+    "public",
+    {
+      updateId: string;
+      workerId: string;
+      status: "completed" | "failed" | "rejected";
+      result?: any;
+      error?: string;
+    },
+    boolean
+  >;
+  // Large values in file storage
+  generateUploadUrl: FunctionReference<
+    "mutation",
+    "public",
+    Record<string, never>,
+    string
+  >;
+  deleteUpload: FunctionReference<
+    "mutation",
+    "public",
+    { storageId: string },
+    null
+  >;
+  // Worker registry
+  registerWorker: FunctionReference<
+    "mutation",
+    "public",
+    {
+      workerId: string;
+      hostname?: string;
+      pid?: number;
+      workflowNames: string[];
+      workflowVersions?: Record<string, string>;
+      taskQueues?: string[];
+      version?: string;
+      capacity: number;
+    },
+    WorkerStatus
+  >;
+  workerHeartbeat: FunctionReference<
+    "mutation",
+    "public",
+    { workerId: string; running: number },
+    WorkerStatus | null
+  >;
+  unregisterWorker: FunctionReference<
+    "mutation",
+    "public",
+    { workerId: string },
+    null
+  >;
 }
 
+export type WorkerStatus = "active" | "draining" | "stopped";
+
 export interface WorkerOptions {
   workflows: WorkflowDefinition<any, any>[];
   pollIntervalMs?: number;
@@ -201,6 +868,41 @@ export interface WorkerOptions {
    * Reserve the workflow name "*" for this purpose.
    */
   claimAllWorkflows?: boolean;
+  /**
+   * Task queues this worker claims from. A run started with a `taskQueue` is
+   * only claimed by workers polling that queue; runs started without one are
+   * on the "default" queue. Defaults to `["default"]`; include "default" to
+   * poll it alongside other queues.
+   */
+  taskQueues?: string[];
+  /**
+   * Version of the worker's own deployment (e.g. a git sha), shown in
+   * listWorkers.
+   */
+  version?: string;
+  /**
+   * Host name reported in listWorkers. Defaults to the HOSTNAME environment
+   * variable when set.
+   */
+  hostname?: string;
+  /**
+   * Workflow inputs and outputs and step outputs whose JSON encoding is larger
+   * than this many bytes are uploaded to file storage instead of being stored
+   * in the document. Defaults to 512 KiB (documents are limited to 1 MiB).
+   */
+  offloadThresholdBytes?: number;
+  /**
+   * How long a claim lasts without a heartbeat before another worker may take
+   * the workflow over. Longer leases ride out flaky connections, shorter ones
+   * fail over faster when a worker dies. Defaults to 30 seconds; workflows can
+   * override it (see WorkflowOptions).
+   */
+  leaseDurationMs?: number;
+  /**
+   * How often running workflows renew their lease. Must be shorter than the
+   * lease; defaults to a third of it.
+   */
+  heartbeatIntervalMs?: number;
 }
 
 // ============================================================================
@@ -225,13 +927,37 @@ export interface WorkerOptions {
  *
  *   return { orderId: payment.id };
  * });
+ *
+ * // Pin runs to a version of the definition
+ * const v2 = workflow("order", { version: "2" }, async (ctx, input) => {
+ *   // ...
+ * });
  * ```
  */
 export function workflow<TInput, TOutput>(
   name: string,
   fn: WorkflowFunction<TInput, TOutput>,
+): WorkflowDefinition<TInput, TOutput>;
+export function workflow<TInput, TOutput>(
+  name: string,
+  options: WorkflowOptions,
+  fn: WorkflowFunction<TInput, TOutput>,
+): WorkflowDefinition<TInput, TOutput>;
+export function workflow<TInput, TOutput>(
+  name: string,
+  optionsOrFn: WorkflowOptions | WorkflowFunction<TInput, TOutput>,
+  maybeFn?: WorkflowFunction<TInput, TOutput>,
 ): WorkflowDefinition<TInput, TOutput> {
-  return { name, fn };
+  if (typeof optionsOrFn === "function") {
+    return { name, fn: optionsOrFn };
+  }
+  return {
+    name,
+    version: optionsOrFn.version,
+    leaseDurationMs: optionsOrFn.leaseDurationMs,
+    heartbeatIntervalMs: optionsOrFn.heartbeatIntervalMs,
+    fn: maybeFn!,
+  };
 }
 
 // ============================================================================
@@ -260,56 +986,258 @@ export function createWorker(
   const pollIntervalMs = options.pollIntervalMs ?? 1000;
   const claimAllWorkflows = options.claimAllWorkflows ?? false;
   const maxConcurrentWorkflows = options.maxConcurrentWorkflows ?? 1;
+  const offloadThresholdBytes =
+    options.offloadThresholdBytes ?? DEFAULT_OFFLOAD_THRESHOLD_BYTES;
 
   for (const wf of options.workflows) {
     workflows.set(wf.name, wf);
   }
 
   let running = false;
+  // Set once the worker is drained (drainWorker): finish in-flight workflows
+  // but claim nothing new.
+  let draining = false;
+  let workerHeartbeatInterval: ReturnType<typeof setInterval> | null = null;
   let unsubscribe: (() => void) | null = null;
+  let unsubscribeQueries: (() => void) | null = null;
   let pollLoopRunning = false;
   let wakePoll: (() => void) | null = null;
   const inFlight = new Set<Promise<void>>();
+  // Query handlers of the runs executing on this worker, by workflowId.
+  const runningQueryHandlers = new Map<string, Map<string, QueryHandler>>();
+  // Queries being answered, so repeated subscription updates skip them.
+  const answeringQueries = new Set<string>();
 
   const workflowNames = Array.from(workflows.keys());
   const workflowNamesForClaim = claimAllWorkflows ? ["*"] : workflowNames;
+  const versionEntries = Array.from(workflows.values()).flatMap((wf) =>
+    wf.version === undefined ? [] : [[wf.name, wf.version] as const],
+  );
+  const workflowVersions =
+    versionEntries.length > 0 ? Object.fromEntries(versionEntries) : undefined;
+  const taskQueues = options.taskQueues;
+  const leaseEntries = Array.from(workflows.values()).flatMap((wf) =>
+    wf.leaseDurationMs === undefined
+      ? []
+      : [[wf.name, wf.leaseDurationMs] as const],
+  );
+  const workflowLeaseDurationsMs =
+    leaseEntries.length > 0 ? Object.fromEntries(leaseEntries) : undefined;
+  const claimArgs = {
+    workflowNames: workflowNamesForClaim,
+    workerId,
+    workflowVersions,
+    taskQueues,
+    leaseDurationMs: options.leaseDurationMs,
+    workflowLeaseDurationsMs,
+  };
 
-  async function executeWorkflow(
+  const leaseDurationFor = (wf: WorkflowDefinition) =>
+    wf.leaseDurationMs ?? options.leaseDurationMs;
+  const heartbeatIntervalFor = (wf: WorkflowDefinition) =>
+    wf.heartbeatIntervalMs ??
+    options.heartbeatIntervalMs ??
+    Math.floor((leaseDurationFor(wf) ?? DEFAULT_LEASE_DURATION_MS) / 3);
+  for (const wf of workflows.values()) {
+    const leaseDurationMs = leaseDurationFor(wf) ?? DEFAULT_LEASE_DURATION_MS;
+    const heartbeatIntervalMs = heartbeatIntervalFor(wf);
+    if (!(leaseDurationMs > 0) || !(heartbeatIntervalMs > 0)) {
+      throw new Error(
+        `Workflow "${wf.name}": leaseDurationMs and heartbeatIntervalMs must be positive`,
+      );
+    }
+    if (heartbeatIntervalMs >= leaseDurationMs) {
+      throw new Error(
+        `Workflow "${wf.name}": heartbeatIntervalMs (${heartbeatIntervalMs}) must be shorter than leaseDurationMs (${leaseDurationMs})`,
+      );
+    }
+  }
+
+  const offload = (value: unknown) =>
+    offloadLargeValue(client, orchestratorApi, value, offloadThresholdBytes);
+
+  async function completeStep(stepId: string, output: unknown) {
+    const outputStorageId = await offload(output);
+    return await client.mutation(orchestratorApi.completeStep, {
+      stepId,
+      workerId,
+      output: outputStorageId === undefined ? output : null,
+      outputStorageId,
+    });
+  }
+
+  // Builds the context a workflow function runs with. `mutate` sends the
+  // context's mutations: the client when executing, history when replaying.
+  function createWorkflowContext(
     workflowId: string,
     workflowName: string,
     input: unknown,
+    mutate: ConvexWorkerClient["mutation"],
+    replaying = false,
   ) {
-    const workflowDef = workflows.get(workflowName);
-    if (!workflowDef) {
-      console.error(`Unknown workflow: ${workflowName}`);
-      return;
-    }
-
-    const claimState = { lost: false };
-    let executingStepName: string | null = null;
+    const claimState = { lost: false, cancelled: false };
+    const claimLostError = () =>
+      claimState.cancelled
+        ? new WorkflowCancelledError(workflowId)
+        : new Error("Workflow claim lost");
+    // Steps whose callbacks are executing right now (several when steps run
+    // concurrently, e.g. with ctx.parallel or Promise.all).
+    const executingStepNames = new Set<string>();
+    const assertNoStepExecuting = (method: string, advice: string) => {
+      if (executingStepNames.size === 0) return;
+      const steps = Array.from(
+        executingStepNames,
+        (name) => `ctx.step("${name}")`,
+      ).join(", ");
+      const running = executingStepNames.size === 1 ? "it is" : "they are";
+      throw new Error(
+        `ctx.${method}() cannot be called inside ${steps} (or while ${running} running). ${advice}`,
+      );
+    };
+    // Steps still executing or recording their outcome, by name.
+    const unsettledSteps = new Map<string, Promise<void>>();
+    // Park the run until a step's retry is due. Parking releases the claim and
+    // outcomes recorded after that are rejected, so steps running alongside
+    // (ctx.parallel) settle first; otherwise replays would run them again.
+    const parkForStepRetry = async (
+      stepId: string,
+      error: string,
+      retryAt: number,
+    ): Promise<never> => {
+      while (unsettledSteps.size > 0) {
+        await Promise.all(unsettledSteps.values());
+      }
+      if (claimState.lost) {
+        throw claimLostError();
+      }
+      const ok = await mutate(orchestratorApi.scheduleStepRetry, {
+        workflowId,
+        stepId,
+        workerId,
+        error,
+        retryAt,
+      });
+      if (!ok) {
+        throw new Error("Failed to schedule step retry (claim lost?)");
+      }
+      throw new WorkflowSleepError(retryAt);
+    };
     const sleepPrefix = "__sleep:";
     const signalPrefix = "__signal:";
+    const patchPrefix = "__patch:";
+    const childPrefix = "__child:";
+    const awaitChildPrefix = "__awaitChild:";
+
+    // Step names recorded or replayed by this execution, used by ctx.patched()
+    // to tell whether the run's history extends past the current point.
+    const visitedStepNames = new Set<string>();
+    const getOrCreateStep = async (stepName: string) => {
+      const stepInfo = await mutate(orchestratorApi.getOrCreateStep, {
+        workflowId,
+        stepName,
+        workerId,
+      });
+      visitedStepNames.add(stepName);
+      if (stepInfo.updates) {
+        await applyUpdates(stepInfo.updates);
+      }
+      if (
+        replaying &&
+        stepInfo.status !== "completed" &&
+        stepInfo.status !== "failed"
+      ) {
+        // The run is parked at this step; its history ends with its updates.
+        throw new ReplayEndedError();
+      }
+      if (stepInfo.outputUrl !== undefined) {
+        return {
+          ...stepInfo,
+          output: await loadLargeValue(stepInfo.outputUrl),
+        };
+      }
+      return stepInfo;
+    };
+
+    const queryHandlers = new Map<string, QueryHandler>();
+    const updateHandlers = new Map<
+      string,
+      { handler: UpdateHandler; options?: UpdateHandlerOptions }
+    >();
+
+    // Run the handlers of updates delivered with a step, in order. Outcomes
+    // are recorded the first time; replays only re-run the handlers to rebuild
+    // the state they changed.
+    const applyUpdates = async (updates: DeliveredUpdate[]) => {
+      for (const update of updates) {
+        if (update.status === "rejected") continue;
+        const registered = updateHandlers.get(update.updateName);
+        if (update.status !== "delivered") {
+          try {
+            await registered?.handler(update.args);
+          } catch (error) {
+            if (isParkingError(error)) throw error;
+          }
+          continue;
+        }
+
+        let outcome: {
+          status: "completed" | "failed" | "rejected";
+          result?: unknown;
+          error?: string;
+        };
+        if (!registered) {
+          outcome = {
+            status: "rejected",
+            error: `Workflow ${workflowName} has no update handler "${update.updateName}"`,
+          };
+        } else {
+          let validated = false;
+          try {
+            await registered.options?.validator?.(update.args);
+            validated = true;
+            const result = await registered.handler(update.args);
+            outcome = { status: "completed", result };
+          } catch (error) {
+            if (claimState.lost || isParkingError(error)) throw error;
+            outcome = {
+              status: validated ? "failed" : "rejected",
+              error: error instanceof Error ? error.message : String(error),
+            };
+          }
+        }
+        const ok = await mutate(orchestratorApi.completeUpdate, {
+          updateId: update.updateId,
+          workerId,
+          ...outcome,
+        });
+        if (!ok) {
+          throw new Error("Failed to record update outcome (claim lost?)");
+        }
+      }
+    };
 
     // Create the context with step function and sleep functions
     const ctx: WorkflowContext<unknown> = {
       input,
       workflowId,
-      step: async <T>(name: string, fn: () => T | Promise<T>): Promise<T> => {
+      step: async <T>(
+        name: string,
+        fn: (stepCtx: StepContext) => T | Promise<T>,
+        options?: StepOptions,
+      ): Promise<T> => {
         if (claimState.lost) {
-          throw new Error("Workflow claim lost");
+          throw claimLostError();
+        }
+        if (executingStepNames.has(name)) {
+          throw new Error(
+            `ctx.step("${name}") is already running. Steps that run concurrently need unique names.`,
+          );
         }
         // Check if step already completed
-        const stepInfo = await client.mutation(
-          orchestratorApi.getOrCreateStep,
-          {
-            workflowId,
-            stepName: name,
-            workerId,
-          },
-        );
+        const stepInfo = await getOrCreateStep(name);
 
         if (claimState.lost) {
-          throw new Error("Workflow claim lost");
+          throw claimLostError();
         }
 
         if (!stepInfo.isNew && stepInfo.status === "completed") {
@@ -322,30 +1250,111 @@ export function createWorker(
           throw new Error(stepInfo.error ?? "Step failed");
         }
 
+        if (!stepInfo.isNew && stepInfo.status === "pending") {
+          // A retry is scheduled but not due yet; park again until it is.
+          return await parkForStepRetry(
+            stepInfo.stepId,
+            stepInfo.error ?? "Step failed",
+            stepInfo.retryAt ?? Date.now(),
+          );
+        }
+
         // Execute the step
+        let fnSucceeded = false;
+        const heartbeatTimeoutMs = options?.heartbeatTimeoutMs;
+        let heartbeatTimer: ReturnType<typeof setTimeout> | undefined;
+        let heartbeatTimedOut = false;
+        const abortController = new AbortController();
+        let rejectHeartbeatTimeout!: (error: Error) => void;
+        const heartbeatTimeout = new Promise<never>((_, reject) => {
+          rejectHeartbeatTimeout = reject;
+        });
+        const armHeartbeatTimeout = () => {
+          if (heartbeatTimeoutMs === undefined) return;
+          clearTimeout(heartbeatTimer);
+          heartbeatTimer = setTimeout(() => {
+            heartbeatTimedOut = true;
+            const error = new StepHeartbeatTimeoutError(
+              name,
+              heartbeatTimeoutMs,
+            );
+            abortController.abort(error);
+            rejectHeartbeatTimeout(error);
+          }, heartbeatTimeoutMs);
+        };
+        const stepCtx: StepContext = {
+          heartbeatDetails: stepInfo.heartbeatDetails,
+          heartbeat: async (details?: unknown) => {
+            if (heartbeatTimedOut) {
+              throw new StepHeartbeatTimeoutError(name, heartbeatTimeoutMs!);
+            }
+            if (claimState.lost) {
+              throw claimLostError();
+            }
+            armHeartbeatTimeout();
+            const ok = await mutate(orchestratorApi.stepHeartbeat, {
+              stepId: stepInfo.stepId,
+              workerId,
+              details,
+            });
+            if (!ok) {
+              throw new Error("Failed to record step heartbeat (claim lost?)");
+            }
+          },
+          signal: abortController.signal,
+        };
+        let markSettled!: () => void;
+        const settled = new Promise<void>((resolve) => {
+          markSettled = resolve;
+        });
+        const settle = () => {
+          unsettledSteps.delete(name);
+          markSettled();
+        };
         try {
-          executingStepName = name;
-          const result = await fn();
+          executingStepNames.add(name);
+          unsettledSteps.set(name, settled);
+          armHeartbeatTimeout();
+          const running = fn(stepCtx);
+          const result =
+            heartbeatTimeoutMs === undefined
+              ? await running
+              : await Promise.race([running, heartbeatTimeout]);
+          fnSucceeded = true;
 
           if (claimState.lost) {
-            throw new Error("Workflow claim lost");
+            throw claimLostError();
           }
 
           // Store the result
-          const ok = await client.mutation(orchestratorApi.completeStep, {
-            stepId: stepInfo.stepId,
-            workerId,
-            output: result,
-          });
+          const ok = await completeStep(stepInfo.stepId, result);
           if (!ok) {
             throw new Error("Failed to record step result (claim lost?)");
           }
 
           return result;
         } catch (error) {
+          const retry = options?.retry;
+          if (
+            retry &&
+            !fnSucceeded &&
+            !claimState.lost &&
+            shouldRetryStep(retry, error, stepInfo.attempts)
+          ) {
+            const retryAt =
+              Date.now() + computeRetryDelayMs(retry, stepInfo.attempts);
+            // Settle first so sibling steps parking too don't wait on this one.
+            settle();
+            return await parkForStepRetry(
+              stepInfo.stepId,
+              error instanceof Error ? error.message : String(error),
+              retryAt,
+            );
+          }
+
           // Best-effort store the error (may fail if claim was lost)
           try {
-            await client.mutation(orchestratorApi.failStep, {
+            await mutate(orchestratorApi.failStep, {
               stepId: stepInfo.stepId,
               workerId,
               error: error instanceof Error ? error.message : String(error),
@@ -355,16 +1364,32 @@ export function createWorker(
           }
           throw error;
         } finally {
-          executingStepName = null;
+          clearTimeout(heartbeatTimer);
+          executingStepNames.delete(name);
+          settle();
         }
       },
-      sleep: async (...args: [number] | [string, number]) => {
-        if (executingStepName) {
-          throw new Error(
-            `ctx.sleep() cannot be called inside ctx.step("${executingStepName}"). ` +
-              `Move the sleep outside of ctx.step and make it its own top-level await.`,
-          );
+      parallel: async <T extends readonly unknown[]>(steps: {
+        [K in keyof T]: Promise<T[K]>;
+      }) => {
+        const settled = await Promise.allSettled(steps);
+        const failures = settled.flatMap((result) =>
+          result.status === "rejected" ? [result.reason as unknown] : [],
+        );
+        if (failures.length > 0) {
+          // If a step parked the workflow (e.g. to wait for a retry), the
+          // other failures are a side effect of that; stop quietly instead.
+          throw failures.find(isParkingError) ?? failures[0];
         }
+        return settled.map(
+          (result) => (result as PromiseFulfilledResult<unknown>).value,
+        ) as unknown as T;
+      },
+      sleep: async (...args: [number] | [string, number]) => {
+        assertNoStepExecuting(
+          "sleep",
+          "Move the sleep outside of ctx.step and make it its own top-level await.",
+        );
 
         if (args.length === 1) {
           throw new Error(
@@ -385,12 +1410,10 @@ export function createWorker(
       sleepUntil: async (
         ...args: [number | Date] | [string, number | Date]
       ) => {
-        if (executingStepName) {
-          throw new Error(
-            `ctx.sleepUntil() cannot be called inside ctx.step("${executingStepName}"). ` +
-              `Move the sleep outside of ctx.step and make it its own top-level await.`,
-          );
-        }
+        assertNoStepExecuting(
+          "sleepUntil",
+          "Move the sleep outside of ctx.step and make it its own top-level await.",
+        );
 
         if (args.length === 1) {
           throw new Error(
@@ -402,21 +1425,19 @@ export function createWorker(
         const ts =
           typeof timestamp === "number" ? timestamp : timestamp.getTime();
         if (ts <= Date.now()) {
+          // A marker may have been recorded on an earlier run; treat it as seen.
+          visitedStepNames.add(`${sleepPrefix}${marker}`);
           console.warn(
             `[convex-orchestrator] sleepUntil(${ts}) called with time in the past, continuing immediately`,
           );
           return;
         }
         if (claimState.lost) {
-          throw new Error("Workflow claim lost");
+          throw claimLostError();
         }
 
         const stepName = `${sleepPrefix}${marker}`;
-        const stepInfo = await client.mutation(orchestratorApi.getOrCreateStep, {
-          workflowId,
-          stepName,
-          workerId,
-        });
+        const stepInfo = await getOrCreateStep(stepName);
 
         if (!stepInfo.isNew && stepInfo.status === "completed") {
           return;
@@ -428,7 +1449,7 @@ export function createWorker(
         const sleepUntil = stepInfo.sleepUntil ?? ts;
         if (sleepUntil <= Date.now()) {
           // We're already past the wake time; complete the marker and continue.
-          const ok = await client.mutation(orchestratorApi.completeStep, {
+          const ok = await mutate(orchestratorApi.completeStep, {
             stepId: stepInfo.stepId,
             workerId,
             output: { sleepUntil },
@@ -439,7 +1460,7 @@ export function createWorker(
           return;
         }
 
-        const ok = await client.mutation(orchestratorApi.scheduleSleep, {
+        const ok = await mutate(orchestratorApi.scheduleSleep, {
           workflowId,
           stepId: stepInfo.stepId,
           workerId,
@@ -452,13 +1473,15 @@ export function createWorker(
         // Stop execution - workflow will be resumed later
         throw new WorkflowSleepError(sleepUntil);
       },
-      waitForSignal: async <T,>(marker: string, signalName: string) => {
-        if (executingStepName) {
-          throw new Error(
-            `ctx.waitForSignal() cannot be called inside ctx.step("${executingStepName}"). ` +
-              `Move the wait outside of ctx.step and make it its own top-level await.`,
-          );
-        }
+      waitForSignal: async <T,>(
+        marker: string,
+        signalName: string,
+        options?: WaitForSignalOptions,
+      ) => {
+        assertNoStepExecuting(
+          "waitForSignal",
+          "Move the wait outside of ctx.step and make it its own top-level await.",
+        );
         if (!marker) {
           throw new Error("ctx.waitForSignal(marker, signalName) requires a marker");
         }
@@ -468,46 +1491,197 @@ export function createWorker(
           );
         }
         if (claimState.lost) {
-          throw new Error("Workflow claim lost");
+          throw claimLostError();
         }
 
         const stepName = `${signalPrefix}${signalName}:${marker}`;
-        const stepInfo = await client.mutation(orchestratorApi.getOrCreateStep, {
+        const stepInfo = await getOrCreateStep(stepName);
+
+        if (!stepInfo.isNew && stepInfo.status === "completed") {
+          return stepInfo.output as T;
+        }
+        if (!stepInfo.isNew && stepInfo.status === "failed") {
+          // Signal markers only fail when their timeout passed.
+          throw new SignalTimeoutError(signalName, marker);
+        }
+
+        const res = await mutate(orchestratorApi.waitForSignal, {
+          workflowId,
+          stepId: stepInfo.stepId,
+          workerId,
+          signalName,
+          timeoutMs: options?.timeoutMs,
+        });
+
+        if (res.kind === "signaled") {
+          const ok = await completeStep(stepInfo.stepId, res.payload);
+          if (!ok) {
+            throw new Error("Failed to record signal result (claim lost?)");
+          }
+          return res.payload as T;
+        }
+
+        if (res.kind === "timedOut") {
+          throw new SignalTimeoutError(signalName, marker);
+        }
+
+        throw new WorkflowWaitError(signalName, marker);
+      },
+      patched: async (patchId: string) => {
+        assertNoStepExecuting(
+          "patched",
+          "Call it from the workflow body instead.",
+        );
+        if (!patchId) {
+          throw new Error("ctx.patched(patchId) requires a patchId");
+        }
+        if (claimState.lost) {
+          throw claimLostError();
+        }
+
+        const stepName = `${patchPrefix}${patchId}`;
+        const patched = await mutate(orchestratorApi.recordPatch, {
           workflowId,
+          workerId,
           stepName,
+          visitedStepNames: Array.from(visitedStepNames),
+        });
+        visitedStepNames.add(stepName);
+        return patched;
+      },
+      upsertSearchAttributes: async (searchAttributes) => {
+        if (claimState.lost) {
+          throw claimLostError();
+        }
+        const ok = await mutate(orchestratorApi.upsertSearchAttributes, {
+          workflowId,
           workerId,
+          searchAttributes,
         });
+        if (!ok) {
+          throw new Error("Failed to upsert search attributes (claim lost?)");
+        }
+      },
+      startChild: async <TChildInput,>(
+        marker: string,
+        workflowName: string,
+        childInput: TChildInput,
+        options?: StartChildOptions,
+      ) => {
+        assertNoStepExecuting(
+          "startChild",
+          "Call it from the workflow body instead.",
+        );
+        if (!marker) {
+          throw new Error(
+            "ctx.startChild(marker, workflowName, input) requires a marker",
+          );
+        }
+        if (claimState.lost) {
+          throw claimLostError();
+        }
+
+        const stepInfo = await getOrCreateStep(`${childPrefix}${marker}`);
+        if (!stepInfo.isNew && stepInfo.status === "completed") {
+          return stepInfo.output as string;
+        }
+
+        const inputStorageId = await offload(childInput);
+        const childWorkflowId = await mutate(
+          orchestratorApi.startChildWorkflow,
+          {
+            workflowId,
+            stepId: stepInfo.stepId,
+            workerId,
+            name: workflowName,
+            input: inputStorageId === undefined ? childInput : null,
+            inputStorageId,
+            parentClosePolicy: options?.parentClosePolicy,
+            priority: options?.priority,
+            taskQueue: options?.taskQueue,
+          },
+        );
+        if (!childWorkflowId) {
+          throw new Error("Failed to start child workflow (claim lost?)");
+        }
+        return childWorkflowId;
+      },
+      awaitChild: async <T,>(childWorkflowId: string) => {
+        assertNoStepExecuting(
+          "awaitChild",
+          "Move the wait outside of ctx.step and make it its own top-level await.",
+        );
+        if (claimState.lost) {
+          throw claimLostError();
+        }
 
+        const stepInfo = await getOrCreateStep(
+          `${awaitChildPrefix}${childWorkflowId}`,
+        );
         if (!stepInfo.isNew && stepInfo.status === "completed") {
           return stepInfo.output as T;
         }
         if (!stepInfo.isNew && stepInfo.status === "failed") {
-          throw new Error(stepInfo.error ?? "Signal marker step failed");
+          throw new ChildWorkflowFailedError(
+            childWorkflowId,
+            stepInfo.error ?? "Child workflow failed",
+          );
         }
 
-        const res = await client.mutation(orchestratorApi.waitForSignal, {
+        const res = await mutate(orchestratorApi.awaitChildWorkflow, {
           workflowId,
           stepId: stepInfo.stepId,
           workerId,
-          signalName,
+          childWorkflowId,
         });
-
-        if (res.kind === "signaled") {
-          const ok = await client.mutation(orchestratorApi.completeStep, {
-            stepId: stepInfo.stepId,
-            workerId,
-            output: res.payload,
-          });
+        if (res.kind === "completed") {
+          if (res.outputUrl === undefined) {
+            return res.output as T;
+          }
+          // The child's output is in file storage; record a copy owned by
+          // this workflow's step.
+          const output = await loadLargeValue(res.outputUrl);
+          const ok = await completeStep(stepInfo.stepId, output);
           if (!ok) {
-            throw new Error("Failed to record signal result (claim lost?)");
+            throw new Error("Failed to record child result (claim lost?)");
           }
-          return res.payload as T;
+          return output as T;
         }
-
-        throw new WorkflowWaitError(signalName, marker);
+        if (res.kind === "failed") {
+          throw new ChildWorkflowFailedError(childWorkflowId, res.error);
+        }
+        throw new WorkflowChildWaitError(childWorkflowId);
+      },
+      setQueryHandler: (queryName, handler) => {
+        queryHandlers.set(queryName, handler);
+      },
+      setUpdateHandler: (updateName, handler, options) => {
+        updateHandlers.set(updateName, { handler, options });
       },
     };
 
+    return { ctx, claimState, queryHandlers };
+  }
+
+  async function executeWorkflow(
+    workflowId: string,
+    workflowName: string,
+    input: unknown,
+  ) {
+    const workflowDef = workflows.get(workflowName);
+    if (!workflowDef) {
+      console.error(`Unknown workflow: ${workflowName}`);
+      return;
+    }
+
+    const { ctx, claimState, queryHandlers } = createWorkflowContext(
+      workflowId,
+      workflowName,
+      input,
+      (...args) => client.mutation(...args),
+    );
+    runningQueryHandlers.set(workflowId, queryHandlers);
+
     // Start heartbeat
     const heartbeatInterval = setInterval(async () => {
       if (claimState.lost) return;
@@ -515,8 +1689,13 @@ export function createWorker(
         const ok = await client.mutation(orchestratorApi.heartbeat, {
           workflowId,
           workerId,
+          leaseDurationMs: leaseDurationFor(workflowDef),
         });
-        if (!ok) {
+        if (ok === "cancelled") {
+          claimState.lost = true;
+          claimState.cancelled = true;
+          console.warn(`Workflow ${workflowId} was cancelled`);
+        } else if (!ok) {
           claimState.lost = true;
           console.warn(`Lost claim for workflow ${workflowId}`);
         }
@@ -524,7 +1703,7 @@ export function createWorker(
         // Heartbeat failed, workflow may have been reassigned
         console.warn("Heartbeat failed:", e);
       }
-    }, 10_000); // Every 10 seconds
+    }, heartbeatIntervalFor(workflowDef));
 
     try {
       // Execute the workflow
@@ -535,10 +1714,12 @@ export function createWorker(
       }
 
       // Mark workflow as completed
+      const outputStorageId = await offload(result);
       const ok = await client.mutation(orchestratorApi.completeWorkflow, {
         workflowId,
         workerId,
-        output: result,
+        output: outputStorageId === undefined ? result : null,
+        outputStorageId,
       });
       if (!ok) {
         console.warn(`Failed to complete workflow ${workflowId} (claim lost?)`);
@@ -548,6 +1729,9 @@ export function createWorker(
       console.log(`Workflow ${workflowId} completed successfully`);
     } catch (error) {
       if (claimState.lost) {
+        if (claimState.cancelled) {
+          console.log(`Workflow ${workflowId} stopped after cancellation`);
+        }
         return;
       }
       // Check if this is a sleep error - if so, workflow is now sleeping
@@ -563,6 +1747,12 @@ export function createWorker(
         );
         return;
       }
+      if (error instanceof WorkflowChildWaitError) {
+        console.log(
+          `Workflow ${workflowId} is waiting for child workflow ${error.childWorkflowId}`,
+        );
+        return;
+      }
       // Mark workflow as failed
       const ok = await client.mutation(orchestratorApi.failWorkflow, {
         workflowId,
@@ -577,6 +1767,89 @@ export function createWorker(
       console.error(`Workflow ${workflowId} failed:`, error);
     } finally {
       clearInterval(heartbeatInterval);
+      runningQueryHandlers.delete(workflowId);
+    }
+  }
+
+  /**
+   * Rebuild the query handlers of a run no worker holds by replaying its
+   * recorded history; the replay stops at the first point that would need a
+   * new mutation.
+   */
+  async function replayQueryHandlers(workflowId: string, workflowName: string) {
+    const workflowDef = workflows.get(workflowName);
+    if (!workflowDef) return undefined;
+    const workflow = await client.query(orchestratorApi.getWorkflow, {
+      workflowId,
+    });
+    if (!workflow) return undefined;
+    const input =
+      workflow.inputUrl === undefined
+        ? workflow.input
+        : await loadLargeValue(workflow.inputUrl);
+    const steps = new Map(
+      (
+        await client.query(orchestratorApi.getWorkflowSteps, { workflowId })
+      ).map((step) => [step.name, step]),
+    );
+
+    const replay = (async (ref: unknown, args: any) => {
+      if (ref === orchestratorApi.getOrCreateStep) {
+        const step = steps.get(args.stepName);
+        if (step) return { ...step, stepId: "", isNew: false };
+      } else if (ref === orchestratorApi.recordPatch) {
+        const marker = steps.get(args.stepName);
+        if (marker) return marker.output === true;
+      } else if (
+        ref === orchestratorApi.upsertSearchAttributes ||
+        // Updates delivered but not handled yet are applied like the worker
+        // holding the run will; only that worker records the outcome.
+        ref === orchestratorApi.completeUpdate
+      ) {
+        return true;
+      }
+      throw new ReplayEndedError();
+    }) as ConvexWorkerClient["mutation"];
+
+    const { ctx, queryHandlers } = createWorkflowContext(
+      workflowId,
+      workflowName,
+      input,
+      replay,
+      true,
+    );
+    try {
+      await workflowDef.fn(ctx, input);
+    } catch {
+      // Expected: the replay ends where the run's history does.
+    }
+    return queryHandlers;
+  }
+
+  async function answerQuery(query: PendingQuery) {
+    let answer: { result?: unknown; error?: string };
+    try {
+      const handlers =
+        runningQueryHandlers.get(query.workflowId) ??
+        (await replayQueryHandlers(query.workflowId, query.workflowName));
+      const handler = handlers?.get(query.queryName);
+      if (!handler) {
+        throw new Error(
+          `Workflow ${query.workflowName} has no query handler "${query.queryName}"`,
+        );
+      }
+      answer = { result: await handler(query.args) };
+    } catch (e) {
+      answer = { error: e instanceof Error ? e.message : String(e) };
+    }
+    try {
+      await client.mutation(orchestratorApi.answerQuery, {
+        queryId: query._id,
+        workerId,
+        ...answer,
+      });
+    } catch (e) {
+      console.warn(`Failed to answer query ${query._id}:`, e);
     }
   }
 
@@ -593,8 +1866,18 @@ export function createWorker(
     workflowId: string,
     workflowName: string,
     input: unknown,
+    inputUrl: string | undefined,
   ) {
     const p = (async () => {
+      if (inputUrl !== undefined) {
+        try {
+          input = await loadLargeValue(inputUrl);
+        } catch (e) {
+          // Leave the claim to expire so the workflow is retried.
+          console.error(`Failed to load input of workflow ${workflowId}:`, e);
+          return;
+        }
+      }
       await executeWorkflow(workflowId, workflowName, input);
     })();
     inFlight.add(p);
@@ -605,6 +1888,51 @@ export function createWorker(
     });
   }
 
+  async function registerWorker() {
+    const nodeProcess = typeof process === "undefined" ? undefined : process;
+    try {
+      const status = await client.mutation(orchestratorApi.registerWorker, {
+        workerId,
+        hostname: options.hostname ?? nodeProcess?.env?.HOSTNAME,
+        pid: nodeProcess?.pid,
+        workflowNames: workflowNamesForClaim,
+        workflowVersions,
+        taskQueues,
+        version: options.version,
+        capacity: maxConcurrentWorkflows,
+      });
+      setDraining(status === "draining");
+    } catch (e) {
+      // Claims don't depend on registration; the next heartbeat retries it.
+      console.warn("Worker registration failed:", e);
+    }
+  }
+
+  async function sendWorkerHeartbeat() {
+    try {
+      const status = await client.mutation(orchestratorApi.workerHeartbeat, {
+        workerId,
+        running: inFlight.size,
+      });
+      if (status === null) {
+        await registerWorker();
+      } else {
+        setDraining(status === "draining");
+      }
+    } catch (e) {
+      console.warn("Worker heartbeat failed:", e);
+    }
+  }
+
+  function setDraining(value: boolean) {
+    if (value && !draining) {
+      console.log(
+        `Worker ${workerId} is draining; no new workflows will be claimed`,
+      );
+    }
+    draining = value;
+  }
+
   async function pollLoop() {
     if (pollLoopRunning) return;
     pollLoopRunning = true;
@@ -612,21 +1940,34 @@ export function createWorker(
       while (running) {
         try {
           // Fill available capacity.
-          while (running && inFlight.size < maxConcurrentWorkflows) {
-            const claimed = await client.mutation(
-              orchestratorApi.claimWorkflow,
-              {
-                workflowNames: workflowNamesForClaim,
-                workerId,
-              },
+          while (
+            running &&
+            !draining &&
+            inFlight.size < maxConcurrentWorkflows
+          ) {
+            const requested = Math.min(
+              maxConcurrentWorkflows - inFlight.size,
+              CLAIM_BATCH_SIZE,
             );
-
-            if (!claimed) break;
-
-            console.log(
-              `Claimed workflow: ${claimed.workflowId} (${claimed.name})`,
+            const batch = await client.mutation(
+              orchestratorApi.claimWorkflows,
+              { ...claimArgs, max: requested },
             );
-            startInFlight(claimed.workflowId, claimed.name, claimed.input);
+
+            for (const claimed of batch) {
+              console.log(
+                `Claimed workflow: ${claimed.workflowId} (${claimed.name})`,
+              );
+              startInFlight(
+                claimed.workflowId,
+                claimed.name,
+                claimed.input,
+                claimed.inputUrl,
+              );
+            }
+
+            // A short batch means there's nothing more to claim right now.
+            if (batch.length < requested) break;
           }
         } catch (error) {
           console.error("Error polling for workflows:", error);
@@ -662,10 +2003,20 @@ export function createWorker(
       console.log(`Worker ${workerId} starting...`);
       console.log(`Registered workflows: ${workflowNames.join(", ")}`);
 
+      await registerWorker();
+      workerHeartbeatInterval = setInterval(
+        sendWorkerHeartbeat,
+        WORKER_HEARTBEAT_INTERVAL_MS,
+      );
+
       // Subscribe to pending workflow count for real-time updates
       unsubscribe = client.onUpdate(
         orchestratorApi.subscribePendingWorkflows,
-        { workflowNames: workflowNamesForClaim },
+        {
+          workflowNames: workflowNamesForClaim,
+          workflowVersions,
+          taskQueues,
+        },
         (count) => {
           if (count > 0 && running) {
             // There are pending workflows, wake the poll loop.
@@ -674,6 +2025,20 @@ export function createWorker(
         },
       );
 
+      unsubscribeQueries = client.onUpdate(
+        orchestratorApi.subscribePendingQueries,
+        { workerId, workflowNames: workflowNamesForClaim },
+        (queries) => {
+          for (const query of queries) {
+            if (!running || answeringQueries.has(query._id)) continue;
+            answeringQueries.add(query._id);
+            void answerQuery(query).finally(() =>
+              answeringQueries.delete(query._id),
+            );
+          }
+        },
+      );
+
       // Start polling
       triggerPoll();
     },
@@ -688,6 +2053,17 @@ export function createWorker(
         unsubscribe();
         unsubscribe = null;
       }
+      if (unsubscribeQueries) {
+        unsubscribeQueries();
+        unsubscribeQueries = null;
+      }
+      if (workerHeartbeatInterval) {
+        clearInterval(workerHeartbeatInterval);
+        workerHeartbeatInterval = null;
+      }
+      client
+        .mutation(orchestratorApi.unregisterWorker, { workerId })
+        .catch((e) => console.warn("Worker unregistration failed:", e));
       console.log(`Worker ${workerId} stopped`);
     },
 
@@ -697,11 +2073,34 @@ export function createWorker(
     startWorkflow: async <TInput>(
       workflowName: string,
       input: TInput,
+      options?: StartWorkflowOptions,
     ): Promise<WorkflowHandle> => {
-      const workflowId = await client.mutation(orchestratorApi.startWorkflow, {
-        name: workflowName,
-        input,
-      });
+      const inputStorageId = await offload(input);
+      let workflowId: string;
+      try {
+        workflowId = await client.mutation(orchestratorApi.startWorkflow, {
+          name: workflowName,
+          input: inputStorageId === undefined ? input : null,
+          inputStorageId,
+          workflowKey: options?.workflowKey,
+          onConflict: options?.onConflict,
+          priority: options?.priority,
+          taskQueue: options?.taskQueue,
+          tags: options?.tags,
+          searchAttributes: options?.searchAttributes,
+        });
+      } catch (e) {
+        // A rejected start (e.g. a workflowKey conflict) rolls back, leaving
+        // the uploaded input unreferenced.
+        if (inputStorageId !== undefined) {
+          await client
+            .mutation(orchestratorApi.deleteUpload, {
+              storageId: inputStorageId,
+            })
+            .catch((err) => console.warn("Failed to delete upload:", err));
+        }
+        throw e;
+      }
 
       return createWorkflowHandle(client, orchestratorApi, workflowId);
     },
@@ -741,7 +2140,10 @@ function createWorkflowHandle(
       }
       return {
         status: workflow.status,
-        output: workflow.output,
+        output:
+          workflow.outputUrl === undefined
+            ? workflow.output
+            : await loadLargeValue(workflow.outputUrl),
         error: workflow.error,
       };
     },
@@ -756,15 +2158,108 @@ function createWorkflowHandle(
           throw new Error(`Workflow ${workflowId} not found`);
         }
         if (workflow.status === "completed") {
-          return workflow.output;
+          return workflow.outputUrl === undefined
+            ? workflow.output
+            : await loadLargeValue(workflow.outputUrl);
         }
         if (workflow.status === "failed") {
           throw new Error(workflow.error ?? "Workflow failed");
         }
+        if (workflow.status === "cancelled") {
+          throw new WorkflowCancelledError(workflowId);
+        }
         // Wait and poll again
         await sleep(500);
       }
     },
+
+    cancel: async (reason?: string) => {
+      return await client.mutation(orchestratorApi.cancelWorkflow, {
+        workflowId,
+        reason,
+      });
+    },
+
+    retry: async () => {
+      return await client.mutation(orchestratorApi.retryWorkflow, {
+        workflowId,
+      });
+    },
+
+    reset: async (toStepName: string) => {
+      return await client.mutation(orchestratorApi.resetWorkflow, {
+        workflowId,
+        toStepName,
+      });
+    },
+
+    query: async <T>(
+      queryName: string,
+      args?: unknown,
+      options?: { timeoutMs?: number },
+    ) => {
+      const { queryWorkflow, getQueryResult } = orchestratorApi;
+      const timeoutMs = options?.timeoutMs ?? 30_000;
+      const queryId = await client.mutation(queryWorkflow, {
+        workflowId,
+        queryName,
+        args,
+        timeoutMs,
+      });
+      const deadline = Date.now() + timeoutMs;
+      // Poll until a worker answered
+      while (true) {
+        const answer = await client.query(getQueryResult, { queryId });
+        if (answer?.status === "answered") {
+          return answer.result as T;
+        }
+        if (answer?.status === "failed") {
+          throw new Error(answer.error ?? "Query failed");
+        }
+        if (Date.now() >= deadline) {
+          throw new Error(
+            `Query "${queryName}" of workflow ${workflowId} was not answered in time`,
+          );
+        }
+        await sleep(ANSWER_POLL_INTERVAL_MS);
+      }
+    },
+
+    update: async <T>(
+      updateName: string,
+      args?: unknown,
+      options?: { timeoutMs?: number },
+    ) => {
+      const { updateWorkflow, getUpdateResult } = orchestratorApi;
+      const updateId = await client.mutation(updateWorkflow, {
+        workflowId,
+        updateName,
+        args,
+      });
+      const deadline = Date.now() + (options?.timeoutMs ?? 60_000);
+      // Poll until the workflow handled the update
+      while (true) {
+        const outcome = await client.query(getUpdateResult, { updateId });
+        if (outcome?.status === "completed") {
+          return outcome.result as T;
+        }
+        if (outcome?.status === "rejected") {
+          throw new UpdateRejectedError(
+            updateName,
+            outcome.error ?? "Update rejected",
+          );
+        }
+        if (outcome?.status === "failed") {
+          throw new Error(outcome.error ?? "Update failed");
+        }
+        if (Date.now() >= deadline) {
+          throw new Error(
+            `Update "${updateName}" of workflow ${workflowId} was not handled in time`,
+          );
+        }
+        await sleep(ANSWER_POLL_INTERVAL_MS);
+      }
+    },
   };
 }
 
@@ -780,6 +2275,112 @@ function sleep(ms: number): Promise<void> {
   return new Promise((resolve) => setTimeout(resolve, ms));
 }
 
+// Most workflows claimWorkflows hands out per call.
+const CLAIM_BATCH_SIZE = 100;
+
+// How often handle.query() and handle.update() check for an answer.
+const ANSWER_POLL_INTERVAL_MS = 100;
+
+// Errors that park a workflow (sleep, wait) rather than fail it.
+function isParkingError(error: unknown) {
+  return (
+    error instanceof WorkflowSleepError ||
+    error instanceof WorkflowWaitError ||
+    error instanceof WorkflowChildWaitError
+  );
+}
+
+type PendingQuery = NonNullable<
+  OrchestratorApi["subscribePendingQueries"]
+>["_returnType"][number];
+
+// Ends a replay (see replayQueryHandlers) at the first mutation that isn't
+// answered by the run's history.
+class ReplayEndedError extends Error {
+  constructor() {
+    super("Replay reached the end of the recorded history");
+    this.name = "ReplayEndedError";
+  }
+}
+
+// Values larger than this are kept in file storage rather than in documents.
+const DEFAULT_OFFLOAD_THRESHOLD_BYTES = 512 * 1024;
+
+/**
+ * Upload `value` to file storage if its JSON encoding is larger than
+ * `thresholdBytes`, returning the storage id. Returns undefined when the value
+ * should be stored inline.
+ */
+async function offloadLargeValue(
+  client: ConvexWorkerClient,
+  orchestratorApi: OrchestratorApi,
+  value: unknown,
+  thresholdBytes: number,
+): Promise<string | undefined> {
+  if (value === undefined) {
+    return undefined;
+  }
+  const json = JSON.stringify(convexToJson(value as Value));
+  if (new TextEncoder().encode(json).length <= thresholdBytes) {
+    return undefined;
+  }
+  const uploadUrl = await client.mutation(
+    orchestratorApi.generateUploadUrl,
+    {},
+  );
+  const res = await fetch(uploadUrl, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: json,
+  });
+  if (!res.ok) {
+    throw new Error(`Failed to upload large value: ${res.status}`);
+  }
+  const { storageId } = (await res.json()) as { storageId: string };
+  return storageId;
+}
+
+async function loadLargeValue(url: string): Promise<unknown> {
+  const res = await fetch(url);
+  if (!res.ok) {
+    throw new Error(`Failed to download large value: ${res.status}`);
+  }
+  return jsonToConvex(await res.json());
+}
+
+// Lease the component grants when the worker doesn't ask for another one.
+const DEFAULT_LEASE_DURATION_MS = 30_000;
+
+// How often a worker reports itself alive in the worker registry.
+const WORKER_HEARTBEAT_INTERVAL_MS = 10_000;
+
+// Random spread applied to retry delays so failing steps don't retry in lockstep.
+const RETRY_JITTER = 0.2;
+
+function shouldRetryStep(
+  policy: RetryPolicy,
+  error: unknown,
+  attempt: number,
+): boolean {
+  const maxAttempts = policy.maxAttempts ?? 3;
+  if (attempt >= maxAttempts) return false;
+  const errorName = error instanceof Error ? error.name : undefined;
+  if (errorName && policy.nonRetryableErrors?.includes(errorName)) {
+    return false;
+  }
+  return true;
+}
+
+function computeRetryDelayMs(policy: RetryPolicy, attempt: number): number {
+  const initialIntervalMs = policy.initialIntervalMs ?? 1000;
+  const backoffCoefficient = policy.backoffCoefficient ?? 2;
+  const maxIntervalMs = policy.maxIntervalMs ?? 60_000;
+
+  const base = initialIntervalMs * backoffCoefficient ** (attempt - 1);
+  const jitter = 1 - RETRY_JITTER + Math.random() * 2 * RETRY_JITTER;
+  return Math.min(base * jitter, maxIntervalMs);
+}
+
 // ============================================================================
 // Convex Integration Helpers (for use in Convex functions)
 // ============================================================================
@@ -793,13 +2394,29 @@ export type WorkerAuthorizeFn = (
   args: any,
 ) => boolean | Promise<boolean>;
 
+const startWorkflowArgs = {
+  name: v.string(),
+  input: v.any(),
+  workflowKey: v.optional(v.string()),
+  onConflict: v.optional(
+    v.union(
+      v.literal("returnExisting"),
+      v.literal("fail"),
+      v.literal("startNewIfFinished"),
+    ),
+  ),
+  priority: v.optional(v.number()),
+  taskQueue: v.optional(v.string()),
+  tags: v.optional(v.array(v.string())),
+  searchAttributes: v.optional(
+    v.record(v.string(), v.union(v.string(), v.number(), v.boolean())),
+  ),
+};
+
 export function exposeApi(component: ComponentApi) {
   return {
     startWorkflow: mutationGeneric({
-      args: {
-        name: v.string(),
-        input: v.any(),
-      },
+      args: startWorkflowArgs,
       handler: async (ctx, args) => {
         return await ctx.runMutation(component.lib.startWorkflow, args);
       },
@@ -831,8 +2448,75 @@ export function exposeApi(component: ComponentApi) {
       },
     }),
 
+    queryWorkflow: mutationGeneric({
+      args: {
+        workflowId: v.string(),
+        queryName: v.string(),
+        args: v.optional(v.any()),
+        timeoutMs: v.optional(v.number()),
+      },
+      handler: async (ctx, args) => {
+        return await ctx.runMutation(component.lib.queryWorkflow, {
+          workflowId: args.workflowId as any,
+          queryName: args.queryName,
+          args: args.args,
+          timeoutMs: args.timeoutMs,
+        });
+      },
+    }),
+
+    getQueryResult: queryGeneric({
+      args: {
+        queryId: v.string(),
+      },
+      handler: async (ctx, args) => {
+        return await ctx.runQuery(component.lib.getQueryResult, {
+          queryId: args.queryId as any,
+        });
+      },
+    }),
+
+    updateWorkflow: mutationGeneric({
+      args: {
+        workflowId: v.string(),
+        updateName: v.string(),
+        args: v.optional(v.any()),
+      },
+      handler: async (ctx, args) => {
+        return await ctx.runMutation(component.lib.updateWorkflow, {
+          workflowId: args.workflowId as any,
+          updateName: args.updateName,
+          args: args.args,
+        });
+      },
+    }),
+
+    getUpdateResult: queryGeneric({
+      args: {
+        updateId: v.string(),
+      },
+      handler: async (ctx, args) => {
+        return await ctx.runQuery(component.lib.getUpdateResult, {
+          updateId: args.updateId as any,
+        });
+      },
+    }),
+
+    retryWorkflow: mutationGeneric({
+      args: {
+        workflowId: v.string(),
+      },
+      handler: async (ctx, args) => {
+        return await ctx.runMutation(component.lib.retryWorkflow, {
+          workflowId: args.workflowId as any,
+        });
+      },
+    }),
+
     listWorkflows: queryGeneric({
       args: {
+        paginationOpts: paginationOptsValidator,
+        name: v.optional(v.string()),
         status: v.optional(
           v.union(
             v.literal("pending"),
@@ -841,23 +2525,87 @@ export function exposeApi(component: ComponentApi) {
             v.literal("waiting"),
             v.literal("completed"),
             v.literal("failed"),
+            v.literal("cancelled"),
           ),
         ),
-        limit: v.optional(v.number()),
+        createdAfter: v.optional(v.number()),
+        createdBefore: v.optional(v.number()),
+        order: v.optional(v.union(v.literal("asc"), v.literal("desc"))),
       },
       handler: async (ctx, args) => {
         return await ctx.runQuery(component.lib.listWorkflows, args);
       },
     }),
 
-    getWorkflowSteps: queryGeneric({
+    getWorkflowSteps: queryGeneric({
+      args: {
+        workflowId: v.string(),
+      },
+      handler: async (ctx, args) => {
+        return await ctx.runQuery(component.lib.getWorkflowSteps, {
+          workflowId: args.workflowId as any,
+        });
+      },
+    }),
+
+    searchWorkflows: queryGeneric({
+      args: {
+        tag: v.optional(v.string()),
+        searchAttribute: v.optional(
+          v.object({
+            key: v.string(),
+            value: v.union(v.string(), v.number(), v.boolean()),
+          }),
+        ),
+        paginationOpts: paginationOptsValidator,
+      },
+      handler: async (ctx, args) => {
+        return await ctx.runQuery(component.lib.searchWorkflows, args);
+      },
+    }),
+
+    getWorkflowHistory: queryGeneric({
+      args: {
+        workflowId: v.string(),
+        paginationOpts: paginationOptsValidator,
+      },
+      handler: async (ctx, args) => {
+        return await ctx.runQuery(component.lib.getWorkflowHistory, {
+          workflowId: args.workflowId as any,
+          paginationOpts: args.paginationOpts,
+        });
+      },
+    }),
+
+    listSchedules: queryGeneric({
+      args: {
+        limit: v.optional(v.number()),
+      },
+      handler: async (ctx, args) => {
+        return await ctx.runQuery(component.lib.listSchedules, args);
+      },
+    }),
+
+    listConcurrencyLimits: queryGeneric({
+      args: {},
+      handler: async (ctx) => {
+        return await ctx.runQuery(component.lib.listConcurrencyLimits, {});
+      },
+    }),
+
+    listRetentionPolicies: queryGeneric({
+      args: {},
+      handler: async (ctx) => {
+        return await ctx.runQuery(component.lib.listRetentionPolicies, {});
+      },
+    }),
+
+    listWorkers: queryGeneric({
       args: {
-        workflowId: v.string(),
+        includeStopped: v.optional(v.boolean()),
       },
       handler: async (ctx, args) => {
-        return await ctx.runQuery(component.lib.getWorkflowSteps, {
-          workflowId: args.workflowId as any,
-        });
+        return await ctx.runQuery(component.lib.listWorkers, args);
       },
     }),
   };
@@ -878,10 +2626,46 @@ export function exposeApiWithWorker(
   return {
     ...publicApi,
 
+    // Workers may pass an input they uploaded to file storage.
+    startWorkflow: mutationGeneric({
+      args: { ...startWorkflowArgs, inputStorageId: v.optional(v.string()) },
+      handler: async (ctx, args) => {
+        if (args.inputStorageId !== undefined) {
+          await ensureAuthorized(ctx, args);
+        }
+        return await ctx.runMutation(component.lib.startWorkflow, {
+          ...args,
+          inputStorageId: args.inputStorageId as any,
+        });
+      },
+    }),
+
+    generateUploadUrl: mutationGeneric({
+      args: {},
+      handler: async (ctx, args) => {
+        await ensureAuthorized(ctx, args);
+        return await ctx.runMutation(component.lib.generateUploadUrl, {});
+      },
+    }),
+
+    deleteUpload: mutationGeneric({
+      args: { storageId: v.string() },
+      handler: async (ctx, args) => {
+        await ensureAuthorized(ctx, args);
+        return await ctx.runMutation(component.lib.deleteUpload, {
+          storageId: args.storageId as any,
+        });
+      },
+    }),
+
     claimWorkflow: mutationGeneric({
       args: {
         workflowNames: v.array(v.string()),
         workerId: v.string(),
+        workflowVersions: v.optional(v.record(v.string(), v.string())),
+        taskQueues: v.optional(v.array(v.string())),
+        leaseDurationMs: v.optional(v.number()),
+        workflowLeaseDurationsMs: v.optional(v.record(v.string(), v.number())),
       },
       handler: async (ctx, args) => {
         await ensureAuthorized(ctx, args);
@@ -889,16 +2673,34 @@ export function exposeApiWithWorker(
       },
     }),
 
+    claimWorkflows: mutationGeneric({
+      args: {
+        workflowNames: v.array(v.string()),
+        workerId: v.string(),
+        workflowVersions: v.optional(v.record(v.string(), v.string())),
+        taskQueues: v.optional(v.array(v.string())),
+        leaseDurationMs: v.optional(v.number()),
+        workflowLeaseDurationsMs: v.optional(v.record(v.string(), v.number())),
+        max: v.number(),
+      },
+      handler: async (ctx, args) => {
+        await ensureAuthorized(ctx, args);
+        return await ctx.runMutation(component.lib.claimWorkflows, args);
+      },
+    }),
+
     heartbeat: mutationGeneric({
       args: {
         workflowId: v.string(),
         workerId: v.string(),
+        leaseDurationMs: v.optional(v.number()),
       },
       handler: async (ctx, args) => {
         await ensureAuthorized(ctx, args);
         return await ctx.runMutation(component.lib.heartbeat, {
           workflowId: args.workflowId as any,
           workerId: args.workerId,
+          leaseDurationMs: args.leaseDurationMs,
         });
       },
     }),
@@ -908,6 +2710,7 @@ export function exposeApiWithWorker(
         workflowId: v.string(),
         workerId: v.string(),
         output: v.any(),
+        outputStorageId: v.optional(v.string()),
       },
       handler: async (ctx, args) => {
         await ensureAuthorized(ctx, args);
@@ -915,6 +2718,7 @@ export function exposeApiWithWorker(
           workflowId: args.workflowId as any,
           workerId: args.workerId,
           output: args.output,
+          outputStorageId: args.outputStorageId as any,
         });
       },
     }),
@@ -985,12 +2789,33 @@ export function exposeApiWithWorker(
       },
     }),
 
+    scheduleStepRetry: mutationGeneric({
+      args: {
+        workflowId: v.string(),
+        stepId: v.string(),
+        workerId: v.string(),
+        error: v.string(),
+        retryAt: v.number(),
+      },
+      handler: async (ctx, args) => {
+        await ensureAuthorized(ctx, args);
+        return await ctx.runMutation(component.lib.scheduleStepRetry, {
+          workflowId: args.workflowId as any,
+          stepId: args.stepId as any,
+          workerId: args.workerId,
+          error: args.error,
+          retryAt: args.retryAt,
+        });
+      },
+    }),
+
     waitForSignal: mutationGeneric({
       args: {
         workflowId: v.string(),
         stepId: v.string(),
         workerId: v.string(),
         signalName: v.string(),
+        timeoutMs: v.optional(v.number()),
       },
       handler: async (ctx, args) => {
         await ensureAuthorized(ctx, args);
@@ -999,6 +2824,92 @@ export function exposeApiWithWorker(
           stepId: args.stepId as any,
           workerId: args.workerId,
           signalName: args.signalName,
+          timeoutMs: args.timeoutMs,
+        });
+      },
+    }),
+
+    startChildWorkflow: mutationGeneric({
+      args: {
+        workflowId: v.string(),
+        stepId: v.string(),
+        workerId: v.string(),
+        name: v.string(),
+        input: v.any(),
+        inputStorageId: v.optional(v.string()),
+        parentClosePolicy: v.optional(
+          v.union(v.literal("cancel"), v.literal("abandon")),
+        ),
+        priority: v.optional(v.number()),
+        taskQueue: v.optional(v.string()),
+      },
+      handler: async (ctx, args) => {
+        await ensureAuthorized(ctx, args);
+        return await ctx.runMutation(component.lib.startChildWorkflow, {
+          workflowId: args.workflowId as any,
+          stepId: args.stepId as any,
+          workerId: args.workerId,
+          name: args.name,
+          input: args.input,
+          inputStorageId: args.inputStorageId as any,
+          parentClosePolicy: args.parentClosePolicy,
+          priority: args.priority,
+          taskQueue: args.taskQueue,
+        });
+      },
+    }),
+
+    awaitChildWorkflow: mutationGeneric({
+      args: {
+        workflowId: v.string(),
+        stepId: v.string(),
+        workerId: v.string(),
+        childWorkflowId: v.string(),
+      },
+      handler: async (ctx, args) => {
+        await ensureAuthorized(ctx, args);
+        return await ctx.runMutation(component.lib.awaitChildWorkflow, {
+          workflowId: args.workflowId as any,
+          stepId: args.stepId as any,
+          workerId: args.workerId,
+          childWorkflowId: args.childWorkflowId as any,
+        });
+      },
+    }),
+
+    upsertSearchAttributes: mutationGeneric({
+      args: {
+        workflowId: v.string(),
+        workerId: v.string(),
+        searchAttributes: v.record(
+          v.string(),
+          v.union(v.string(), v.number(), v.boolean(), v.null()),
+        ),
+      },
+      handler: async (ctx, args) => {
+        await ensureAuthorized(ctx, args);
+        return await ctx.runMutation(component.lib.upsertSearchAttributes, {
+          workflowId: args.workflowId as any,
+          workerId: args.workerId,
+          searchAttributes: args.searchAttributes,
+        });
+      },
+    }),
+
+    recordPatch: mutationGeneric({
+      args: {
+        workflowId: v.string(),
+        workerId: v.string(),
+        stepName: v.string(),
+        visitedStepNames: v.array(v.string()),
+      },
+      handler: async (ctx, args) => {
+        await ensureAuthorized(ctx, args);
+        return await ctx.runMutation(component.lib.recordPatch, {
+          workflowId: args.workflowId as any,
+          workerId: args.workerId,
+          stepName: args.stepName,
+          visitedStepNames: args.visitedStepNames,
         });
       },
     }),
@@ -1008,6 +2919,7 @@ export function exposeApiWithWorker(
         stepId: v.string(),
         workerId: v.string(),
         output: v.any(),
+        outputStorageId: v.optional(v.string()),
       },
       handler: async (ctx, args) => {
         await ensureAuthorized(ctx, args);
@@ -1015,6 +2927,47 @@ export function exposeApiWithWorker(
           stepId: args.stepId as any,
           workerId: args.workerId,
           output: args.output,
+          outputStorageId: args.outputStorageId as any,
+        });
+      },
+    }),
+
+    stepHeartbeat: mutationGeneric({
+      args: {
+        stepId: v.string(),
+        workerId: v.string(),
+        details: v.optional(v.any()),
+      },
+      handler: async (ctx, args) => {
+        await ensureAuthorized(ctx, args);
+        return await ctx.runMutation(component.lib.stepHeartbeat, {
+          stepId: args.stepId as any,
+          workerId: args.workerId,
+          details: args.details,
+        });
+      },
+    }),
+
+    completeUpdate: mutationGeneric({
+      args: {
+        updateId: v.string(),
+        workerId: v.string(),
+        status: v.union(
+          v.literal("completed"),
+          v.literal("failed"),
+          v.literal("rejected"),
+        ),
+        result: v.optional(v.any()),
+        error: v.optional(v.string()),
+      },
+      handler: async (ctx, args) => {
+        await ensureAuthorized(ctx, args);
+        return await ctx.runMutation(component.lib.completeUpdate, {
+          updateId: args.updateId as any,
+          workerId: args.workerId,
+          status: args.status,
+          result: args.result,
+          error: args.error,
         });
       },
     }),
@@ -1038,6 +2991,8 @@ export function exposeApiWithWorker(
     subscribePendingWorkflows: queryGeneric({
       args: {
         workflowNames: v.array(v.string()),
+        workflowVersions: v.optional(v.record(v.string(), v.string())),
+        taskQueues: v.optional(v.array(v.string())),
       },
       handler: async (ctx, args) => {
         await ensureAuthorized(ctx, args);
@@ -1047,5 +3002,198 @@ export function exposeApiWithWorker(
         );
       },
     }),
+
+    subscribePendingQueries: queryGeneric({
+      args: {
+        workerId: v.string(),
+        workflowNames: v.array(v.string()),
+      },
+      handler: async (ctx, args) => {
+        await ensureAuthorized(ctx, args);
+        return await ctx.runQuery(component.lib.subscribePendingQueries, args);
+      },
+    }),
+
+    answerQuery: mutationGeneric({
+      args: {
+        queryId: v.string(),
+        workerId: v.string(),
+        result: v.optional(v.any()),
+        error: v.optional(v.string()),
+      },
+      handler: async (ctx, args) => {
+        await ensureAuthorized(ctx, args);
+        return await ctx.runMutation(component.lib.answerQuery, {
+          queryId: args.queryId as any,
+          workerId: args.workerId,
+          result: args.result,
+          error: args.error,
+        });
+      },
+    }),
+
+    registerWorker: mutationGeneric({
+      args: {
+        workerId: v.string(),
+        hostname: v.optional(v.string()),
+        pid: v.optional(v.number()),
+        workflowNames: v.array(v.string()),
+        workflowVersions: v.optional(v.record(v.string(), v.string())),
+        taskQueues: v.optional(v.array(v.string())),
+        version: v.optional(v.string()),
+        capacity: v.number(),
+      },
+      handler: async (ctx, args) => {
+        await ensureAuthorized(ctx, args);
+        return await ctx.runMutation(component.lib.registerWorker, args);
+      },
+    }),
+
+    workerHeartbeat: mutationGeneric({
+      args: {
+        workerId: v.string(),
+        running: v.number(),
+      },
+      handler: async (ctx, args) => {
+        await ensureAuthorized(ctx, args);
+        return await ctx.runMutation(component.lib.workerHeartbeat, args);
+      },
+    }),
+
+    unregisterWorker: mutationGeneric({
+      args: {
+        workerId: v.string(),
+      },
+      handler: async (ctx, args) => {
+        await ensureAuthorized(ctx, args);
+        return await ctx.runMutation(component.lib.unregisterWorker, args);
+      },
+    }),
+
+    // Admin calls change or delete runs that aren't the caller's, so they
+    // need authorize too.
+    setRetentionPolicy: mutationGeneric({
+      args: {
+        workflowName: v.optional(v.string()),
+        retentionMs: v.union(v.number(), v.null()),
+      },
+      handler: async (ctx, args) => {
+        await ensureAuthorized(ctx, args);
+        return await ctx.runMutation(component.lib.setRetentionPolicy, args);
+      },
+    }),
+
+    drainWorker: mutationGeneric({
+      args: {
+        workerId: v.string(),
+      },
+      handler: async (ctx, args) => {
+        await ensureAuthorized(ctx, args);
+        return await ctx.runMutation(component.lib.drainWorker, args);
+      },
+    }),
+
+    resetWorkflow: mutationGeneric({
+      args: {
+        workflowId: v.string(),
+        toStepName: v.string(),
+      },
+      handler: async (ctx, args) => {
+        await ensureAuthorized(ctx, args);
+        return await ctx.runMutation(component.lib.resetWorkflow, {
+          workflowId: args.workflowId as any,
+          toStepName: args.toStepName,
+        });
+      },
+    }),
+
+    cancelWorkflow: mutationGeneric({
+      args: {
+        workflowId: v.string(),
+        reason: v.optional(v.string()),
+      },
+      handler: async (ctx, args) => {
+        await ensureAuthorized(ctx, args);
+        return await ctx.runMutation(component.lib.cancelWorkflow, {
+          workflowId: args.workflowId as any,
+          reason: args.reason,
+        });
+      },
+    }),
+
+    setConcurrencyLimit: mutationGeneric({
+      args: {
+        workflowName: v.string(),
+        limit: v.union(v.number(), v.null()),
+      },
+      handler: async (ctx, args) => {
+        await ensureAuthorized(ctx, args);
+        return await ctx.runMutation(component.lib.setConcurrencyLimit, args);
+      },
+    }),
+
+    createSchedule: mutationGeneric({
+      args: {
+        workflowName: v.string(),
+        input: v.any(),
+        cron: v.optional(v.string()),
+        intervalMs: v.optional(v.number()),
+        startAt: v.optional(v.number()),
+        catchUpPolicy: v.optional(
+          v.union(
+            v.literal("skip"),
+            v.literal("bufferOne"),
+            v.literal("allowAll"),
+          ),
+        ),
+        overlapPolicy: v.optional(
+          v.union(
+            v.literal("skip"),
+            v.literal("bufferOne"),
+            v.literal("allowAll"),
+          ),
+        ),
+      },
+      handler: async (ctx, args) => {
+        await ensureAuthorized(ctx, args);
+        return await ctx.runMutation(component.lib.createSchedule, args);
+      },
+    }),
+
+    pauseSchedule: mutationGeneric({
+      args: {
+        scheduleId: v.string(),
+      },
+      handler: async (ctx, args) => {
+        await ensureAuthorized(ctx, args);
+        return await ctx.runMutation(component.lib.pauseSchedule, {
+          scheduleId: args.scheduleId as any,
+        });
+      },
+    }),
+
+    resumeSchedule: mutationGeneric({
+      args: {
+        scheduleId: v.string(),
+      },
+      handler: async (ctx, args) => {
+        await ensureAuthorized(ctx, args);
+        return await ctx.runMutation(component.lib.resumeSchedule, {
+          scheduleId: args.scheduleId as any,
+        });
+      },
+    }),
+
+    deleteSchedule: mutationGeneric({
+      args: {
+        scheduleId: v.string(),
+      },
+      handler: async (ctx, args) => {
+        await ensureAuthorized(ctx, args);
+        return await ctx.runMutation(component.lib.deleteSchedule, {
+          scheduleId: args.scheduleId as any,
+        });
+      },
+    }),
   };
 }
@@ -8,6 +8,7 @@
  * @module
  */
 
+import type * as cron from "../cron.js";
 import type * as lib from "../lib.js";
 
 import type {
@@ -18,6 +19,7 @@ import type {
 import { anyApi, componentsGeneric } from "convex/server";
 
 const fullApi: ApiFromModules<{
+  cron: typeof cron;
   lib: typeof lib;
 }> = anyApi as any;
 
@@ -24,24 +24,143 @@ import type { FunctionReference } from "convex/server";
 export type ComponentApi<Name extends string | undefined = string | undefined> =
   {
     lib: {
+      answerQuery: FunctionReference<
+        "mutation",
+        "internal",
+        { error?: string; queryId: string; result?: any; workerId: string },
+        boolean,
+        Name
+      >;
+      awaitChildWorkflow: FunctionReference<
+        "mutation",
+        "internal",
+        {
+          childWorkflowId: string;
+          stepId: string;
+          workerId: string;
+          workflowId: string;
+        },
+        | { kind: "waiting" }
+        | { kind: "completed"; output: any; outputUrl?: string }
+        | { kind: "failed"; error: string },
+        Name
+      >;
+      cancelWorkflow: FunctionReference<
+        "mutation",
+        "internal",
+        { reason?: string; workflowId: string },
+        boolean,
+        Name
+      >;
       claimWorkflow: FunctionReference<
         "mutation",
         "internal",
-        { workerId: string; workflowNames: Array<string> },
-        null | { input: any; name: string; workflowId: string },
+        {
+          leaseDurationMs?: number;
+          taskQueues?: Array<string>;
+          workerId: string;
+          workflowLeaseDurationsMs?: Record<string, number>;
+          workflowNames: Array<string>;
+          workflowVersions?: Record<string, string>;
+        },
+        null | {
+          input: any;
+          inputUrl?: string;
+          name: string;
+          workflowId: string;
+        },
+        Name
+      >;
+      claimWorkflows: FunctionReference<
+        "mutation",
+        "internal",
+        {
+          leaseDurationMs?: number;
+          max: number;
+          taskQueues?: Array<string>;
+          workerId: string;
+          workflowLeaseDurationsMs?: Record<string, number>;
+          workflowNames: Array<string>;
+          workflowVersions?: Record<string, string>;
+        },
+        Array<{
+          input: any;
+          inputUrl?: string;
+          name: string;
+          workflowId: string;
+        }>,
         Name
       >;
       completeStep: FunctionReference<
         "mutation",
         "internal",
-        { output: any; stepId: string; workerId: string },
+        {
+          output: any;
+          outputStorageId?: string;
+          stepId: string;
+          workerId: string;
+        },
+        boolean,
+        Name
+      >;
+      completeUpdate: FunctionReference<
+        "mutation",
+        "internal",
+        {
+          error?: string;
+          result?: any;
+          status: "completed" | "failed" | "rejected";
+          updateId: string;
+          workerId: string;
+        },
         boolean,
         Name
       >;
       completeWorkflow: FunctionReference<
         "mutation",
         "internal",
-        { output: any; workerId: string; workflowId: string },
+        {
+          output: any;
+          outputStorageId?: string;
+          workerId: string;
+          workflowId: string;
+        },
+        boolean,
+        Name
+      >;
+      createSchedule: FunctionReference<
+        "mutation",
+        "internal",
+        {
+          catchUpPolicy?: "skip" | "bufferOne" | "allowAll";
+          cron?: string;
+          input: any;
+          intervalMs?: number;
+          overlapPolicy?: "skip" | "bufferOne" | "allowAll";
+          startAt?: number;
+          workflowName: string;
+        },
+        string,
+        Name
+      >;
+      deleteSchedule: FunctionReference<
+        "mutation",
+        "internal",
+        { scheduleId: string },
+        boolean,
+        Name
+      >;
+      deleteUpload: FunctionReference<
+        "mutation",
+        "internal",
+        { storageId: string },
+        null,
+        Name
+      >;
+      drainWorker: FunctionReference<
+        "mutation",
+        "internal",
+        { workerId: string },
         boolean,
         Name
       >;
@@ -59,17 +178,61 @@ export type ComponentApi<Name extends string | undefined = string | undefined> =
         boolean,
         Name
       >;
+      generateUploadUrl: FunctionReference<
+        "mutation",
+        "internal",
+        {},
+        string,
+        Name
+      >;
       getOrCreateStep: FunctionReference<
         "mutation",
         "internal",
         { stepName: string; workerId: string; workflowId: string },
         {
+          attempts: number;
           error?: string;
+          heartbeatDetails?: any;
           isNew: boolean;
           output?: any;
+          outputUrl?: string;
+          retryAt?: number;
           sleepUntil?: number;
           status: "pending" | "running" | "completed" | "failed";
           stepId: string;
+          updates?: Array<{
+            args?: any;
+            status:
+              | "pending"
+              | "delivered"
+              | "completed"
+              | "failed"
+              | "rejected";
+            updateId: string;
+            updateName: string;
+          }>;
+        },
+        Name
+      >;
+      getQueryResult: FunctionReference<
+        "query",
+        "internal",
+        { queryId: string },
+        null | {
+          error?: string;
+          result?: any;
+          status: "pending" | "answered" | "failed";
+        },
+        Name
+      >;
+      getUpdateResult: FunctionReference<
+        "query",
+        "internal",
+        { updateId: string },
+        null | {
+          error?: string;
+          result?: any;
+          status: "pending" | "delivered" | "completed" | "failed" | "rejected";
         },
         Name
       >;
@@ -83,8 +246,14 @@ export type ComponentApi<Name extends string | undefined = string | undefined> =
           claimedBy?: string | null;
           error?: string;
           input: any;
+          inputUrl?: string;
           name: string;
           output?: any;
+          outputUrl?: string;
+          parentWorkflowId?: string;
+          priority?: number;
+          scheduleId?: string;
+          searchAttributes?: Record<string, string | number | boolean>;
           sleepUntil?: number;
           status:
             | "pending"
@@ -92,9 +261,68 @@ export type ComponentApi<Name extends string | undefined = string | undefined> =
             | "sleeping"
             | "waiting"
             | "completed"
-            | "failed";
+            | "failed"
+            | "cancelled";
+          tags?: Array<string>;
+          taskQueue?: string;
+          version?: string;
+          waitingForChildId?: string;
           waitingForSignalName?: string;
           waitingForSignalStepId?: string;
+          workflowKey?: string;
+        },
+        Name
+      >;
+      getWorkflowHistory: FunctionReference<
+        "query",
+        "internal",
+        {
+          paginationOpts: {
+            cursor: string | null;
+            endCursor?: string | null;
+            id?: number;
+            maximumBytesRead?: number;
+            maximumRowsRead?: number;
+            numItems: number;
+          };
+          workflowId: string;
+        },
+        {
+          continueCursor: string;
+          isDone: boolean;
+          page: Array<{
+            _creationTime: number;
+            _id: string;
+            at: number;
+            attempt?: number;
+            childWorkflowId?: string;
+            error?: string;
+            signalName?: string;
+            stepName?: string;
+            type:
+              | "started"
+              | "claimed"
+              | "woke"
+              | "leaseExpired"
+              | "reclaimed"
+              | "stepStarted"
+              | "stepCompleted"
+              | "stepFailed"
+              | "slept"
+              | "waiting"
+              | "signalReceived"
+              | "signalConsumed"
+              | "completed"
+              | "failed"
+              | "cancelled"
+              | "retried"
+              | "reset";
+            until?: number;
+            workerId?: string;
+            workflowId: string;
+          }>;
+          pageStatus?: "SplitRecommended" | "SplitRequired" | null;
+          splitCursor?: string | null;
         },
         Name
       >;
@@ -108,48 +336,205 @@ export type ComponentApi<Name extends string | undefined = string | undefined> =
           attempts: number;
           completedAt?: number;
           error?: string;
+          heartbeatDetails?: any;
+          lastHeartbeatAt?: number;
           name: string;
           output?: any;
+          outputUrl?: string;
+          retryAt?: number;
           startedAt?: number;
           status: "pending" | "running" | "completed" | "failed";
+          updates?: Array<{
+            args?: any;
+            status:
+              | "pending"
+              | "delivered"
+              | "completed"
+              | "failed"
+              | "rejected";
+            updateId: string;
+            updateName: string;
+          }>;
         }>,
         Name
       >;
       heartbeat: FunctionReference<
         "mutation",
         "internal",
-        { workerId: string; workflowId: string },
-        boolean,
+        { leaseDurationMs?: number; workerId: string; workflowId: string },
+        boolean | "cancelled",
         Name
       >;
-      listWorkflows: FunctionReference<
+      listConcurrencyLimits: FunctionReference<
         "query",
         "internal",
-        {
-          limit?: number;
-          status?:
-            | "pending"
-            | "running"
-            | "sleeping"
-            | "waiting"
-            | "completed"
-            | "failed";
-        },
+        {},
+        Array<{ limit: number; running: number; workflowName: string }>,
+        Name
+      >;
+      listRetentionPolicies: FunctionReference<
+        "query",
+        "internal",
+        {},
+        Array<{ retentionMs: number; workflowName?: string }>,
+        Name
+      >;
+      listSchedules: FunctionReference<
+        "query",
+        "internal",
+        { limit?: number },
         Array<{
           _creationTime: number;
           _id: string;
-          error?: string;
+          bufferedRunAt?: number;
+          catchUpPolicy: "skip" | "bufferOne" | "allowAll";
+          cron?: string;
           input: any;
-          name: string;
-          output?: any;
-          status:
+          intervalMs?: number;
+          lastRunAt?: number;
+          lastWorkflowId?: string;
+          nextRunAt: number;
+          overlapPolicy: "skip" | "bufferOne" | "allowAll";
+          paused: boolean;
+          workflowName: string;
+        }>,
+        Name
+      >;
+      listWorkers: FunctionReference<
+        "query",
+        "internal",
+        { includeStopped?: boolean },
+        Array<{
+          alive: boolean;
+          capacity: number;
+          hostname?: string;
+          lastHeartbeatAt: number;
+          pid?: number;
+          registeredAt: number;
+          running: number;
+          status: "active" | "draining" | "stopped";
+          taskQueues?: Array<string>;
+          version?: string;
+          workerId: string;
+          workflowNames: Array<string>;
+        }>,
+        Name
+      >;
+      listWorkflows: FunctionReference<
+        "query",
+        "internal",
+        {
+          createdAfter?: number;
+          createdBefore?: number;
+          name?: string;
+          order?: "asc" | "desc";
+          paginationOpts: {
+            cursor: string | null;
+            endCursor?: string | null;
+            id?: number;
+            maximumBytesRead?: number;
+            maximumRowsRead?: number;
+            numItems: number;
+          };
+          status?:
             | "pending"
             | "running"
             | "sleeping"
             | "waiting"
             | "completed"
-            | "failed";
-        }>,
+            | "failed"
+            | "cancelled";
+        },
+        {
+          continueCursor: string;
+          isDone: boolean;
+          page: Array<{
+            _creationTime: number;
+            _id: string;
+            error?: string;
+            input: any;
+            name: string;
+            output?: any;
+            status:
+              | "pending"
+              | "running"
+              | "sleeping"
+              | "waiting"
+              | "completed"
+              | "failed"
+              | "cancelled";
+          }>;
+          pageStatus?: "SplitRecommended" | "SplitRequired" | null;
+          splitCursor?: string | null;
+        },
+        Name
+      >;
+      pauseSchedule: FunctionReference<
+        "mutation",
+        "internal",
+        { scheduleId: string },
+        boolean,
+        Name
+      >;
+      queryWorkflow: FunctionReference<
+        "mutation",
+        "internal",
+        {
+          args?: any;
+          queryName: string;
+          timeoutMs?: number;
+          workflowId: string;
+        },
+        string,
+        Name
+      >;
+      recordPatch: FunctionReference<
+        "mutation",
+        "internal",
+        {
+          stepName: string;
+          visitedStepNames: Array<string>;
+          workerId: string;
+          workflowId: string;
+        },
+        boolean,
+        Name
+      >;
+      registerWorker: FunctionReference<
+        "mutation",
+        "internal",
+        {
+          capacity: number;
+          hostname?: string;
+          pid?: number;
+          taskQueues?: Array<string>;
+          version?: string;
+          workerId: string;
+          workflowNames: Array<string>;
+          workflowVersions?: Record<string, string>;
+        },
+        "active" | "draining" | "stopped",
+        Name
+      >;
+      resetWorkflow: FunctionReference<
+        "mutation",
+        "internal",
+        { toStepName: string; workflowId: string },
+        boolean,
+        Name
+      >;
+      resumeSchedule: FunctionReference<
+        "mutation",
+        "internal",
+        { scheduleId: string },
+        boolean,
+        Name
+      >;
+      retryWorkflow: FunctionReference<
+        "mutation",
+        "internal",
+        { workflowId: string },
+        boolean,
         Name
       >;
       scheduleSleep: FunctionReference<
@@ -164,6 +549,71 @@ export type ComponentApi<Name extends string | undefined = string | undefined> =
         boolean,
         Name
       >;
+      scheduleStepRetry: FunctionReference<
+        "mutation",
+        "internal",
+        {
+          error: string;
+          retryAt: number;
+          stepId: string;
+          workerId: string;
+          workflowId: string;
+        },
+        boolean,
+        Name
+      >;
+      searchWorkflows: FunctionReference<
+        "query",
+        "internal",
+        {
+          paginationOpts: {
+            cursor: string | null;
+            endCursor?: string | null;
+            id?: number;
+            maximumBytesRead?: number;
+            maximumRowsRead?: number;
+            numItems: number;
+          };
+          searchAttribute?: { key: string; value: string | number | boolean };
+          tag?: string;
+        },
+        {
+          continueCursor: string;
+          isDone: boolean;
+          page: Array<{
+            _creationTime: number;
+            _id: string;
+            name: string;
+            searchAttributes?: Record<string, string | number | boolean>;
+            status:
+              | "pending"
+              | "running"
+              | "sleeping"
+              | "waiting"
+              | "completed"
+              | "failed"
+              | "cancelled";
+            tags?: Array<string>;
+          }>;
+          pageStatus?: "SplitRecommended" | "SplitRequired" | null;
+          splitCursor?: string | null;
+        },
+        Name
+      >;
+      setConcurrencyLimit: FunctionReference<
+        "mutation",
+        "internal",
+        { limit: number | null; workflowName: string },
+        null,
+        Name
+      >;
+      setRetentionPolicy: FunctionReference<
+        "mutation",
+        "internal",
+        { retentionMs: number | null; workflowName?: string },
+        null,
+        Name
+      >;
       signalWorkflow: FunctionReference<
         "mutation",
         "internal",
@@ -178,30 +628,116 @@ export type ComponentApi<Name extends string | undefined = string | undefined> =
         boolean,
         Name
       >;
+      startChildWorkflow: FunctionReference<
+        "mutation",
+        "internal",
+        {
+          input: any;
+          inputStorageId?: string;
+          name: string;
+          parentClosePolicy?: "cancel" | "abandon";
+          priority?: number;
+          stepId: string;
+          taskQueue?: string;
+          workerId: string;
+          workflowId: string;
+        },
+        null | string,
+        Name
+      >;
       startWorkflow: FunctionReference<
         "mutation",
         "internal",
-        { input: any; name: string },
+        {
+          input: any;
+          inputStorageId?: string;
+          name: string;
+          onConflict?: "returnExisting" | "fail" | "startNewIfFinished";
+          priority?: number;
+          searchAttributes?: Record<string, string | number | boolean>;
+          tags?: Array<string>;
+          taskQueue?: string;
+          workflowKey?: string;
+        },
         string,
         Name
       >;
+      stepHeartbeat: FunctionReference<
+        "mutation",
+        "internal",
+        { details?: any; stepId: string; workerId: string },
+        boolean,
+        Name
+      >;
+      subscribePendingQueries: FunctionReference<
+        "query",
+        "internal",
+        { workerId: string; workflowNames: Array<string> },
+        Array<{
+          _id: string;
+          args?: any;
+          queryName: string;
+          workflowId: string;
+          workflowName: string;
+        }>,
+        Name
+      >;
       subscribePendingWorkflows: FunctionReference<
         "query",
         "internal",
-        { workflowNames: Array<string> },
+        {
+          taskQueues?: Array<string>;
+          workflowNames: Array<string>;
+          workflowVersions?: Record<string, string>;
+        },
         number,
         Name
       >;
+      unregisterWorker: FunctionReference<
+        "mutation",
+        "internal",
+        { workerId: string },
+        null,
+        Name
+      >;
+      updateWorkflow: FunctionReference<
+        "mutation",
+        "internal",
+        { args?: any; updateName: string; workflowId: string },
+        string,
+        Name
+      >;
+      upsertSearchAttributes: FunctionReference<
+        "mutation",
+        "internal",
+        {
+          searchAttributes: Record<string, string | number | boolean | null>;
+          workerId: string;
+          workflowId: string;
+        },
+        boolean,
+        Name
+      >;
       waitForSignal: FunctionReference<
         "mutation",
         "internal",
         {
           signalName: string;
           stepId: string;
+          timeoutMs?: number;
           workerId: string;
           workflowId: string;
         },
-        { kind: "waiting" } | { kind: "signaled"; payload: any },
+        | { kind: "waiting" }
+        | { kind: "signaled"; payload: any }
+        | { kind: "timedOut" },
+        Name
+      >;
+      workerHeartbeat: FunctionReference<
+        "mutation",
+        "internal",
+        { running: number; workerId: string },
+        "active" | "draining" | "stopped" | null,
         Name
       >;
     };
@@ -0,0 +1,59 @@
+import { describe, expect, test } from "vitest";
+import { nextCronTime, parseCron } from "./cron.js";
+
+const at = (iso: string) => new Date(iso).getTime();
+const next = (expression: string, after: string) =>
+  new Date(nextCronTime(parseCron(expression), at(after))).toISOString();
+
+describe("cron", () => {
+  test("finds the next matching minute", () => {
+    expect(next("*/15 * * * *", "2026-01-01T10:07:30Z")).toEqual(
+      "2026-01-01T10:15:00.000Z",
+    );
+    // Strictly after: a matching time moves to the next one.
+    expect(next("0 9 * * *", "2026-01-01T09:00:00Z")).toEqual(
+      "2026-01-02T09:00:00.000Z",
+    );
+  });
+
+  test("supports ranges, lists and day-of-week", () => {
+    // 2026-01-02 is a Friday, so the next weekday 09:30 is Monday.
+    expect(next("30 9 * * 1-5", "2026-01-02T10:00:00Z")).toEqual(
+      "2026-01-05T09:30:00.000Z",
+    );
+    expect(next("0 0 1,15 * *", "2026-01-02T00:00:00Z")).toEqual(
+      "2026-01-15T00:00:00.000Z",
+    );
+    // Sunday can be written as 7.
+    expect(next("0 12 * * 7", "2026-01-02T00:00:00Z")).toEqual(
+      "2026-01-04T12:00:00.000Z",
+    );
+  });
+
+  test("matches either day field when both are restricted", () => {
+    // The 10th of the month or any Monday.
+    expect(next("0 0 10 * 1", "2026-01-02T00:00:00Z")).toEqual(
+      "2026-01-05T00:00:00.000Z",
+    );
+    // A step over "*" counts as unrestricted: Mondays on odd days only.
+    expect(next("0 0 */2 * 1", "2026-01-05T00:00:00Z")).toEqual(
+      "2026-01-19T00:00:00.000Z",
+    );
+  });
+
+  test("rolls over months and years", () => {
+    expect(next("0 0 29 2 *", "2026-03-01T00:00:00Z")).toEqual(
+      "2028-02-29T00:00:00.000Z",
+    );
+  });
+
+  test("rejects invalid expressions", () => {
+    expect(() => parseCron("* * * *")).toThrow(/5 fields/);
+    expect(() => parseCron("60 * * * *")).toThrow(/bad field/);
+    expect(() => parseCron("*/0 * * * *")).toThrow(/bad field/);
+    expect(() => parseCron("0 0 31 2 *")).not.toThrow();
+    expect(() => nextCronTime(parseCron("0 0 31 2 *"), 0)).toThrow(
+      /never matches/,
+    );
+  });
+});
@@ -0,0 +1,143 @@
+/**
+ * Minimal 5-field cron expressions (minute hour day-of-month month
+ * day-of-week), evaluated in UTC.
+ *
+ * Each field supports `*`, numbers, ranges (`1-5`), lists (`1,15`) and steps
+ * (`*\/15`, `0-30/10`). Day-of-week is 0-6 with 0 = Sunday (7 is accepted as
+ * Sunday too). Like Vixie cron, when both day-of-month and day-of-week are
+ * restricted a day matches if either does; a field starting with `*` (such as
+ * `*\/2`) doesn't count as restricted, so then both must match.
+ */
+
+type CronField = { values: Set<number>; wildcard: boolean };
+
+export type CronSchedule = {
+  minute: CronField;
+  hour: CronField;
+  dayOfMonth: CronField;
+  month: CronField;
+  dayOfWeek: CronField;
+};
+
+const FIELD_RANGES: Array<[min: number, max: number]> = [
+  [0, 59],
+  [0, 23],
+  [1, 31],
+  [1, 12],
+  [0, 7],
+];
+
+const MINUTE_MS = 60_000;
+
+// A valid expression matches at least once within a few years (Feb 29 needs
+// up to 8 when combined with a day-of-week); anything longer never matches.
+const MAX_SEARCH_MS = 8 * 366 * 24 * 60 * MINUTE_MS;
+
+export function parseCron(expression: string): CronSchedule {
+  const parts = expression.trim().split(/\s+/);
+  if (parts.length !== 5) {
+    throw new Error(
+      `Invalid cron expression "${expression}": expected 5 fields (minute hour day-of-month month day-of-week)`,
+    );
+  }
+  const [minute, hour, dayOfMonth, month, dayOfWeek] = parts.map((part, i) =>
+    parseField(part, FIELD_RANGES[i], expression),
+  );
+  // Sunday can be written as 0 or 7.
+  if (dayOfWeek.values.delete(7)) dayOfWeek.values.add(0);
+  return { minute, hour, dayOfMonth, month, dayOfWeek };
+}
+
+function parseField(
+  field: string,
+  [min, max]: [number, number],
+  expression: string,
+): CronField {
+  const invalid = () =>
+    new Error(`Invalid cron expression "${expression}": bad field "${field}"`);
+  const values = new Set<number>();
+  for (const item of field.split(",")) {
+    const [range, stepText] = item.split("/");
+    const step = stepText === undefined ? 1 : Number(stepText);
+    if (!Number.isInteger(step) || step < 1) throw invalid();
+
+    let start: number;
+    let end: number;
+    if (range === "*") {
+      start = min;
+      end = max;
+    } else if (range.includes("-")) {
+      [start, end] = range.split("-").map(Number);
+    } else {
+      start = Number(range);
+      end = stepText === undefined ? start : max;
+    }
+    if (
+      !Number.isInteger(start) ||
+      !Number.isInteger(end) ||
+      start < min ||
+      end > max ||
+      start > end
+    ) {
+      throw invalid();
+    }
+    for (let value = start; value <= end; value += step) {
+      values.add(value);
+    }
+  }
+  return { values, wildcard: field.startsWith("*") };
+}
+
+/**
+ * The first time strictly after `after` (ms since epoch) that matches the
+ * schedule, at minute granularity.
+ */
+export function nextCronTime(schedule: CronSchedule, after: number): number {
+  let date = new Date(Math.floor(after / MINUTE_MS) * MINUTE_MS + MINUTE_MS);
+  const limit = after + MAX_SEARCH_MS;
+
+  while (date.getTime() <= limit) {
+    if (!schedule.month.values.has(date.getUTCMonth() + 1)) {
+      date = new Date(
+        Date.UTC(date.getUTCFullYear(), date.getUTCMonth() + 1, 1),
+      );
+      continue;
+    }
+    if (!matchesDay(schedule, date)) {
+      date = new Date(
+        Date.UTC(
+          date.getUTCFullYear(),
+          date.getUTCMonth(),
+          date.getUTCDate() + 1,
+        ),
+      );
+      continue;
+    }
+    if (!schedule.hour.values.has(date.getUTCHours())) {
+      date = new Date(
+        Date.UTC(
+          date.getUTCFullYear(),
+          date.getUTCMonth(),
+          date.getUTCDate(),
+          date.getUTCHours() + 1,
+        ),
+      );
+      continue;
+    }
+    if (!schedule.minute.values.has(date.getUTCMinutes())) {
+      date = new Date(date.getTime() + MINUTE_MS);
+      continue;
+    }
+    return date.getTime();
+  }
+  throw new Error("Cron expression never matches");
+}
+
+function matchesDay(schedule: CronSchedule, date: Date) {
+  const dayOfMonth = schedule.dayOfMonth.values.has(date.getUTCDate());
+  const dayOfWeek = schedule.dayOfWeek.values.has(date.getUTCDay());
+  if (schedule.dayOfMonth.wildcard || schedule.dayOfWeek.wildcard) {
+    return dayOfMonth && dayOfWeek;
+  }
+  return dayOfMonth || dayOfWeek;
+}
@@ -1,9 +1,17 @@
 /// <reference types="vite/client" />
 
 import { afterEach, beforeEach, describe, expect, test, vi } from "vitest";
-import { api } from "./_generated/api.js";
+import { api, internal } from "./_generated/api.js";
+import type { Id } from "./_generated/dataModel.js";
 import { initConvexTest } from "./setup.test.js";
 
+async function listAllWorkflows(t: ReturnType<typeof initConvexTest>) {
+  const { page } = await t.query(api.lib.listWorkflows, {
+    paginationOpts: { numItems: 100, cursor: null },
+  });
+  return page;
+}
+
 describe("orchestrator component", () => {
   beforeEach(async () => {
     vi.useFakeTimers();
@@ -233,6 +241,87 @@ describe("orchestrator component", () => {
     expect(step1Again.output).toEqual({ result: "success" });
   });
 
+  test("can schedule a step retry and resume the next attempt", async () => {
+    const t = initConvexTest();
+    const workflowId = await t.mutation(api.lib.startWorkflow, {
+      name: "test-workflow",
+      input: {},
+    });
+
+    await t.mutation(api.lib.claimWorkflow, {
+      workflowNames: ["test-workflow"],
+      workerId: "worker-1",
+    });
+
+    const step = await t.mutation(api.lib.getOrCreateStep, {
+      workflowId,
+      stepName: "flaky",
+      workerId: "worker-1",
+    });
+    expect(step.attempts).toBe(1);
+
+    const retryAt = Date.now() + 5_000;
+    const ok = await t.mutation(api.lib.scheduleStepRetry, {
+      workflowId,
+      stepId: step.stepId,
+      workerId: "worker-1",
+      error: "ECONNRESET",
+      retryAt,
+    });
+    expect(ok).toBe(true);
+
+    const parked = await t.query(api.lib.getWorkflow, { workflowId });
+    expect(parked?.status).toEqual("sleeping");
+    expect(parked?.sleepUntil).toEqual(retryAt);
+    expect(parked?.claimedBy).toBeNull();
+
+    const [pendingStep] = await t.query(api.lib.getWorkflowSteps, {
+      workflowId,
+    });
+    expect(pendingStep.status).toEqual("pending");
+    expect(pendingStep.retryAt).toEqual(retryAt);
+    expect(pendingStep.error).toEqual("ECONNRESET");
+
+    // Not claimable until the retry is due.
+    expect(
+      await t.mutation(api.lib.claimWorkflow, {
+        workflowNames: ["test-workflow"],
+        workerId: "worker-2",
+      }),
+    ).toBeNull();
+
+    vi.advanceTimersByTime(5_000);
+
+    const claimed = await t.mutation(api.lib.claimWorkflow, {
+      workflowNames: ["test-workflow"],
+      workerId: "worker-2",
+    });
+    expect(claimed?.workflowId).toEqual(workflowId);
+
+    const retried = await t.mutation(api.lib.getOrCreateStep, {
+      workflowId,
+      stepName: "flaky",
+      workerId: "worker-2",
+    });
+    expect(retried.stepId).toEqual(step.stepId);
+    expect(retried.isNew).toBe(false);
+    expect(retried.status).toEqual("running");
+    expect(retried.attempts).toBe(2);
+
+    await t.mutation(api.lib.completeStep, {
+      stepId: retried.stepId,
+      workerId: "worker-2",
+      output: "ok",
+    });
+
+    const [completedStep] = await t.query(api.lib.getWorkflowSteps, {
+      workflowId,
+    });
+    expect(completedStep.status).toEqual("completed");
+    expect(completedStep.attempts).toBe(2);
+    expect(completedStep.retryAt).toBeUndefined();
+  });
+
   test("rejects step operations from non-owner worker", async () => {
     const t = initConvexTest();
     const workflowId = await t.mutation(api.lib.startWorkflow, {
@@ -329,6 +418,221 @@ describe("orchestrator component", () => {
     expect(workflow?.error).toEqual("Something went wrong");
   });
 
+  test("can retry a failed workflow from its failed step", async () => {
+    const t = initConvexTest();
+    const workflowId = await t.mutation(api.lib.startWorkflow, {
+      name: "test-workflow",
+      input: {},
+    });
+
+    await t.mutation(api.lib.claimWorkflow, {
+      workflowNames: ["test-workflow"],
+      workerId: "worker-1",
+    });
+
+    const first = await t.mutation(api.lib.getOrCreateStep, {
+      workflowId,
+      stepName: "charge",
+      workerId: "worker-1",
+    });
+    await t.mutation(api.lib.completeStep, {
+      stepId: first.stepId,
+      workerId: "worker-1",
+      output: { charged: true },
+    });
+
+    const second = await t.mutation(api.lib.getOrCreateStep, {
+      workflowId,
+      stepName: "ship",
+      workerId: "worker-1",
+    });
+    await t.mutation(api.lib.failStep, {
+      stepId: second.stepId,
+      workerId: "worker-1",
+      error: "carrier down",
+    });
+    await t.mutation(api.lib.failWorkflow, {
+      workflowId,
+      workerId: "worker-1",
+      error: "carrier down",
+    });
+
+    const ok = await t.mutation(api.lib.retryWorkflow, { workflowId });
+    expect(ok).toBe(true);
+
+    const workflow = await t.query(api.lib.getWorkflow, { workflowId });
+    expect(workflow?.status).toEqual("pending");
+    expect(workflow?.error).toBeUndefined();
+
+    const steps = await t.query(api.lib.getWorkflowSteps, { workflowId });
+    expect(steps.map((s) => s.name)).toEqual(["charge"]);
+
+    await t.mutation(api.lib.claimWorkflow, {
+      workflowNames: ["test-workflow"],
+      workerId: "worker-2",
+    });
+
+    const chargeAgain = await t.mutation(api.lib.getOrCreateStep, {
+      workflowId,
+      stepName: "charge",
+      workerId: "worker-2",
+    });
+    expect(chargeAgain.status).toEqual("completed");
+    expect(chargeAgain.output).toEqual({ charged: true });
+
+    const shipAgain = await t.mutation(api.lib.getOrCreateStep, {
+      workflowId,
+      stepName: "ship",
+      workerId: "worker-2",
+    });
+    expect(shipAgain.isNew).toBe(true);
+    expect(shipAgain.status).toEqual("running");
+  });
+
+  test("only failed workflows can be retried", async () => {
+    const t = initConvexTest();
+    const workflowId = await t.mutation(api.lib.startWorkflow, {
+      name: "test-workflow",
+      input: {},
+    });
+
+    const ok = await t.mutation(api.lib.retryWorkflow, { workflowId });
+    expect(ok).toBe(false);
+  });
+
+  test("can reset a workflow to an earlier step", async () => {
+    const t = initConvexTest();
+    const workflowId = await t.mutation(api.lib.startWorkflow, {
+      name: "test-workflow",
+      input: {},
+    });
+
+    await t.mutation(api.lib.claimWorkflow, {
+      workflowNames: ["test-workflow"],
+      workerId: "worker-1",
+    });
+
+    for (const stepName of ["charge", "report", "notify"]) {
+      const step = await t.mutation(api.lib.getOrCreateStep, {
+        workflowId,
+        stepName,
+        workerId: "worker-1",
+      });
+      await t.mutation(api.lib.completeStep, {
+        stepId: step.stepId,
+        workerId: "worker-1",
+        output: stepName,
+      });
+      vi.advanceTimersByTime(1);
+    }
+    await t.mutation(api.lib.completeWorkflow, {
+      workflowId,
+      workerId: "worker-1",
+      output: "done",
+    });
+
+    const ok = await t.mutation(api.lib.resetWorkflow, {
+      workflowId,
+      toStepName: "report",
+    });
+    expect(ok).toBe(true);
+
+    const workflow = await t.query(api.lib.getWorkflow, { workflowId });
+    expect(workflow?.status).toEqual("pending");
+    expect(workflow?.output).toBeUndefined();
+
+    const steps = await t.query(api.lib.getWorkflowSteps, { workflowId });
+    expect(steps.map((s) => s.name)).toEqual(["charge"]);
+
+    await t.mutation(api.lib.claimWorkflow, {
+      workflowNames: ["test-workflow"],
+      workerId: "worker-2",
+    });
+    const charge = await t.mutation(api.lib.getOrCreateStep, {
+      workflowId,
+      stepName: "charge",
+      workerId: "worker-2",
+    });
+    expect(charge.status).toEqual("completed");
+    const report = await t.mutation(api.lib.getOrCreateStep, {
+      workflowId,
+      stepName: "report",
+      workerId: "worker-2",
+    });
+    expect(report.isNew).toBe(true);
+  });
+
+  test("resetting past a signal wait returns the signal to the inbox", async () => {
+    const t = initConvexTest();
+    const workflowId = await t.mutation(api.lib.startWorkflow, {
+      name: "test-workflow",
+      input: {},
+    });
+    await t.mutation(api.lib.signalWorkflow, {
+      workflowId,
+      signal: "approved",
+      payload: { approved: true },
+    });
+    await t.mutation(api.lib.claimWorkflow, {
+      workflowNames: ["test-workflow"],
+      workerId: "worker-1",
+    });
+
+    const marker = await t.mutation(api.lib.getOrCreateStep, {
+      workflowId,
+      stepName: "__signal:approved:wait",
+      workerId: "worker-1",
+    });
+    const first = await t.mutation(api.lib.waitForSignal, {
+      workflowId,
+      stepId: marker.stepId,
+      workerId: "worker-1",
+      signalName: "approved",
+    });
+    expect(first.kind).toEqual("signaled");
+    await t.mutation(api.lib.completeStep, {
+      stepId: marker.stepId,
+      workerId: "worker-1",
+      output: { approved: true },
+    });
+
+    await t.mutation(api.lib.resetWorkflow, {
+      workflowId,
+      toStepName: "__signal:approved:wait",
+    });
+
+    await t.mutation(api.lib.claimWorkflow, {
+      workflowNames: ["test-workflow"],
+      workerId: "worker-2",
+    });
+    const markerAgain = await t.mutation(api.lib.getOrCreateStep, {
+      workflowId,
+      stepName: "__signal:approved:wait",
+      workerId: "worker-2",
+    });
+    const second = await t.mutation(api.lib.waitForSignal, {
+      workflowId,
+      stepId: markerAgain.stepId,
+      workerId: "worker-2",
+      signalName: "approved",
+    });
+    expect(second).toEqual({ kind: "signaled", payload: { approved: true } });
+  });
+
+  test("resetting to an unknown step does nothing", async () => {
+    const t = initConvexTest();
+    const workflowId = await t.mutation(api.lib.startWorkflow, {
+      name: "test-workflow",
+      input: {},
+    });
+
+    const ok = await t.mutation(api.lib.resetWorkflow, {
+      workflowId,
+      toStepName: "missing",
+    });
+    expect(ok).toBe(false);
+  });
+
   test("can list workflows", async () => {
     const t = initConvexTest();
 
@@ -341,10 +645,61 @@ describe("orchestrator component", () => {
       input: {},
     });
 
-    const workflows = await t.query(api.lib.listWorkflows, {});
+    const workflows = await listAllWorkflows(t);
     expect(workflows).toHaveLength(2);
   });
 
+  test("listWorkflows paginates and filters by name, status and creation time", async () => {
+    vi.setSystemTime(1_000);
+    const t = initConvexTest();
+    const ids = [];
+    for (const name of ["order", "order", "email", "order"]) {
+      ids.push(await t.mutation(api.lib.startWorkflow, { name, input: {} }));
+      vi.advanceTimersByTime(1_000);
+    }
+    await t.mutation(api.lib.claimWorkflow, {
+      workflowNames: ["order"],
+      workerId: "worker-1",
+    });
+    await t.mutation(api.lib.failWorkflow, {
+      workflowId: ids[0],
+      workerId: "worker-1",
+      error: "boom",
+    });
+
+    const list = async (filters: {
+      name?: string;
+      status?: "pending" | "failed";
+      createdAfter?: number;
+      createdBefore?: number;
+      order?: "asc" | "desc";
+    }) =>
+      (
+        await t.query(api.lib.listWorkflows, {
+          ...filters,
+          paginationOpts: { numItems: 10, cursor: null },
+        })
+      ).page.map((w) => w._id);
+
+    expect(await list({})).toEqual([...ids].reverse());
+    expect(await list({ order: "asc" })).toEqual(ids);
+    expect(await list({ name: "order" })).toEqual([ids[3], ids[1], ids[0]]);
+    expect(await list({ status: "pending" })).toEqual([ids[3], ids[2], ids[1]]);
+    expect(await list({ name: "order", status: "failed" })).toEqual([ids[0]]);
+    expect(
+      await list({ name: "order", createdAfter: 2_000, createdBefore: 4_000 }),
+    ).toEqual([ids[1]]);
+
+    const first = await t.query(api.lib.listWorkflows, {
+      paginationOpts: { numItems: 3, cursor: null },
+    });
+    expect(first.isDone).toBe(false);
+    const second = await t.query(api.lib.listWorkflows, {
+      paginationOpts: { numItems: 3, cursor: first.continueCursor },
+    });
+    expect(second.page.map((w) => w._id)).toEqual([ids[0]]);
+  });
+
   test("only claims workflows for registered names", async () => {
     const t = initConvexTest();
 
@@ -653,7 +1008,7 @@ describe("orchestrator component", () => {
     });
 
     await t.mutation(api.lib.sleepWorkflow, {
-      workflowId: (await t.query(api.lib.listWorkflows, {}))[0]._id,
+      workflowId: (await listAllWorkflows(t))[0]._id,
       workerId: "worker-1",
       sleepUntil: Date.now() + 60_000,
     });
@@ -701,4 +1056,2130 @@ describe("orchestrator component", () => {
     expect(claimed).toBeDefined();
     expect(claimed?.workflowId).toEqual(workflowId);
   });
+
+  test("can cancel a pending workflow", async () => {
+    const t = initConvexTest();
+    const workflowId = await t.mutation(api.lib.startWorkflow, {
+      name: "test-workflow",
+      input: {},
+    });
+
+    const ok = await t.mutation(api.lib.cancelWorkflow, {
+      workflowId,
+      reason: "no longer needed",
+    });
+    expect(ok).toBe(true);
+
+    const workflow = await t.query(api.lib.getWorkflow, { workflowId });
+    expect(workflow?.status).toEqual("cancelled");
+    expect(workflow?.error).toEqual("no longer needed");
+
+    // Cancelled workflows are never claimed.
+    const claimed = await t.mutation(api.lib.claimWorkflow, {
+      workflowNames: ["test-workflow"],
+      workerId: "worker-1",
+    });
+    expect(claimed).toBeNull();
+  });
+
+  test("cancelling a waiting workflow ignores later signals", async () => {
+    const t = initConvexTest();
+    const workflowId = await t.mutation(api.lib.startWorkflow, {
+      name: "test-workflow",
+      input: {},
+    });
+    await t.mutation(api.lib.claimWorkflow, {
+      workflowNames: ["test-workflow"],
+      workerId: "worker-1",
+    });
+    const step = await t.mutation(api.lib.getOrCreateStep, {
+      workflowId,
+      stepName: "__signal:approved:wait",
+      workerId: "worker-1",
+    });
+    await t.mutation(api.lib.waitForSignal, {
+      workflowId,
+      stepId: step.stepId,
+      workerId: "worker-1",
+      signalName: "approved",
+    });
+
+    expect(await t.mutation(api.lib.cancelWorkflow, { workflowId })).toBe(true);
+
+    await t.mutation(api.lib.signalWorkflow, {
+      workflowId,
+      signal: "approved",
+      payload: { approved: true },
+    });
+
+    const workflow = await t.query(api.lib.getWorkflow, { workflowId });
+    expect(workflow?.status).toEqual("cancelled");
+    expect(workflow?.waitingForSignalName).toBeUndefined();
+  });
+
+  test("cancelling a running workflow is reported through heartbeat", async () => {
+    const t = initConvexTest();
+    const workflowId = await t.mutation(api.lib.startWorkflow, {
+      name: "test-workflow",
+      input: {},
+    });
+    await t.mutation(api.lib.claimWorkflow, {
+      workflowNames: ["test-workflow"],
+      workerId: "worker-1",
+    });
+    const step = await t.mutation(api.lib.getOrCreateStep, {
+      workflowId,
+      stepName: "step-1",
+      workerId: "worker-1",
+    });
+
+    expect(await t.mutation(api.lib.cancelWorkflow, { workflowId })).toBe(true);
+
+    const beat = await t.mutation(api.lib.heartbeat, {
+      workflowId,
+      workerId: "worker-1",
+    });
+    expect(beat).toEqual("cancelled");
+
+    // The worker can no longer record results.
+    const ok = await t.mutation(api.lib.completeStep, {
+      stepId: step.stepId,
+      workerId: "worker-1",
+      output: "late",
+    });
+    expect(ok).toBe(false);
+
+    const completed = await t.mutation(api.lib.completeWorkflow, {
+      workflowId,
+      workerId: "worker-1",
+      output: "late",
+    });
+    expect(completed).toBe(false);
+
+    const workflow = await t.query(api.lib.getWorkflow, { workflowId });
+    expect(workflow?.status).toEqual("cancelled");
+    expect(workflow?.claimedBy).toBeNull();
+  });
+
+  test("cannot cancel a finished workflow", async () => {
+    const t = initConvexTest();
+    const workflowId = await t.mutation(api.lib.startWorkflow, {
+      name: "test-workflow",
+      input: {},
+    });
+    await t.mutation(api.lib.claimWorkflow, {
+      workflowNames: ["test-workflow"],
+      workerId: "worker-1",
+    });
+    await t.mutation(api.lib.completeWorkflow, {
+      workflowId,
+      workerId: "worker-1",
+      output: "done",
+    });
+
+    const ok = await t.mutation(api.lib.cancelWorkflow, { workflowId });
+    expect(ok).toBe(false);
+
+    const workflow = await t.query(api.lib.getWorkflow, { workflowId });
+    expect(workflow?.status).toEqual("completed");
+  });
+
+  test("pins a workflow to the version of the worker that first claims it", async () => {
+    const t = initConvexTest();
+    const workflowId = await t.mutation(api.lib.startWorkflow, {
+      name: "order",
+      input: {},
+    });
+
+    await t.mutation(api.lib.claimWorkflow, {
+      workflowNames: ["order"],
+      workerId: "worker-v1",
+      workflowVersions: { order: "1" },
+    });
+    const claimed = await t.query(api.lib.getWorkflow, { workflowId });
+    expect(claimed?.version).toEqual("1");
+
+    await t.mutation(api.lib.sleepWorkflow, {
+      workflowId,
+      workerId: "worker-v1",
+      sleepUntil: Date.now() + 1000,
+    });
+    vi.advanceTimersByTime(1000);
+
+    // Neither a newer nor an unversioned worker may replay the run.
+    expect(
+      await t.mutation(api.lib.claimWorkflow, {
+        workflowNames: ["order"],
+        workerId: "worker-v2",
+        workflowVersions: { order: "2" },
+      }),
+    ).toBeNull();
+    expect(
+      await t.mutation(api.lib.claimWorkflow, {
+        workflowNames: ["order"],
+        workerId: "worker-unversioned",
+      }),
+    ).toBeNull();
+    expect(
+      await t.mutation(api.lib.claimWorkflow, {
+        workflowNames: ["*"],
+        workerId: "worker-all",
+      }),
+    ).toBeNull();
+    expect(
+      await t.query(api.lib.subscribePendingWorkflows, {
+        workflowNames: ["order"],
+        workflowVersions: { order: "2" },
+      }),
+    ).toBe(0);
+
+    const resumed = await t.mutation(api.lib.claimWorkflow, {
+      workflowNames: ["*"],
+      workerId: "worker-v1-again",
+      workflowVersions: { order: "1" },
+    });
+    expect(resumed?.workflowId).toEqual(workflowId);
+  });
+
+  test("skips older pending runs pinned to another version", async () => {
+    const t = initConvexTest();
+    const first = await t.mutation(api.lib.startWorkflow, {
+      name: "order",
+      input: {},
+    });
+
+    // Pin the first run to version 1 and put it back in the pending queue.
+    await t.mutation(api.lib.claimWorkflow, {
+      workflowNames: ["order"],
+      workerId: "worker-v1",
+      workflowVersions: { order: "1" },
+    });
+    await t.mutation(api.lib.failWorkflow, {
+      workflowId: first,
+      workerId: "worker-v1",
+      error: "boom",
+    });
+    await t.mutation(api.lib.retryWorkflow, { workflowId: first });
+
+    const second = await t.mutation(api.lib.startWorkflow, {
+      name: "order",
+      input: {},
+    });
+
+    const claimed = await t.mutation(api.lib.claimWorkflow, {
+      workflowNames: ["order"],
+      workerId: "worker-v2",
+      workflowVersions: { order: "2" },
+    });
+    expect(claimed?.workflowId).toEqual(second);
+
+    const workflow = await t.query(api.lib.getWorkflow, { workflowId: second });
+    expect(workflow?.version).toEqual("2");
+  });
+
+  test("recordPatch is true for new runs and false for older history", async () => {
+    const t = initConvexTest();
+    const workflowId = await t.mutation(api.lib.startWorkflow, {
+      name: "test-workflow",
+      input: {},
+    });
+    await t.mutation(api.lib.claimWorkflow, {
+      workflowNames: ["test-workflow"],
+      workerId: "worker-1",
+    });
+
+    // Old code recorded "notify-email" after the point where the patch goes.
+    const pre = await t.mutation(api.lib.getOrCreateStep, {
+      workflowId,
+      stepName: "charge",
+      workerId: "worker-1",
+    });
+    const old = await t.mutation(api.lib.getOrCreateStep, {
+      workflowId,
+      stepName: "notify-email",
+      workerId: "worker-1",
+    });
+    for (const step of [pre, old]) {
+      await t.mutation(api.lib.completeStep, {
+        stepId: step.stepId,
+        workerId: "worker-1",
+        output: "ok",
+      });
+    }
+
+    // Replaying: only "charge" has been visited when the patch is reached.
+    const replayed = await t.mutation(api.lib.recordPatch, {
+      workflowId,
+      workerId: "worker-1",
+      stepName: "__patch:sms",
+      visitedStepNames: ["charge"],
+    });
+    expect(replayed).toBe(false);
+
+    // The decision is durable.
+    const again = await t.mutation(api.lib.recordPatch, {
+      workflowId,
+      workerId: "worker-1",
+      stepName: "__patch:sms",
+      visitedStepNames: ["charge", "notify-email"],
+    });
+    expect(again).toBe(false);
+
+    // A run that hasn't got past the patch point takes the new path.
+    const fresh = await t.mutation(api.lib.recordPatch, {
+      workflowId,
+      workerId: "worker-1",
+      stepName: "__patch:receipt",
+      visitedStepNames: ["charge", "notify-email", "__patch:sms"],
+    });
+    expect(fresh).toBe(true);
+
+    const steps = await t.query(api.lib.getWorkflowSteps, { workflowId });
+    const markers = steps.filter((s) => s.name.startsWith("__patch:"));
+    expect(markers.map((s) => [s.name, s.status, s.output])).toEqual([
+      ["__patch:sms", "completed", false],
+      ["__patch:receipt", "completed", true],
+    ]);
+  });
+
+  test("wakes a waiting workflow when its signal timeout passes", async () => {
+    const t = initConvexTest();
+    const workflowId = await t.mutation(api.lib.startWorkflow, {
+      name: "test-workflow",
+      input: {},
+    });
+    await t.mutation(api.lib.claimWorkflow, {
+      workflowNames: ["test-workflow"],
+      workerId: "worker-1",
+    });
+
+    const step = await t.mutation(api.lib.getOrCreateStep, {
+      workflowId,
+      stepName: "__signal:approved:wait",
+      workerId: "worker-1",
+    });
+    const first = await t.mutation(api.lib.waitForSignal, {
+      workflowId,
+      stepId: step.stepId,
+      workerId: "worker-1",
+      signalName: "approved",
+      timeoutMs: 60_000,
+    });
+    expect(first.kind).toEqual("waiting");
+
+    const parked = await t.query(api.lib.getWorkflow, { workflowId });
+    expect(parked?.status).toEqual("waiting");
+    expect(parked?.sleepUntil).toEqual(Date.now() + 60_000);
+
+    vi.advanceTimersByTime(30_000);
+    expect(
+      await t.mutation(api.lib.claimWorkflow, {
+        workflowNames: ["test-workflow"],
+        workerId: "worker-2",
+      }),
+    ).toBeNull();
+
+    vi.advanceTimersByTime(30_000);
+    const claimed = await t.mutation(api.lib.claimWorkflow, {
+      workflowNames: ["test-workflow"],
+      workerId: "worker-2",
+    });
+    expect(claimed?.workflowId).toEqual(workflowId);
+
+    const stepAgain = await t.mutation(api.lib.getOrCreateStep, {
+      workflowId,
+      stepName: "__signal:approved:wait",
+      workerId: "worker-2",
+    });
+    // The original deadline is kept even if the worker passes a new timeout.
+    const second = await t.mutation(api.lib.waitForSignal, {
+      workflowId,
+      stepId: stepAgain.stepId,
+      workerId: "worker-2",
+      signalName: "approved",
+      timeoutMs: 60_000,
+    });
+    expect(second.kind).toEqual("timedOut");
+
+    const steps = await t.query(api.lib.getWorkflowSteps, { workflowId });
+    expect(steps[0].status).toEqual("failed");
+    expect(steps[0].error).toMatch(/timed out/i);
+  });
+
+  test("waiting workflows without a timeout are not woken", async () => {
+    const t = initConvexTest();
+    const workflowId = await t.mutation(api.lib.startWorkflow, {
+      name: "test-workflow",
+      input: {},
+    });
+    await t.mutation(api.lib.claimWorkflow, {
+      workflowNames: ["test-workflow"],
+      workerId: "worker-1",
+    });
+    const step = await t.mutation(api.lib.getOrCreateStep, {
+      workflowId,
+      stepName: "__signal:approved:wait",
+      workerId: "worker-1",
+    });
+    await t.mutation(api.lib.waitForSignal, {
+      workflowId,
+      stepId: step.stepId,
+      workerId: "worker-1",
+      signalName: "approved",
+    });
+
+    vi.advanceTimersByTime(24 * 60 * 60 * 1000);
+
+    expect(
+      await t.mutation(api.lib.claimWorkflow, {
+        workflowNames: ["*"],
+        workerId: "worker-2",
+      }),
+    ).toBeNull();
+    expect(
+      await t.query(api.lib.subscribePendingWorkflows, {
+        workflowNames: ["test-workflow"],
+      }),
+    ).toBe(0);
+  });
+
+  test("startWorkflow with a workflowKey returns the existing workflow", async () => {
+    const t = initConvexTest();
+    const first = await t.mutation(api.lib.startWorkflow, {
+      name: "order",
+      input: { orderId: "o1" },
+      workflowKey: "o1",
+    });
+    const second = await t.mutation(api.lib.startWorkflow, {
+      name: "order",
+      input: { orderId: "o1" },
+      workflowKey: "o1",
+    });
+    expect(second).toEqual(first);
+
+    // Keys are scoped to the workflow name.
+    const other = await t.mutation(api.lib.startWorkflow, {
+      name: "refund",
+      input: {},
+      workflowKey: "o1",
+    });
+    expect(other).not.toEqual(first);
+
+    const workflow = await t.query(api.lib.getWorkflow, { workflowId: first });
+    expect(workflow?.workflowKey).toEqual("o1");
+  });
+
+  test("startWorkflow onConflict fail throws for a used workflowKey", async () => {
+    const t = initConvexTest();
+    await t.mutation(api.lib.startWorkflow, {
+      name: "order",
+      input: {},
+      workflowKey: "o1",
+    });
+    await expect(
+      t.mutation(api.lib.startWorkflow, {
+        name: "order",
+        input: {},
+        workflowKey: "o1",
+        onConflict: "fail",
+      }),
+    ).rejects.toThrow(/already exists/);
+  });
+
+  test("startWorkflow onConflict startNewIfFinished only restarts finished runs", async () => {
+    const t = initConvexTest();
+    const first = await t.mutation(api.lib.startWorkflow, {
+      name: "order",
+      input: {},
+      workflowKey: "o1",
+    });
+    const whileRunning = await t.mutation(api.lib.startWorkflow, {
+      name: "order",
+      input: {},
+      workflowKey: "o1",
+      onConflict: "startNewIfFinished",
+    });
+    expect(whileRunning).toEqual(first);
+
+    await t.mutation(api.lib.claimWorkflow, {
+      workflowNames: ["order"],
+      workerId: "worker-1",
+    });
+    await t.mutation(api.lib.completeWorkflow, {
+      workflowId: first,
+      workerId: "worker-1",
+      output: null,
+    });
+
+    const restarted = await t.mutation(api.lib.startWorkflow, {
+      name: "order",
+      input: {},
+      workflowKey: "o1",
+      onConflict: "startNewIfFinished",
+    });
+    expect(restarted).not.toEqual(first);
+
+    // Later starts resolve against the newest run.
+    const again = await t.mutation(api.lib.startWorkflow, {
+      name: "order",
+      input: {},
+      workflowKey: "o1",
+    });
+    expect(again).toEqual(restarted);
+  });
+
+  test("awaitChildWorkflow parks the parent until the child finishes", async () => {
+    const t = initConvexTest();
+    const parentId = await t.mutation(api.lib.startWorkflow, {
+      name: "parent",
+      input: {},
+    });
+    await t.mutation(api.lib.claimWorkflow, {
+      workflowNames: ["parent"],
+      workerId: "worker-1",
+    });
+
+    const startStep = await t.mutation(api.lib.getOrCreateStep, {
+      workflowId: parentId,
+      stepName: "__child:child-1",
+      workerId: "worker-1",
+    });
+    const childId = await t.mutation(api.lib.startChildWorkflow, {
+      workflowId: parentId,
+      stepId: startStep.stepId,
+      workerId: "worker-1",
+      name: "child",
+      input: { n: 1 },
+    });
+    expect(childId).not.toBeNull();
+
+    // Replaying the start returns the same child.
+    const again = await t.mutation(api.lib.startChildWorkflow, {
+      workflowId: parentId,
+      stepId: startStep.stepId,
+      workerId: "worker-1",
+      name: "child",
+      input: { n: 1 },
+    });
+    expect(again).toEqual(childId);
+
+    const child = await t.query(api.lib.getWorkflow, { workflowId: childId! });
+    expect(child?.parentWorkflowId).toEqual(parentId);
+    expect(child?.status).toEqual("pending");
+
+    const awaitStep = await t.mutation(api.lib.getOrCreateStep, {
+      workflowId: parentId,
+      stepName: `__awaitChild:${childId}`,
+      workerId: "worker-1",
+    });
+    const waiting = await t.mutation(api.lib.awaitChildWorkflow, {
+      workflowId: parentId,
+      stepId: awaitStep.stepId,
+      workerId: "worker-1",
+      childWorkflowId: childId!,
+    });
+    expect(waiting.kind).toEqual("waiting");
+
+    const parked = await t.query(api.lib.getWorkflow, { workflowId: parentId });
+    expect(parked?.status).toEqual("waiting");
+    expect(parked?.waitingForChildId).toEqual(childId);
+
+    // Only the child can be claimed while the parent waits.
+    const claimedChild = await t.mutation(api.lib.claimWorkflow, {
+      workflowNames: ["*"],
+      workerId: "worker-2",
+    });
+    expect(claimedChild?.workflowId).toEqual(childId);
+    await t.mutation(api.lib.completeWorkflow, {
+      workflowId: childId!,
+      workerId: "worker-2",
+      output: { ok: true },
+    });
+
+    const woken = await t.query(api.lib.getWorkflow, { workflowId: parentId });
+    expect(woken?.status).toEqual("pending");
+    expect(woken?.waitingForChildId).toBeUndefined();
+
+    await t.mutation(api.lib.claimWorkflow, {
+      workflowNames: ["parent"],
+      workerId: "worker-1",
+    });
+    const replayed = await t.mutation(api.lib.getOrCreateStep, {
+      workflowId: parentId,
+      stepName: `__awaitChild:${childId}`,
+      workerId: "worker-1",
+    });
+    const result = await t.mutation(api.lib.awaitChildWorkflow, {
+      workflowId: parentId,
+      stepId: replayed.stepId,
+      workerId: "worker-1",
+      childWorkflowId: childId!,
+    });
+    expect(result).toEqual({ kind: "completed", output: { ok: true } });
+  });
+
+  test("awaitChildWorkflow reports a failed child", async () => {
+    const t = initConvexTest();
+    const parentId = await t.mutation(api.lib.startWorkflow, {
+      name: "parent",
+      input: {},
+    });
+    await t.mutation(api.lib.claimWorkflow, {
+      workflowNames: ["parent"],
+      workerId: "worker-1",
+    });
+    const startStep = await t.mutation(api.lib.getOrCreateStep, {
+      workflowId: parentId,
+      stepName: "__child:child-1",
+      workerId: "worker-1",
+    });
+    const childId = await t.mutation(api.lib.startChildWorkflow, {
+      workflowId: parentId,
+      stepId: startStep.stepId,
+      workerId: "worker-1",
+      name: "child",
+      input: {},
+    });
+
+    await t.mutation(api.lib.claimWorkflow, {
+      workflowNames: ["child"],
+      workerId: "worker-2",
+    });
+    await t.mutation(api.lib.failWorkflow, {
+      workflowId: childId!,
+      workerId: "worker-2",
+      error: "boom",
+    });
+
+    const awaitStep = await t.mutation(api.lib.getOrCreateStep, {
+      workflowId: parentId,
+      stepName: `__awaitChild:${childId}`,
+      workerId: "worker-1",
+    });
+    const result = await t.mutation(api.lib.awaitChildWorkflow, {
+      workflowId: parentId,
+      stepId: awaitStep.stepId,
+      workerId: "worker-1",
+      childWorkflowId: childId!,
+    });
+    expect(result).toEqual({ kind: "failed", error: "boom" });
+
+    const steps = await t.query(api.lib.getWorkflowSteps, {
+      workflowId: parentId,
+    });
+    expect(steps.find((s) => s._id === awaitStep.stepId)?.status).toEqual(
+      "failed",
+    );
+  });
+
+  test("parent-close policy cancels or abandons unfinished children", async () => {
+    const t = initConvexTest();
+    const parentId = await t.mutation(api.lib.startWorkflow, {
+      name: "parent",
+      input: {},
+    });
+    await t.mutation(api.lib.claimWorkflow, {
+      workflowNames: ["parent"],
+      workerId: "worker-1",
+    });
+
+    const startChild = async (
+      marker: string,
+      parentClosePolicy?: "cancel" | "abandon",
+    ) => {
+      const step = await t.mutation(api.lib.getOrCreateStep, {
+        workflowId: parentId,
+        stepName: `__child:${marker}`,
+        workerId: "worker-1",
+      });
+      return (await t.mutation(api.lib.startChildWorkflow, {
+        workflowId: parentId,
+        stepId: step.stepId,
+        workerId: "worker-1",
+        name: "child",
+        input: {},
+        parentClosePolicy,
+      }))!;
+    };
+    const cancelledChild = await startChild("a");
+    const abandonedChild = await startChild("b", "abandon");
+
+    await t.mutation(api.lib.completeWorkflow, {
+      workflowId: parentId,
+      workerId: "worker-1",
+      output: null,
+    });
+
+    const a = await t.query(api.lib.getWorkflow, {
+      workflowId: cancelledChild,
+    });
+    expect(a?.status).toEqual("cancelled");
+    expect(a?.error).toEqual("Parent workflow closed");
+
+    const b = await t.query(api.lib.getWorkflow, {
+      workflowId: abandonedChild,
+    });
+    expect(b?.status).toEqual("pending");
+  });
+
+  test("claimWorkflow prefers higher priorities, oldest first within one", async () => {
+    const t = initConvexTest();
+    const start = (input: string, priority?: number) =>
+      t.mutation(api.lib.startWorkflow, { name: "order", input, priority });
+
+    await start("batch-1");
+    await start("batch-2");
+    await start("interactive-1", 10);
+    await start("interactive-2", 10);
+    await start("urgent", 20);
+
+    const claimed: string[] = [];
+    for (let i = 0; i < 5; i++) {
+      const claim = await t.mutation(api.lib.claimWorkflow, {
+        workflowNames: ["order"],
+        workerId: "worker-1",
+      });
+      claimed.push(claim!.input);
+    }
+    expect(claimed).toEqual([
+      "urgent",
+      "interactive-1",
+      "interactive-2",
+      "batch-1",
+      "batch-2",
+    ]);
+  });
+
+  test("claimWorkflow compares priorities across workflow names", async () => {
+    const t = initConvexTest();
+    await t.mutation(api.lib.startWorkflow, {
+      name: "backfill",
+      input: {},
+    });
+    const urgent = await t.mutation(api.lib.startWorkflow, {
+      name: "order",
+      input: {},
+      priority: 5,
+    });
+
+    const claim = await t.mutation(api.lib.claimWorkflow, {
+      workflowNames: ["backfill", "order"],
+      workerId: "worker-1",
+    });
+    expect(claim?.workflowId).toEqual(urgent);
+  });
+
+  test("runs without a priority rank as priority 0", async () => {
+    const t = initConvexTest();
+    const deferred = await t.mutation(api.lib.startWorkflow, {
+      name: "order",
+      input: {},
+      priority: -1,
+    });
+    // Created before priorities existed.
+    const legacy = await t.run((ctx) =>
+      ctx.db.insert("workflows", {
+        name: "backfill",
+        status: "pending",
+        input: {},
+      }),
+    );
+    const current = await t.mutation(api.lib.startWorkflow, {
+      name: "backfill",
+      input: {},
+    });
+
+    const claimed = await t.mutation(api.lib.claimWorkflows, {
+      workflowNames: ["backfill", "order"],
+      workerId: "worker-1",
+      max: 3,
+    });
+    expect(claimed.map((c) => c.workflowId)).toEqual([
+      legacy,
+      current,
+      deferred,
+    ]);
+  });
+
+  test("claimWorkflow routes runs by task queue", async () => {
+    const t = initConvexTest();
+    const onPrem = await t.mutation(api.lib.startWorkflow, {
+      name: "sync",
+      input: {},
+      taskQueue: "on-prem",
+    });
+
+    // Workers poll the default queue unless told otherwise.
+    expect(
+      await t.mutation(api.lib.claimWorkflow, {
+        workflowNames: ["sync"],
+        workerId: "cloud-worker",
+      }),
+    ).toBeNull();
+    expect(
+      await t.query(api.lib.subscribePendingWorkflows, {
+        workflowNames: ["*"],
+      }),
+    ).toBe(0);
+
+    const defaultRun = await t.mutation(api.lib.startWorkflow, {
+      name: "sync",
+      input: {},
+    });
+    expect(
+      await t.query(api.lib.getWorkflow, { workflowId: defaultRun }),
+    ).toMatchObject({ taskQueue: "default" });
+
+    const claims = [];
+    for (let i = 0; i < 2; i++) {
+      claims.push(
+        await t.mutation(api.lib.claimWorkflow, {
+          workflowNames: ["sync"],
+          workerId: "on-prem-worker",
+          taskQueues: ["on-prem", "default"],
+        }),
+      );
+    }
+    expect(claims.map((claim) => claim?.workflowId)).toEqual([
+      onPrem,
+      defaultRun,
+    ]);
+
+    // Children stay on their parent's queue.
+    const step = await t.mutation(api.lib.getOrCreateStep, {
+      workflowId: onPrem,
+      stepName: "__child:child",
+      workerId: "on-prem-worker",
+    });
+    const childId = await t.mutation(api.lib.startChildWorkflow, {
+      workflowId: onPrem,
+      stepId: step.stepId,
+      workerId: "on-prem-worker",
+      name: "sync-child",
+      input: {},
+    });
+    expect(
+      await t.query(api.lib.getWorkflow, { workflowId: childId! }),
+    ).toMatchObject({ taskQueue: "on-prem" });
+  });
+
+  test("claimWorkflow respects cluster-wide concurrency limits", async () => {
+    const t = initConvexTest();
+    await t.mutation(api.lib.setConcurrencyLimit, {
+      workflowName: "partner-sync",
+      limit: 2,
+    });
+    for (let i = 0; i < 3; i++) {
+      await t.mutation(api.lib.startWorkflow, {
+        name: "partner-sync",
+        input: i,
+      });
+    }
+    const other = await t.mutation(api.lib.startWorkflow, {
+      name: "other",
+      input: {},
+    });
+
+    const first = await t.mutation(api.lib.claimWorkflow, {
+      workflowNames: ["partner-sync"],
+      workerId: "worker-1",
+    });
+    await t.mutation(api.lib.claimWorkflow, {
+      workflowNames: ["partner-sync"],
+      workerId: "worker-2",
+    });
+    expect(
+      await t.mutation(api.lib.claimWorkflow, {
+        workflowNames: ["partner-sync"],
+        workerId: "worker-3",
+      }),
+    ).toBeNull();
+    // Wildcard claims skip the capped name but still find other work.
+    const wildcard = await t.mutation(api.lib.claimWorkflow, {
+      workflowNames: ["*"],
+      workerId: "worker-3",
+    });
+    expect(wildcard?.workflowId).toEqual(other);
+    expect(await t.query(api.lib.listConcurrencyLimits, {})).toEqual([
+      { workflowName: "partner-sync", limit: 2, running: 2 },
+    ]);
+
+    // Parking a run frees its slot.
+    await t.mutation(api.lib.sleepWorkflow, {
+      workflowId: first!.workflowId,
+      workerId: "worker-1",
+      sleepUntil: Date.now() + 60_000,
+    });
+    const third = await t.mutation(api.lib.claimWorkflow, {
+      workflowNames: ["partner-sync"],
+      workerId: "worker-3",
+    });
+    expect(third?.input).toEqual(2);
+
+    await t.mutation(api.lib.setConcurrencyLimit, {
+      workflowName: "partner-sync",
+      limit: null,
+    });
+    expect(await t.query(api.lib.listConcurrencyLimits, {})).toEqual([]);
+  });
+
+  test("runs of a capped name are reclaimed when their lease expires", async () => {
+    const t = initConvexTest();
+    await t.mutation(api.lib.setConcurrencyLimit, {
+      workflowName: "partner-sync",
+      limit: 1,
+    });
+    const workflowId = await t.mutation(api.lib.startWorkflow, {
+      name: "partner-sync",
+      input: {},
+    });
+    await t.mutation(api.lib.claimWorkflow, {
+      workflowNames: ["partner-sync"],
+      workerId: "worker-1",
+    });
+
+    // worker-1 dies holding the only slot.
+    vi.advanceTimersByTime(60_000);
+    const reclaimed = await t.mutation(api.lib.claimWorkflow, {
+      workflowNames: ["partner-sync"],
+      workerId: "worker-2",
+    });
+    expect(reclaimed?.workflowId).toEqual(workflowId);
+    expect(await t.query(api.lib.listConcurrencyLimits, {})).toEqual([
+      { workflowName: "partner-sync", limit: 1, running: 1 },
+    ]);
+  });
+
+  test("leases last as long as the worker asks, per workflow name", async () => {
+    const t = initConvexTest();
+    const fast = await t.mutation(api.lib.startWorkflow, {
+      name: "fast",
+      input: {},
+    });
+    const slow = await t.mutation(api.lib.startWorkflow, {
+      name: "slow",
+      input: {},
+    });
+    const claimArgs = {
+      workflowNames: ["fast", "slow"],
+      leaseDurationMs: 5_000,
+      workflowLeaseDurationsMs: { slow: 120_000 },
+    };
+    await t.mutation(api.lib.claimWorkflows, {
+      ...claimArgs,
+      workerId: "worker-1",
+      max: 2,
+    });
+
+    vi.advanceTimersByTime(6_000);
+    const reclaimed = await t.mutation(api.lib.claimWorkflows, {
+      ...claimArgs,
+      workerId: "worker-2",
+      max: 2,
+    });
+    expect(reclaimed.map((c) => c.workflowId)).toEqual([fast]);
+
+    // Heartbeats extend the lease by the duration they ask for.
+    vi.advanceTimersByTime(100_000);
+    expect(
+      await t.mutation(api.lib.heartbeat, {
+        workflowId: slow,
+        workerId: "worker-1",
+        leaseDurationMs: 120_000,
+      }),
+    ).toBe(true);
+    vi.advanceTimersByTime(100_000);
+    expect(
+      await t.mutation(api.lib.claimWorkflow, {
+        ...claimArgs,
+        workflowNames: ["slow"],
+        workerId: "worker-2",
+      }),
+    ).toBeNull();
+
+    await expect(
+      t.mutation(api.lib.heartbeat, {
+        workflowId: slow,
+        workerId: "worker-1",
+        leaseDurationMs: 0,
+      }),
+    ).rejects.toThrow("Lease duration must be positive");
+  });
+
+  test("stepHeartbeat records progress that later attempts resume from", async () => {
+    const t = initConvexTest();
+    const workflowId = await t.mutation(api.lib.startWorkflow, {
+      name: "export",
+      input: {},
+    });
+    await t.mutation(api.lib.claimWorkflow, {
+      workflowNames: ["export"],
+      workerId: "worker-1",
+    });
+    const { stepId, heartbeatDetails } = await t.mutation(
+      api.lib.getOrCreateStep,
+      { workflowId, stepName: "export", workerId: "worker-1" },
+    );
+    expect(heartbeatDetails).toBeUndefined();
+
+    expect(
+      await t.mutation(api.lib.stepHeartbeat, {
+        stepId,
+        workerId: "worker-1",
+        details: { exported: 500 },
+      }),
+    ).toBe(true);
+    expect(
+      await t.mutation(api.lib.stepHeartbeat, {
+        stepId,
+        workerId: "worker-2",
+        details: { exported: 0 },
+      }),
+    ).toBe(false);
+    const [step] = await t.query(api.lib.getWorkflowSteps, { workflowId });
+    expect(step.heartbeatDetails).toEqual({ exported: 500 });
+    expect(step.lastHeartbeatAt).toEqual(Date.now());
+
+    await t.mutation(api.lib.scheduleStepRetry, {
+      workflowId,
+      stepId,
+      workerId: "worker-1",
+      error: "lost",
+      retryAt: Date.now(),
+    });
+    expect(
+      await t.mutation(api.lib.stepHeartbeat, { stepId, workerId: "worker-1" }),
+    ).toBe(false);
+    await t.mutation(api.lib.claimWorkflow, {
+      workflowNames: ["export"],
+      workerId: "worker-1",
+    });
+    const retried = await t.mutation(api.lib.getOrCreateStep, {
+      workflowId,
+      stepName: "export",
+      workerId: "worker-1",
+    });
+    expect(retried.attempts).toBe(2);
+    expect(retried.heartbeatDetails).toEqual({ exported: 500 });
+  });
+
+  test("queries go to the worker holding the run, or to any worker", async () => {
+    const t = initConvexTest();
+    const workflowId = await t.mutation(api.lib.startWorkflow, {
+      name: "import",
+      input: {},
+    });
+    const unowned = await t.mutation(api.lib.queryWorkflow, {
+      workflowId,
+      queryName: "progress",
+    });
+    await t.mutation(api.lib.claimWorkflow, {
+      workflowNames: ["import"],
+      workerId: "worker-1",
+    });
+    const owned = await t.mutation(api.lib.queryWorkflow, {
+      workflowId,
+      queryName: "progress",
+      args: { detailed: true },
+    });
+
+    const pending = (workerId: string, workflowNames: string[]) =>
+      t
+        .query(api.lib.subscribePendingQueries, { workerId, workflowNames })
+        .then((queries) => queries.map((query) => query._id));
+    expect(await pending("worker-1", ["import"])).toEqual([owned, unowned]);
+    expect(await pending("worker-2", ["*"])).toEqual([unowned]);
+    expect(await pending("worker-2", ["other"])).toEqual([]);
+
+    // Only the worker holding the run answers queries addressed to it.
+    expect(
+      await t.mutation(api.lib.answerQuery, {
+        queryId: owned,
+        workerId: "worker-2",
+        result: 0,
+      }),
+    ).toBe(false);
+    expect(
+      await t.mutation(api.lib.answerQuery, {
+        queryId: owned,
+        workerId: "worker-1",
+        result: 3,
+      }),
+    ).toBe(true);
+    expect(
+      await t.mutation(api.lib.answerQuery, {
+        queryId: unowned,
+        workerId: "worker-2",
+        error: 'Workflow import has no query handler "progress"',
+      }),
+    ).toBe(true);
+    expect(
+      await t.mutation(api.lib.answerQuery, {
+        queryId: unowned,
+        workerId: "worker-1",
+        result: 3,
+      }),
+    ).toBe(false);
+
+    expect(await t.query(api.lib.getQueryResult, { queryId: owned })).toEqual({
+      status: "answered",
+      result: 3,
+    });
+    expect(
+      await t.query(api.lib.getQueryResult, { queryId: unowned }),
+    ).toMatchObject({ status: "failed" });
+    expect(await pending("worker-1", ["import"])).toEqual([]);
+  });
+
+  test("queries of a lapsed lease go to any worker, and expire", async () => {
+    const t = initConvexTest();
+    const workflowId = await t.mutation(api.lib.startWorkflow, {
+      name: "import",
+      input: {},
+    });
+    await t.mutation(api.lib.claimWorkflow, {
+      workflowNames: ["import"],
+      workerId: "worker-1",
+      leaseDurationMs: 10_000,
+    });
+    const queryId = await t.mutation(api.lib.queryWorkflow, {
+      workflowId,
+      queryName: "progress",
+      timeoutMs: 60_000,
+    });
+    const pending = (workerId: string) =>
+      t
+        .query(api.lib.subscribePendingQueries, {
+          workerId,
+          workflowNames: ["import"],
+        })
+        .then((queries) => queries.map((query) => query._id));
+    const tick = async (ms: number) => {
+      vi.advanceTimersByTime(ms);
+      await t.finishInProgressScheduledFunctions();
+    };
+
+    // Heartbeats keep the query with worker-1.
+    await tick(5_000);
+    await t.mutation(api.lib.heartbeat, {
+      workflowId,
+      workerId: "worker-1",
+      leaseDurationMs: 10_000,
+    });
+    await tick(6_000);
+    expect(await pending("worker-2")).toEqual([]);
+
+    // Once worker-1 stops heartbeating, any worker can answer by replaying.
+    await tick(10_000);
+    expect(await pending("worker-2")).toEqual([queryId]);
+
+    await tick(60_000);
+    expect(await t.query(api.lib.getQueryResult, { queryId })).toBeNull();
+    expect(await pending("worker-2")).toEqual([]);
+  });
+
+  test("updates are delivered with the run's next step and replayed there", async () => {
+    const t = initConvexTest();
+    const workflowId = await t.mutation(api.lib.startWorkflow, {
+      name: "order",
+      input: {},
+    });
+    const claim = () =>
+      t.mutation(api.lib.claimWorkflow, {
+        workflowNames: ["order"],
+        workerId: "worker-1",
+      });
+    const step = (stepName: string) =>
+      t.mutation(api.lib.getOrCreateStep, {
+        workflowId,
+        stepName,
+        workerId: "worker-1",
+      });
+    await claim();
+    const pack = await step("pack");
+    await t.mutation(api.lib.completeStep, {
+      stepId: pack.stepId,
+      workerId: "worker-1",
+      output: null,
+    });
+
+    const updateId = await t.mutation(api.lib.updateWorkflow, {
+      workflowId,
+      updateName: "changeAddress",
+      args: { address: "1 Main St" },
+    });
+    const ship = await step("ship");
+    expect(ship.updates).toEqual([
+      {
+        updateId,
+        updateName: "changeAddress",
+        args: { address: "1 Main St" },
+        status: "delivered",
+      },
+    ]);
+
+    const complete = (workerId: string) =>
+      t.mutation(api.lib.completeUpdate, {
+        updateId,
+        workerId,
+        status: "completed",
+        result: "ok",
+      });
+    expect(await complete("worker-2")).toBe(false);
+    expect(await complete("worker-1")).toBe(true);
+    expect(await complete("worker-1")).toBe(false);
+    expect(await t.query(api.lib.getUpdateResult, { updateId })).toEqual({
+      status: "completed",
+      result: "ok",
+    });
+
+    // Replays see the update with the same step, and only that one.
+    expect((await step("pack")).updates).toBeUndefined();
+    expect((await step("ship")).updates).toMatchObject([
+      { updateId, status: "completed" },
+    ]);
+    const steps = await t.query(api.lib.getWorkflowSteps, { workflowId });
+    expect(steps.map((s) => [s.name, s.updates?.length])).toEqual([
+      ["pack", undefined],
+      ["ship", 1],
+    ]);
+
+    // A sleeping run is woken up for an update.
+    await t.mutation(api.lib.completeStep, {
+      stepId: ship.stepId,
+      workerId: "worker-1",
+      output: null,
+    });
+    const nap = await step("__sleep:nap");
+    await t.mutation(api.lib.scheduleSleep, {
+      workflowId,
+      stepId: nap.stepId,
+      workerId: "worker-1",
+      sleepUntil: Date.now() + 60_000,
+    });
+    const late = await t.mutation(api.lib.updateWorkflow, {
+      workflowId,
+      updateName: "changeAddress",
+      args: { address: "2 Side St" },
+    });
+    expect(
+      (await t.query(api.lib.getWorkflow, { workflowId }))?.status,
+    ).toEqual("pending");
+
+    // The run finishes without reaching another step: the update is rejected.
+    await claim();
+    await t.mutation(api.lib.completeWorkflow, {
+      workflowId,
+      workerId: "worker-1",
+      output: null,
+    });
+    expect(
+      await t.query(api.lib.getUpdateResult, { updateId: late }),
+    ).toMatchObject({ status: "rejected" });
+    const afterFinish = await t.mutation(api.lib.updateWorkflow, {
+      workflowId,
+      updateName: "changeAddress",
+    });
+    expect(
+      await t.query(api.lib.getUpdateResult, { updateId: afterFinish }),
+    ).toEqual({
+      status: "rejected",
+      error: `Workflow ${workflowId} is completed`,
+    });
+  });
+
+  test("claimWorkflows claims several runs in claim order", async () => {
+    const t = initConvexTest();
+    await t.mutation(api.lib.setConcurrencyLimit, {
+      workflowName: "partner-sync",
+      limit: 1,
+    });
+    const low = await t.mutation(api.lib.startWorkflow, {
+      name: "report",
+      input: "low",
+    });
+    const high = await t.mutation(api.lib.startWorkflow, {
+      name: "report",
+      input: "high",
+      priority: 10,
+    });
+    const synced = await t.mutation(api.lib.startWorkflow, {
+      name: "partner-sync",
+      input: 1,
+    });
+    await t.mutation(api.lib.startWorkflow, { name: "partner-sync", input: 2 });
+
+    // Concurrency limits are checked after every claim in the batch.
+    const claimed = await t.mutation(api.lib.claimWorkflows, {
+      workflowNames: ["report", "partner-sync"],
+      workerId: "worker-1",
+      max: 10,
+    });
+    expect(claimed.map((c) => c.workflowId)).toEqual([high, low, synced]);
+    expect(claimed.map((c) => c.input)).toEqual(["high", "low", 1]);
+    const workflow = await t.query(api.lib.getWorkflow, { workflowId: low });
+    expect(workflow?.status).toBe("running");
+    expect(workflow?.claimedBy).toBe("worker-1");
+
+    expect(
+      await t.mutation(api.lib.claimWorkflows, {
+        workflowNames: ["report", "partner-sync"],
+        workerId: "worker-2",
+        max: 10,
+      }),
+    ).toEqual([]);
+  });
+
+  test("claimWorkflows stops at max", async () => {
+    const t = initConvexTest();
+    for (let i = 0; i < 3; i++) {
+      await t.mutation(api.lib.startWorkflow, { name: "test", input: i });
+    }
+    const first = await t.mutation(api.lib.claimWorkflows, {
+      workflowNames: ["test"],
+      workerId: "worker-1",
+      max: 2,
+    });
+    expect(first.map((c) => c.input)).toEqual([0, 1]);
+    const rest = await t.mutation(api.lib.claimWorkflows, {
+      workflowNames: ["test"],
+      workerId: "worker-1",
+      max: 2,
+    });
+    expect(rest.map((c) => c.input)).toEqual([2]);
+
+    for (const max of [0, -1, 1.5]) {
+      await expect(
+        t.mutation(api.lib.claimWorkflows, {
+          workflowNames: ["test"],
+          workerId: "worker-1",
+          max,
+        }),
+      ).rejects.toThrow("max must be a positive integer");
+    }
+  });
+
+  test("setConcurrencyLimit counts runs that are already running", async () => {
+    const t = initConvexTest();
+    const workflowId = await t.mutation(api.lib.startWorkflow, {
+      name: "partner-sync",
+      input: {},
+    });
+    await t.mutation(api.lib.claimWorkflow, {
+      workflowNames: ["partner-sync"],
+      workerId: "worker-1",
+    });
+    await t.mutation(api.lib.setConcurrencyLimit, {
+      workflowName: "partner-sync",
+      limit: 1,
+    });
+    await t.mutation(api.lib.startWorkflow, {
+      name: "partner-sync",
+      input: {},
+    });
+    expect(
+      await t.mutation(api.lib.claimWorkflow, {
+        workflowNames: ["partner-sync"],
+        workerId: "worker-2",
+      }),
+    ).toBeNull();
+
+    await t.mutation(api.lib.completeWorkflow, {
+      workflowId,
+      workerId: "worker-1",
+      output: null,
+    });
+    expect(
+      await t.mutation(api.lib.claimWorkflow, {
+        workflowNames: ["partner-sync"],
+        workerId: "worker-2",
+      }),
+    ).not.toBeNull();
+  });
+
+  test("searchWorkflows finds workflows by tag and search attribute", async () => {
+    const t = initConvexTest();
+    const first = await t.mutation(api.lib.startWorkflow, {
+      name: "order",
+      input: {},
+      tags: ["vip"],
+      searchAttributes: { customerId: "123" },
+    });
+    const second = await t.mutation(api.lib.startWorkflow, {
+      name: "order",
+      input: {},
+      searchAttributes: { customerId: "456" },
+    });
+    const search = async (args: {
+      tag?: string;
+      searchAttribute?: { key: string; value: string };
+    }) =>
+      (
+        await t.query(api.lib.searchWorkflows, {
+          ...args,
+          paginationOpts: { numItems: 10, cursor: null },
+        })
+      ).page.map((w) => w._id);
+
+    expect(await search({ tag: "vip" })).toEqual([first]);
+    expect(
+      await search({ searchAttribute: { key: "customerId", value: "123" } }),
+    ).toEqual([first]);
+
+    await t.mutation(api.lib.claimWorkflow, {
+      workflowNames: ["order"],
+      workerId: "worker-1",
+    });
+    expect(
+      await t.mutation(api.lib.upsertSearchAttributes, {
+        workflowId: first,
+        workerId: "worker-1",
+        searchAttributes: { customerId: "456", stage: "shipped" },
+      }),
+    ).toBe(true);
+    expect(
+      await search({ searchAttribute: { key: "customerId", value: "456" } }),
+    ).toEqual([first, second]);
+    expect(
+      await search({ searchAttribute: { key: "customerId", value: "123" } }),
+    ).toEqual([]);
+
+    await t.mutation(api.lib.upsertSearchAttributes, {
+      workflowId: first,
+      workerId: "worker-1",
+      searchAttributes: { stage: null },
+    });
+    const workflow = await t.query(api.lib.getWorkflow, { workflowId: first });
+    expect(workflow?.tags).toEqual(["vip"]);
+    expect(workflow?.searchAttributes).toEqual({ customerId: "456" });
+
+    // Only the worker holding the workflow can change its attributes.
+    expect(
+      await t.mutation(api.lib.upsertSearchAttributes, {
+        workflowId: second,
+        workerId: "worker-1",
+        searchAttributes: { stage: "shipped" },
+      }),
+    ).toBe(false);
+    await expect(
+      t.mutation(api.lib.startWorkflow, {
+        name: "order",
+        input: {},
+        searchAttributes: { __tag: "x" },
+      }),
+    ).rejects.toThrow(/Invalid search attribute name/);
+    await expect(search({})).rejects.toThrow(/exactly one/);
+  });
+
+  test("getWorkflowHistory records each transition in order", async () => {
+    const t = initConvexTest();
+    const workflowId = await t.mutation(api.lib.startWorkflow, {
+      name: "order",
+      input: {},
+    });
+    const claim = (workerId: string) =>
+      t.mutation(api.lib.claimWorkflow, { workflowNames: ["order"], workerId });
+
+    await claim("worker-1");
+    const { stepId } = await t.mutation(api.lib.getOrCreateStep, {
+      workflowId,
+      stepName: "charge",
+      workerId: "worker-1",
+    });
+    await t.mutation(api.lib.completeStep, {
+      stepId,
+      workerId: "worker-1",
+      output: "ok",
+    });
+    await t.mutation(api.lib.sleepWorkflow, {
+      workflowId,
+      workerId: "worker-1",
+      sleepUntil: Date.now() + 1000,
+    });
+
+    vi.advanceTimersByTime(1000);
+    await claim("worker-1");
+    // worker-1 disappears; worker-2 takes over once the lease expires.
+    vi.advanceTimersByTime(31_000);
+    await claim("worker-2");
+    await t.mutation(api.lib.signalWorkflow, {
+      workflowId,
+      signal: "approved",
+      payload: null,
+    });
+    await t.mutation(api.lib.completeWorkflow, {
+      workflowId,
+      workerId: "worker-2",
+      output: null,
+    });
+
+    const first = await t.query(api.lib.getWorkflowHistory, {
+      workflowId,
+      paginationOpts: { numItems: 5, cursor: null },
+    });
+    expect(first.isDone).toBe(false);
+    const rest = await t.query(api.lib.getWorkflowHistory, {
+      workflowId,
+      paginationOpts: { numItems: 50, cursor: first.continueCursor },
+    });
+    expect(rest.isDone).toBe(true);
+
+    const events = [...first.page, ...rest.page].map(
+      ({ type, workerId, stepName }) => ({ type, workerId, stepName }),
+    );
+    expect(events).toEqual([
+      { type: "started" },
+      { type: "claimed", workerId: "worker-1" },
+      { type: "stepStarted", workerId: "worker-1", stepName: "charge" },
+      { type: "stepCompleted", workerId: "worker-1", stepName: "charge" },
+      { type: "slept", workerId: "worker-1" },
+      { type: "woke" },
+      { type: "claimed", workerId: "worker-1" },
+      { type: "leaseExpired", workerId: "worker-1" },
+      { type: "reclaimed", workerId: "worker-2" },
+      { type: "signalReceived" },
+      { type: "completed", workerId: "worker-2" },
+    ]);
+  });
+
+  test("registered workers heartbeat and show up in listWorkers", async () => {
+    const t = initConvexTest();
+    expect(
+      await t.mutation(api.lib.registerWorker, {
+        workerId: "worker-1",
+        hostname: "host-a",
+        pid: 123,
+        workflowNames: ["order"],
+        version: "abc123",
+        capacity: 4,
+      }),
+    ).toEqual("active");
+
+    vi.advanceTimersByTime(20_000);
+    expect(
+      await t.mutation(api.lib.workerHeartbeat, {
+        workerId: "worker-1",
+        running: 2,
+      }),
+    ).toEqual("active");
+    expect(
+      await t.mutation(api.lib.workerHeartbeat, {
+        workerId: "unknown",
+        running: 0,
+      }),
+    ).toBeNull();
+
+    vi.advanceTimersByTime(20_000);
+    const [worker] = await t.query(api.lib.listWorkers, {});
+    expect(worker).toMatchObject({
+      workerId: "worker-1",
+      hostname: "host-a",
+      pid: 123,
+      workflowNames: ["order"],
+      version: "abc123",
+      capacity: 4,
+      running: 2,
+      status: "active",
+      alive: true,
+    });
+
+    vi.advanceTimersByTime(20_000);
+    expect((await t.query(api.lib.listWorkers, {}))[0].alive).toBe(false);
+
+    await t.mutation(api.lib.unregisterWorker, { workerId: "worker-1" });
+    expect(await t.query(api.lib.listWorkers, {})).toEqual([]);
+    expect(
+      await t.query(api.lib.listWorkers, { includeStopped: true }),
+    ).toMatchObject([{ workerId: "worker-1", status: "stopped" }]);
+
+    // A day later, the next new worker removes it from the registry.
+    vi.advanceTimersByTime(24 * 60 * 60 * 1000);
+    await t.mutation(api.lib.registerWorker, {
+      workerId: "worker-2",
+      workflowNames: ["order"],
+      capacity: 1,
+    });
+    expect(
+      await t.query(api.lib.listWorkers, { includeStopped: true }),
+    ).toMatchObject([{ workerId: "worker-2" }]);
+  });
+
+  test("drained workers claim nothing new", async () => {
+    const t = initConvexTest();
+    await t.mutation(api.lib.registerWorker, {
+      workerId: "worker-1",
+      workflowNames: ["order"],
+      capacity: 1,
+    });
+    await t.mutation(api.lib.startWorkflow, { name: "order", input: {} });
+
+    expect(
+      await t.mutation(api.lib.drainWorker, { workerId: "worker-1" }),
+    ).toBe(true);
+    expect(
+      await t.mutation(api.lib.drainWorker, { workerId: "unknown" }),
+    ).toBe(false);
+    expect(
+      await t.mutation(api.lib.workerHeartbeat, {
+        workerId: "worker-1",
+        running: 0,
+      }),
+    ).toEqual("draining");
+    expect(
+      await t.mutation(api.lib.claimWorkflow, {
+        workflowNames: ["order"],
+        workerId: "worker-1",
+      }),
+    ).toBeNull();
+
+    // Re-registering (e.g. after a restart) doesn't undo the drain.
+    expect(
+      await t.mutation(api.lib.registerWorker, {
+        workerId: "worker-1",
+        workflowNames: ["order"],
+        capacity: 1,
+      }),
+    ).toEqual("draining");
+    expect(
+      await t.mutation(api.lib.claimWorkflow, {
+        workflowNames: ["order"],
+        workerId: "worker-2",
+      }),
+    ).not.toBeNull();
+  });
+
+  test("retention policies delete finished workflows with their rows", async () => {
+    vi.setSystemTime(0);
+    const HOUR = 60 * 60 * 1000;
+    const t = initConvexTest();
+    const runToCompletion = async (name: string) => {
+      const workflowId = await t.mutation(api.lib.startWorkflow, {
+        name,
+        input: {},
+        tags: ["cleanup"],
+      });
+      await t.mutation(api.lib.claimWorkflow, {
+        workflowNames: [name],
+        workerId: "worker-1",
+      });
+      const { stepId } = await t.mutation(api.lib.getOrCreateStep, {
+        workflowId,
+        stepName: "work",
+        workerId: "worker-1",
+      });
+      await t.mutation(api.lib.completeStep, {
+        stepId,
+        workerId: "worker-1",
+        output: null,
+      });
+      await t.mutation(api.lib.signalWorkflow, {
+        workflowId,
+        signal: "late",
+        payload: null,
+      });
+      await t.mutation(api.lib.completeWorkflow, {
+        workflowId,
+        workerId: "worker-1",
+        output: null,
+      });
+      return workflowId;
+    };
+
+    const order = await runToCompletion("order");
+    const audit = await runToCompletion("audit");
+    const pending = await t.mutation(api.lib.startWorkflow, {
+      name: "order",
+      input: {},
+    });
+
+    await t.mutation(api.lib.setRetentionPolicy, { retentionMs: 24 * HOUR });
+    await t.mutation(api.lib.setRetentionPolicy, {
+      workflowName: "audit",
+      retentionMs: 48 * HOUR,
+    });
+    expect(await t.query(api.lib.listRetentionPolicies, {})).toEqual([
+      { retentionMs: 24 * HOUR },
+      { workflowName: "audit", retentionMs: 48 * HOUR },
+    ]);
+
+    const exists = async (workflowId: typeof order) =>
+      (await t.query(api.lib.getWorkflow, { workflowId })) !== null;
+    for (let hour = 0; hour <= 25; hour++) {
+      vi.advanceTimersByTime(hour === 0 ? 0 : HOUR);
+      await t.finishInProgressScheduledFunctions();
+    }
+    expect(await exists(order)).toBe(false);
+    expect(await exists(audit)).toBe(true);
+    expect(await exists(pending)).toBe(true);
+    expect(
+      await t.query(api.lib.getWorkflowSteps, { workflowId: order }),
+    ).toEqual([]);
+    const history = await t.query(api.lib.getWorkflowHistory, {
+      workflowId: order,
+      paginationOpts: { numItems: 10, cursor: null },
+    });
+    expect(history.page).toEqual([]);
+    const tagged = await t.query(api.lib.searchWorkflows, {
+      tag: "cleanup",
+      paginationOpts: { numItems: 10, cursor: null },
+    });
+    expect(tagged.page.map((w) => w._id)).toEqual([audit]);
+
+    // Without a policy for its name, "audit" is kept forever.
+    await t.mutation(api.lib.setRetentionPolicy, {
+      workflowName: "audit",
+      retentionMs: null,
+    });
+    await t.mutation(api.lib.setRetentionPolicy, { retentionMs: null });
+    for (let hour = 0; hour < 48; hour++) {
+      vi.advanceTimersByTime(HOUR);
+      await t.finishInProgressScheduledFunctions();
+    }
+    expect(await exists(audit)).toBe(true);
+  });
+
+  test("retention keeps finished children until their parent finishes", async () => {
+    vi.setSystemTime(0);
+    const t = initConvexTest();
+    const parentId = await t.mutation(api.lib.startWorkflow, {
+      name: "parent",
+      input: {},
+    });
+    await t.mutation(api.lib.claimWorkflow, {
+      workflowNames: ["parent"],
+      workerId: "worker-1",
+    });
+    const startStep = await t.mutation(api.lib.getOrCreateStep, {
+      workflowId: parentId,
+      stepName: "__child:child-1",
+      workerId: "worker-1",
+    });
+    const childId = (await t.mutation(api.lib.startChildWorkflow, {
+      workflowId: parentId,
+      stepId: startStep.stepId,
+      workerId: "worker-1",
+      name: "child",
+      input: {},
+    }))!;
+    await t.mutation(api.lib.claimWorkflow, {
+      workflowNames: ["child"],
+      workerId: "worker-2",
+    });
+    await t.mutation(api.lib.completeWorkflow, {
+      workflowId: childId,
+      workerId: "worker-2",
+      output: null,
+    });
+    const otherId = await t.mutation(api.lib.startWorkflow, {
+      name: "other",
+      input: {},
+    });
+    await t.mutation(api.lib.cancelWorkflow, { workflowId: otherId });
+
+    vi.advanceTimersByTime(1000);
+    await t.mutation(api.lib.setRetentionPolicy, { retentionMs: 0 });
+    vi.advanceTimersByTime(0);
+    await t.finishInProgressScheduledFunctions();
+    expect(
+      await t.query(api.lib.getWorkflow, { workflowId: otherId }),
+    ).toBeNull();
+    expect(
+      await t.query(api.lib.getWorkflow, { workflowId: childId }),
+    ).not.toBeNull();
+
+    // Once the parent finishes, both go.
+    await t.mutation(api.lib.completeWorkflow, {
+      workflowId: parentId,
+      workerId: "worker-1",
+      output: null,
+    });
+    vi.advanceTimersByTime(60 * 60 * 1000);
+    await t.finishInProgressScheduledFunctions();
+    expect(
+      await t.query(api.lib.getWorkflow, { workflowId: childId }),
+    ).toBeNull();
+    expect(
+      await t.query(api.lib.getWorkflow, { workflowId: parentId }),
+    ).toBeNull();
+  });
+
+  test("retention cleanup reads a bounded batch and continues past skipped rows", async () => {
+    vi.setSystemTime(0);
+    const t = initConvexTest();
+    const parentId = await t.mutation(api.lib.startWorkflow, {
+      name: "parent",
+      input: {},
+    });
+    // More children than one batch reads, kept while their parent runs, and a
+    // row from before finishedAt was recorded.
+    const legacyId = await t.run(async (ctx) => {
+      for (let i = 0; i < 600; i++) {
+        await ctx.db.insert("workflows", {
+          name: "child",
+          status: "cancelled",
+          input: {},
+          parentWorkflowId: parentId,
+          finishedAt: 0,
+        });
+      }
+      return await ctx.db.insert("workflows", {
+        name: "child",
+        status: "cancelled",
+        input: {},
+      });
+    });
+    vi.advanceTimersByTime(1000);
+    const lastId = await t.run((ctx) =>
+      ctx.db.insert("workflows", {
+        name: "child",
+        status: "cancelled",
+        input: {},
+        finishedAt: 1000,
+      }),
+    );
+
+    vi.advanceTimersByTime(1000);
+    await t.mutation(api.lib.setRetentionPolicy, { retentionMs: 0 });
+    for (let run = 0; run < 4; run++) {
+      vi.advanceTimersByTime(0);
+      await t.finishInProgressScheduledFunctions();
+    }
+    expect(
+      await t.query(api.lib.getWorkflow, { workflowId: legacyId }),
+    ).toBeNull();
+    expect(
+      await t.query(api.lib.getWorkflow, { workflowId: lastId }),
+    ).toBeNull();
+    const children = await t.query(api.lib.listWorkflows, {
+      name: "child",
+      paginationOpts: { numItems: 1000, cursor: null },
+    });
+    expect(children.page).toHaveLength(600);
+  });
+
+  test("large values in file storage are served by URL and deleted with their rows", async () => {
+    const t = initConvexTest();
+    const store = (value: unknown) =>
+      t.run((ctx) => ctx.storage.store(new Blob([JSON.stringify(value)])));
+    const urlOf = (storageId: Id<"_storage">) =>
+      t.run((ctx) => ctx.storage.getUrl(storageId));
+
+    expect(await t.mutation(api.lib.generateUploadUrl, {})).toEqual(
+      expect.any(String),
+    );
+
+    const inputId = await store({ big: "input" });
+    const workflowId = await t.mutation(api.lib.startWorkflow, {
+      name: "big",
+      input: null,
+      inputStorageId: inputId,
+    });
+    const claimed = await t.mutation(api.lib.claimWorkflow, {
+      workflowNames: ["big"],
+      workerId: "worker-1",
+    });
+    expect(claimed?.input).toBeNull();
+    expect(claimed?.inputUrl).toBe(await urlOf(inputId));
+
+    const stepOutputId = await store({ big: "step" });
+    const step = await t.mutation(api.lib.getOrCreateStep, {
+      workflowId,
+      stepName: "fetch",
+      workerId: "worker-1",
+    });
+    await t.mutation(api.lib.completeStep, {
+      stepId: step.stepId,
+      workerId: "worker-1",
+      output: null,
+      outputStorageId: stepOutputId,
+    });
+    const replayed = await t.mutation(api.lib.getOrCreateStep, {
+      workflowId,
+      stepName: "fetch",
+      workerId: "worker-1",
+    });
+    expect(replayed.outputUrl).toBe(await urlOf(stepOutputId));
+
+    const outputId = await store({ big: "output" });
+    await t.mutation(api.lib.completeWorkflow, {
+      workflowId,
+      workerId: "worker-1",
+      output: null,
+      outputStorageId: outputId,
+    });
+    const workflow = await t.query(api.lib.getWorkflow, { workflowId });
+    expect(workflow?.inputUrl).toBe(await urlOf(inputId));
+    expect(workflow?.outputUrl).toBe(await urlOf(outputId));
+    const steps = await t.query(api.lib.getWorkflowSteps, { workflowId });
+    expect(steps[0].outputUrl).toBe(await urlOf(stepOutputId));
+
+    // Resetting discards the step and the workflow output, not the input.
+    await t.mutation(api.lib.resetWorkflow, {
+      workflowId,
+      toStepName: "fetch",
+    });
+    expect(await urlOf(stepOutputId)).toBeNull();
+    expect(await urlOf(outputId)).toBeNull();
+    expect(await urlOf(inputId)).not.toBeNull();
+    expect(
+      (await t.query(api.lib.getWorkflow, { workflowId }))?.outputUrl,
+    ).toBeUndefined();
+
+    // Retention deletes the input along with the workflow.
+    await t.mutation(api.lib.cancelWorkflow, { workflowId });
+    vi.advanceTimersByTime(1000);
+    await t.mutation(api.lib.setRetentionPolicy, { retentionMs: 0 });
+    vi.advanceTimersByTime(0);
+    await t.finishInProgressScheduledFunctions();
+    expect(await t.query(api.lib.getWorkflow, { workflowId })).toBeNull();
+    expect(await urlOf(inputId)).toBeNull();
+  });
+
+  test("uploads for rejected writes are deleted", async () => {
+    const t = initConvexTest();
+    const store = (value: unknown) =>
+      t.run((ctx) => ctx.storage.store(new Blob([JSON.stringify(value)])));
+    const urlOf = (storageId: Id<"_storage">) =>
+      t.run((ctx) => ctx.storage.getUrl(storageId));
+
+    const workflowId = await t.mutation(api.lib.startWorkflow, {
+      name: "big",
+      input: null,
+      workflowKey: "order-1",
+    });
+    const duplicateInputId = await store({ big: "input" });
+    expect(
+      await t.mutation(api.lib.startWorkflow, {
+        name: "big",
+        input: null,
+        inputStorageId: duplicateInputId,
+        workflowKey: "order-1",
+      }),
+    ).toEqual(workflowId);
+    expect(await urlOf(duplicateInputId)).toBeNull();
+
+    await t.mutation(api.lib.claimWorkflow, {
+      workflowNames: ["big"],
+      workerId: "worker-1",
+    });
+    const step = await t.mutation(api.lib.getOrCreateStep, {
+      workflowId,
+      stepName: "fetch",
+      workerId: "worker-1",
+    });
+    const staleStepOutputId = await store({ big: "step" });
+    expect(
+      await t.mutation(api.lib.completeStep, {
+        stepId: step.stepId,
+        workerId: "worker-2",
+        output: null,
+        outputStorageId: staleStepOutputId,
+      }),
+    ).toBe(false);
+    expect(await urlOf(staleStepOutputId)).toBeNull();
+
+    const staleOutputId = await store({ big: "output" });
+    expect(
+      await t.mutation(api.lib.completeWorkflow, {
+        workflowId,
+        workerId: "worker-2",
+        output: null,
+        outputStorageId: staleOutputId,
+      }),
+    ).toBe(false);
+    expect(await urlOf(staleOutputId)).toBeNull();
+
+    // A start that throws rolls back, so the caller deletes its upload.
+    const conflictInputId = await store({ big: "input" });
+    await expect(
+      t.mutation(api.lib.startWorkflow, {
+        name: "big",
+        input: null,
+        inputStorageId: conflictInputId,
+        workflowKey: "order-1",
+        onConflict: "fail",
+      }),
+    ).rejects.toThrow(/already exists/);
+    expect(await urlOf(conflictInputId)).not.toBeNull();
+    await t.mutation(api.lib.deleteUpload, { storageId: conflictInputId });
+    expect(await urlOf(conflictInputId)).toBeNull();
+  });
+
+  describe("schedules", () => {
+    const tick = async (t: ReturnType<typeof initConvexTest>, ms: number) => {
+      vi.advanceTimersByTime(ms);
+      await t.finishInProgressScheduledFunctions();
+    };
+
+    test("an interval schedule starts a workflow on every fire time", async () => {
+      vi.setSystemTime(0);
+      const t = initConvexTest();
+      const scheduleId = await t.mutation(api.lib.createSchedule, {
+        workflowName: "report",
+        input: { team: "sales" },
+        intervalMs: 60_000,
+        overlapPolicy: "allowAll",
+      });
+
+      await tick(t, 60_000);
+      await tick(t, 60_000);
+
+      const workflows = await listAllWorkflows(t);
+      expect(workflows).toHaveLength(2);
+      expect(workflows[0].input).toEqual({ team: "sales" });
+      const workflow = await t.query(api.lib.getWorkflow, {
+        workflowId: workflows[0]._id,
+      });
+      expect(workflow?.scheduleId).toEqual(scheduleId);
+
+      const [schedule] = await t.query(api.lib.listSchedules, {});
+      expect(schedule.lastRunAt).toEqual(120_000);
+      expect(schedule.nextRunAt).toEqual(180_000);
+    });
+
+    test("the skip overlap policy drops fire times while a run is unfinished", async () => {
+      vi.setSystemTime(0);
+      const t = initConvexTest();
+      await t.mutation(api.lib.createSchedule, {
+        workflowName: "report",
+        input: {},
+        intervalMs: 60_000,
+      });
+
+      await tick(t, 60_000);
+      await tick(t, 60_000);
+      expect(await listAllWorkflows(t)).toHaveLength(1);
+    });
+
+    test("the bufferOne overlap policy starts one run after the previous finishes", async () => {
+      vi.setSystemTime(0);
+      const t = initConvexTest();
+      await t.mutation(api.lib.createSchedule, {
+        workflowName: "report",
+        input: {},
+        intervalMs: 60_000,
+        overlapPolicy: "bufferOne",
+      });
+
+      await tick(t, 60_000);
+      await tick(t, 60_000);
+      await tick(t, 60_000);
+
+      const [first] = await listAllWorkflows(t);
+      const [buffered] = await t.query(api.lib.listSchedules, {});
+      expect(buffered.bufferedRunAt).toEqual(180_000);
+
+      await t.mutation(api.lib.claimWorkflow, {
+        workflowNames: ["report"],
+        workerId: "worker-1",
+      });
+      await t.mutation(api.lib.completeWorkflow, {
+        workflowId: first._id,
+        workerId: "worker-1",
+        output: null,
+      });
+
+      const workflows = await listAllWorkflows(t);
+      expect(workflows).toHaveLength(2);
+      expect(workflows[0].status).toEqual("pending");
+      const [schedule] = await t.query(api.lib.listSchedules, {});
+      expect(schedule.bufferedRunAt).toBeUndefined();
+      expect(schedule.lastWorkflowId).toEqual(workflows[0]._id);
+    });
+
+    test("catch-up policies handle missed fire times", async () => {
+      for (const [catchUpPolicy, expected] of [
+        ["skip", 1],
+        ["bufferOne", 2],
+        ["allowAll", 3],
+      ] as const) {
+        vi.setSystemTime(0);
+        const t = initConvexTest();
+        const scheduleId = await t.mutation(api.lib.createSchedule, {
+          workflowName: "report",
+          input: {},
+          intervalMs: 60_000,
+          catchUpPolicy,
+          overlapPolicy: "allowAll",
+        });
+
+        // The scheduler runs late, after three fire times have passed.
+        vi.setSystemTime(200_000);
+        await t.mutation(internal.lib.runSchedule, { scheduleId });
+
+        const workflows = await listAllWorkflows(t);
+        expect(workflows).toHaveLength(expected);
+        const [schedule] = await t.query(api.lib.listSchedules, {});
+        expect(schedule.nextRunAt).toEqual(240_000);
+      }
+    });
+
+    test("paused schedules don't fire and resume from the next fire time", async () => {
+      vi.setSystemTime(0);
+      const t = initConvexTest();
+      const scheduleId = await t.mutation(api.lib.createSchedule, {
+        workflowName: "report",
+        input: {},
+        intervalMs: 60_000,
+        overlapPolicy: "allowAll",
+      });
+
+      expect(await t.mutation(api.lib.pauseSchedule, { scheduleId })).toBe(
+        true,
+      );
+      await tick(t, 150_000);
+      expect(await listAllWorkflows(t)).toHaveLength(0);
+
+      expect(await t.mutation(api.lib.resumeSchedule, { scheduleId })).toBe(
+        true,
+      );
+      const [schedule] = await t.query(api.lib.listSchedules, {});
+      expect(schedule.paused).toBe(false);
+      expect(schedule.nextRunAt).toEqual(180_000);
+
+      await tick(t, 30_000);
+      expect(await listAllWorkflows(t)).toHaveLength(1);
+
+      expect(await t.mutation(api.lib.deleteSchedule, { scheduleId })).toBe(
+        true,
+      );
+      await tick(t, 60_000);
+      expect(await listAllWorkflows(t)).toHaveLength(1);
+      expect(await t.query(api.lib.listSchedules, {})).toHaveLength(0);
+    });
+
+    test("createSchedule validates its arguments", async () => {
+      const t = initConvexTest();
+      await expect(
+        t.mutation(api.lib.createSchedule, {
+          workflowName: "report",
+          input: {},
+        }),
+      ).rejects.toThrow(/exactly one of cron or intervalMs/);
+      await expect(
+        t.mutation(api.lib.createSchedule, {
+          workflowName: "report",
+          input: {},
+          cron: "every day",
+        }),
+      ).rejects.toThrow(/Invalid cron expression/);
+    });
+
+    test("a cron schedule fires at matching times", async () => {
+      vi.setSystemTime(new Date("2026-01-01T08:59:00Z"));
+      const t = initConvexTest();
+      await t.mutation(api.lib.createSchedule, {
+        workflowName: "report",
+        input: {},
+        cron: "0 9 * * *",
+      });
+
+      await tick(t, 60_000);
+      expect(await listAllWorkflows(t)).toHaveLength(1);
+      const [schedule] = await t.query(api.lib.listSchedules, {});
+      expect(schedule.nextRunAt).toEqual(
+        new Date("2026-01-02T09:00:00Z").getTime(),
+      );
+    });
+  });
 });
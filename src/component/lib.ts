@@ -1,10 +1,57 @@
-import { v } from "convex/values";
-import { mutation, query } from "./_generated/server.js";
-import { workflowStatus, stepStatus } from "./schema.js";
-
-// How long before a claimed workflow is considered abandoned (30 seconds)
-const CLAIM_TIMEOUT_MS = 30_000;
+import {
+  paginationOptsValidator,
+  paginationResultValidator,
+} from "convex/server";
+import { v, type Infer, type ObjectType } from "convex/values";
+import { internal } from "./_generated/api.js";
+import type { Doc, Id, TableNames } from "./_generated/dataModel.js";
+import {
+  internalMutation,
+  mutation,
+  query,
+  type MutationCtx,
+  type QueryCtx,
+} from "./_generated/server.js";
+import { nextCronTime, parseCron } from "./cron.js";
+import {
+  workflowStatus,
+  stepStatus,
+  workflowKeyConflictPolicy,
+  parentClosePolicy,
+  schedulePolicy,
+  workerStatus,
+  workflowEventType,
+  searchAttributeValue,
+  workflowQueryStatus,
+  workflowUpdateStatus,
+} from "./schema.js";
+
+// How long a claim lasts without a heartbeat, unless the worker asks for a
+// different lease (30 seconds)
+const DEFAULT_LEASE_DURATION_MS = 30_000;
+// How long after its last heartbeat a worker is reported as not alive.
+const WORKER_TIMEOUT_MS = 30_000;
+// How long after its last heartbeat a worker is removed from the registry (a
+// day), and how many such workers one registration removes at most.
+const WORKER_RETENTION_MS = 24 * 60 * 60 * 1000;
+const WORKER_PRUNE_BATCH_SIZE = 100;
 const ALL_WORKFLOWS = "*";
+const DEFAULT_TASK_QUEUE = "default";
+// Most workflows one claimWorkflows call hands out.
+const CLAIM_BATCH_SIZE = 100;
+// workflowSearchAttributes key that tags are stored under.
+const TAG_KEY = "__tag";
+// Most missed fire times a schedule starts runs for at once ("allowAll").
+const MAX_CATCH_UP_RUNS = 100;
+// How often each retention policy looks for expired workflows (hourly), and
+// how many rows one cleanup run deletes at most.
+const RETENTION_CLEANUP_INTERVAL_MS = 60 * 60 * 1000;
+const RETENTION_CLEANUP_BATCH_SIZE = 500;
+// Most queries of each kind (owned/unowned per name) a worker is handed at once.
+const PENDING_QUERIES_LIMIT = 50;
+// How long a query and its answer are kept unless the caller asks for a
+// different timeout (30 seconds).
+const DEFAULT_QUERY_TIMEOUT_MS = 30_000;
 
 // ============================================================================
 // Workflow Management
@@ -17,316 +64,601 @@ export const startWorkflow = mutation({
   args: {
     name: v.string(),
     input: v.any(),
+    // Set when the input was uploaded to file storage (input is then null).
+    inputStorageId: v.optional(v.id("_storage")),
+    // Idempotency key: starting the same workflow name with the same key
+    // again is resolved by `onConflict` instead of inserting a duplicate.
+    workflowKey: v.optional(v.string()),
+    // Defaults to "returnExisting".
+    onConflict: v.optional(workflowKeyConflictPolicy),
+    // Higher runs first among pending workflows; defaults to 0.
+    priority: v.optional(v.number()),
+    // Task queue whose workers may claim the run; defaults to "default".
+    taskQueue: v.optional(v.string()),
+    // Searchable labels and key/value attributes (searchWorkflows).
+    tags: v.optional(v.array(v.string())),
+    searchAttributes: v.optional(v.record(v.string(), searchAttributeValue)),
   },
   returns: v.id("workflows"),
   handler: async (ctx, args) => {
+    checkSearchAttributeKeys(args.searchAttributes ?? {});
+    if (args.workflowKey !== undefined) {
+      // Mutations are serializable, so reading the index here is enough to
+      // keep concurrent starts with the same key from both inserting.
+      const existing = await ctx.db
+        .query("workflows")
+        .withIndex("name_workflowKey", (q) =>
+          q.eq("name", args.name).eq("workflowKey", args.workflowKey),
+        )
+        .order("desc")
+        .first();
+      if (existing) {
+        const policy = args.onConflict ?? "returnExisting";
+        const finished =
+          existing.status === "completed" ||
+          existing.status === "failed" ||
+          existing.status === "cancelled";
+        if (policy === "fail") {
+          // Throwing rolls back deleting the input here, so the caller
+          // discards it with deleteUpload.
+          throw new Error(
+            `Workflow "${args.name}" with key "${args.workflowKey}" already exists: ${existing._id}`,
+          );
+        }
+        if (policy === "returnExisting" || !finished) {
+          await deleteUnusedUpload(ctx, args.inputStorageId);
+          return existing._id;
+        }
+      }
+    }
+
     const workflowId = await ctx.db.insert("workflows", {
       name: args.name,
       status: "pending",
       input: args.input,
+      inputStorageId: args.inputStorageId,
+      workflowKey: args.workflowKey,
+      priority: args.priority ?? 0,
+      taskQueue: storedTaskQueue(args.taskQueue),
+      tags: args.tags,
+      searchAttributes: args.searchAttributes,
     });
+    for (const tag of new Set(args.tags)) {
+      await ctx.db.insert("workflowSearchAttributes", {
+        workflowId,
+        key: TAG_KEY,
+        value: tag,
+      });
+    }
+    for (const [key, value] of Object.entries(args.searchAttributes ?? {})) {
+      await ctx.db.insert("workflowSearchAttributes", {
+        workflowId,
+        key,
+        value,
+      });
+    }
+    await recordEvent(ctx, workflowId, { type: "started" });
     return workflowId;
   },
 });
 
+const claimArgs = {
+  workflowNames: v.array(v.string()), // which workflow types this worker handles
+  workerId: v.string(),
+  // workflow name -> version of the definition this worker runs
+  workflowVersions: v.optional(v.record(v.string(), v.string())),
+  // Task queues to claim from; defaults to ["default"].
+  taskQueues: v.optional(v.array(v.string())),
+  // How long a claim lasts without a heartbeat: per workflow name, else
+  // leaseDurationMs, else 30 seconds.
+  leaseDurationMs: v.optional(v.number()),
+  workflowLeaseDurationsMs: v.optional(v.record(v.string(), v.number())),
+};
+
+const claimedWorkflow = v.object({
+  workflowId: v.id("workflows"),
+  name: v.string(),
+  input: v.any(),
+  // Where to download the input from, if it's in file storage.
+  inputUrl: v.optional(v.string()),
+});
+
 /**
  * Claim a pending workflow for execution
  * Returns null if no workflow available or claim failed
+ *
+ * Workflows pinned to a version (see `workflowVersions`) are only handed to
+ * workers that registered the same version for that workflow name.
  */
 export const claimWorkflow = mutation({
-  args: {
-    workflowNames: v.array(v.string()), // which workflow types this worker handles
-    workerId: v.string(),
-  },
-  returns: v.union(
-    v.null(),
-    v.object({
-      workflowId: v.id("workflows"),
-      name: v.string(),
-      input: v.any(),
-    }),
-  ),
+  args: claimArgs,
+  returns: v.union(v.null(), claimedWorkflow),
   handler: async (ctx, args) => {
-    const now = Date.now();
-    const leaseExpiresAt = now + CLAIM_TIMEOUT_MS;
-
-    const claimAll = args.workflowNames.includes(ALL_WORKFLOWS);
-
-    if (claimAll) {
-      // Prefer waking due sleeping workflows first so timers aren't delayed.
-      const sleepingGlobal = await ctx.db
-        .query("workflows")
-        .withIndex("status_sleepUntil", (q) =>
-          q.eq("status", "sleeping").lte("sleepUntil", now),
-        )
-        .first();
-
-      if (sleepingGlobal) {
-        await ctx.db.patch(sleepingGlobal._id, {
-          status: "running",
-          claimedBy: args.workerId,
-          claimedAt: now,
-          leaseExpiresAt,
-          sleepUntil: undefined,
-        });
-        return {
-          workflowId: sleepingGlobal._id,
-          name: sleepingGlobal.name,
-          input: sleepingGlobal.input,
-        };
-      }
+    const worker = await getWorker(ctx, args.workerId);
+    if (worker?.status === "draining") return null;
+    return await claimNext(ctx, args);
+  },
+});
 
-      // Then claim the oldest pending workflow globally (FIFO).
-      const pending = await ctx.db
-        .query("workflows")
-        .withIndex("status", (q) => q.eq("status", "pending"))
-        .order("asc")
-        .first();
+/**
+ * Claim up to `max` workflows (at most 100) in one transaction, in the order
+ * repeated claimWorkflow calls would hand them out. Returns fewer (possibly
+ * none) when there isn't enough work.
+ */
+export const claimWorkflows = mutation({
+  args: { ...claimArgs, max: v.number() },
+  returns: v.array(claimedWorkflow),
+  handler: async (ctx, { max, ...args }) => {
+    if (!Number.isInteger(max) || max <= 0) {
+      throw new Error(`max must be a positive integer, got ${max}`);
+    }
+    max = Math.min(max, CLAIM_BATCH_SIZE);
+    const worker = await getWorker(ctx, args.workerId);
+    if (worker?.status === "draining") return [];
+
+    const claimed: Array<Infer<typeof claimedWorkflow>> = [];
+    while (claimed.length < max) {
+      const next = await claimNext(ctx, args);
+      if (!next) break;
+      claimed.push(next);
+    }
+    return claimed;
+  },
+});
 
-      if (pending) {
-        await ctx.db.patch(pending._id, {
-          status: "running",
-          claimedBy: args.workerId,
-          claimedAt: now,
-          leaseExpiresAt,
-        });
-        return {
-          workflowId: pending._id,
-          name: pending.name,
-          input: pending.input,
-        };
-      }
+/**
+ * Claim the next workflow for `args.workerId`: due timers first, then pending
+ * runs by priority, then runs whose lease expired.
+ */
+async function claimNext(ctx: MutationCtx, args: ObjectType<typeof claimArgs>) {
+  const now = Date.now();
+  const capped = await cappedWorkflowNames(ctx);
+  const lanes = claimLanes(
+    args.workflowNames,
+    args.workflowVersions,
+    args.taskQueues,
+  );
+  // Names at their concurrency limit can't start more runs, but their expired
+  // runs still count towards the limit, so reclaiming them uses every lane.
+  const uncappedLanes = await uncappedClaimLanes(ctx, lanes, capped);
+
+  const claim = async (workflow: Doc<"workflows">) => {
+    // Pin the run to the worker's version of the definition on first claim.
+    const version = workflow.version ?? args.workflowVersions?.[workflow.name];
+    const leaseDurationMs =
+      args.workflowLeaseDurationsMs?.[workflow.name] ??
+      args.leaseDurationMs ??
+      DEFAULT_LEASE_DURATION_MS;
+    checkLeaseDuration(leaseDurationMs);
+    if (workflow.status !== "running") {
+      await countRunning(ctx, workflow.name, 1);
+    }
+    if (workflow.status === "sleeping" || workflow.status === "waiting") {
+      await recordEvent(ctx, workflow._id, {
+        type: "woke",
+        until: workflow.sleepUntil,
+      });
+    }
+    if (workflow.status === "running") {
+      await recordEvent(ctx, workflow._id, {
+        type: "leaseExpired",
+        workerId: workflow.claimedBy ?? undefined,
+      });
+    }
+    await recordEvent(ctx, workflow._id, {
+      type: workflow.status === "running" ? "reclaimed" : "claimed",
+      workerId: args.workerId,
+    });
+    await ctx.db.patch(workflow._id, {
+      status: "running",
+      claimedBy: args.workerId,
+      claimedAt: now,
+      leaseExpiresAt: now + leaseDurationMs,
+      sleepUntil: undefined,
+      version,
+    });
+    return {
+      workflowId: workflow._id,
+      name: workflow.name,
+      input: workflow.input,
+      inputUrl: await storageUrl(ctx, workflow.inputStorageId),
+    };
+  };
 
-      // Reclaim the most-expired lease globally.
-      const expired = await ctx.db
-        .query("workflows")
-        .withIndex("status_leaseExpiresAt", (q) =>
-          q.eq("status", "running").lt("leaseExpiresAt", now),
-        )
-        .order("asc")
-        .first();
+  // Prefer waking due sleeping workflows first so timers aren't delayed.
+  // Use an index on sleepUntil to avoid starvation (no `take(25)` scan).
+  let bestSleeping: Doc<"workflows"> | null = null;
 
-      if (expired) {
-        await ctx.db.patch(expired._id, {
-          claimedBy: args.workerId,
-          claimedAt: now,
-          leaseExpiresAt,
-        });
-        return {
-          workflowId: expired._id,
-          name: expired.name,
-          input: expired.input,
-        };
-      }
+  for (const lane of uncappedLanes) {
+    const sleeping = await dueSleepingInLane(ctx, lane, now);
 
-      // Back-compat: reclaim older running workflows missing leaseExpiresAt.
-      const legacyRunning = await ctx.db
-        .query("workflows")
-        .withIndex("status", (q) => q.eq("status", "running"))
-        .order("asc")
-        .take(25);
-      for (const workflow of legacyRunning) {
-        if (
-          workflow.leaseExpiresAt == null &&
-          workflow.claimedAt != null &&
-          now - workflow.claimedAt > CLAIM_TIMEOUT_MS
-        ) {
-          await ctx.db.patch(workflow._id, {
-            claimedBy: args.workerId,
-            claimedAt: now,
-            leaseExpiresAt,
-          });
-          return {
-            workflowId: workflow._id,
-            name: workflow.name,
-            input: workflow.input,
-          };
-        }
-      }
+    if (!sleeping) continue;
 
-      return null;
+    if (!bestSleeping) {
+      bestSleeping = sleeping;
+      continue;
     }
 
-    // Prefer waking due sleeping workflows first so timers aren't delayed.
-    // Use an index on sleepUntil to avoid starvation (no `take(25)` scan).
-    let bestSleeping: Awaited<ReturnType<typeof ctx.db.get>> | null = null;
+    const sleepingUntil = sleeping.sleepUntil ?? Number.POSITIVE_INFINITY;
+    const bestUntil = bestSleeping.sleepUntil ?? Number.POSITIVE_INFINITY;
 
-    for (const name of args.workflowNames) {
-      const sleeping = await ctx.db
-        .query("workflows")
-        .withIndex("name_status_sleepUntil", (q) =>
-          q.eq("name", name).eq("status", "sleeping").lte("sleepUntil", now),
-        )
-        .first();
+    if (
+      sleepingUntil < bestUntil ||
+      (sleepingUntil === bestUntil &&
+        sleeping._creationTime < bestSleeping._creationTime)
+    ) {
+      bestSleeping = sleeping;
+    }
+  }
 
-      if (!sleeping) continue;
+  if (bestSleeping) {
+    return await claim(bestSleeping);
+  }
 
-      if (!bestSleeping) {
-        bestSleeping = sleeping;
-        continue;
-      }
+  // Then try to find a pending workflow (highest priority first, then oldest
+  // first - global FIFO across requested names).
+  let nextPending: Doc<"workflows"> | null = null;
 
-      const sleepingUntil = sleeping.sleepUntil ?? Number.POSITIVE_INFINITY;
-      const bestUntil = bestSleeping.sleepUntil ?? Number.POSITIVE_INFINITY;
+  for (const lane of uncappedLanes) {
+    const pending = await nextPendingInLane(ctx, lane);
 
+    if (pending) {
+      // Runs created before priorities existed have none; they rank as 0.
+      const priority = pending.priority ?? 0;
+      const bestPriority = nextPending?.priority ?? 0;
       if (
-        sleepingUntil < bestUntil ||
-        (sleepingUntil === bestUntil &&
-          sleeping._creationTime < bestSleeping._creationTime)
+        !nextPending ||
+        priority > bestPriority ||
+        (priority === bestPriority &&
+          pending._creationTime < nextPending._creationTime)
       ) {
-        bestSleeping = sleeping;
+        nextPending = pending;
       }
     }
+  }
 
-    if (bestSleeping) {
-      await ctx.db.patch(bestSleeping._id, {
-        status: "running",
-        claimedBy: args.workerId,
-        claimedAt: now,
-        leaseExpiresAt,
-        sleepUntil: undefined,
-      });
-      return {
-        workflowId: bestSleeping._id,
-        name: bestSleeping.name,
-        input: bestSleeping.input,
-      };
-    }
+  if (nextPending) {
+    return await claim(nextPending);
+  }
 
-    // Then try to find a pending workflow (oldest first - global FIFO across requested names).
-    // Query each name and find the globally oldest pending workflow.
-    let oldestPending: Awaited<ReturnType<typeof ctx.db.get>> | null = null;
+  // Check for abandoned workflows (claimed but timed out) - oldest first globally
+  let oldestExpired: Doc<"workflows"> | null = null;
 
-    for (const name of args.workflowNames) {
-      const pending = await ctx.db
-        .query("workflows")
-        .withIndex("name_status", (q) =>
-          q.eq("name", name).eq("status", "pending"),
-        )
-        .order("asc")
-        .first();
+  for (const lane of lanes) {
+    const expired = await oldestExpiredInLane(ctx, lane, now);
 
-      if (pending) {
+    if (expired) {
+      if (
+        !oldestExpired ||
+        expired._creationTime < oldestExpired._creationTime
+      ) {
+        oldestExpired = expired;
+      }
+    }
+  }
+
+  if (oldestExpired) {
+    return await claim(oldestExpired);
+  }
+
+  // Back-compat: reclaim older running workflows missing leaseExpiresAt.
+  // These predate versioning and task queues, so only unversioned lanes on
+  // the default queue can pick them up.
+  let oldestLegacy: Doc<"workflows"> | null = null;
+
+  for (const lane of lanes) {
+    if (lane.version !== undefined || lane.taskQueue !== undefined) continue;
+
+    const { name } = lane;
+    const legacyRunning =
+      name === null
+        ? await ctx.db
+            .query("workflows")
+            .withIndex("status", (q) => q.eq("status", "running"))
+            .order("asc")
+            .take(25)
+        : await ctx.db
+            .query("workflows")
+            .withIndex("name_status", (q) =>
+              q.eq("name", name).eq("status", "running"),
+            )
+            .order("asc")
+            .take(25);
+
+    for (const workflow of legacyRunning) {
+      if (
+        workflow.leaseExpiresAt == null &&
+        workflow.claimedAt != null &&
+        now - workflow.claimedAt > DEFAULT_LEASE_DURATION_MS
+      ) {
         if (
-          !oldestPending ||
-          pending._creationTime < oldestPending._creationTime
+          !oldestLegacy ||
+          workflow._creationTime < oldestLegacy._creationTime
         ) {
-          oldestPending = pending;
+          oldestLegacy = workflow;
         }
       }
     }
+  }
 
-    if (oldestPending) {
-      await ctx.db.patch(oldestPending._id, {
-        status: "running",
-        claimedBy: args.workerId,
-        claimedAt: now,
-        leaseExpiresAt,
-      });
-      return {
-        workflowId: oldestPending._id,
-        name: oldestPending.name,
-        input: oldestPending.input,
-      };
-    }
-
-    // Check for abandoned workflows (claimed but timed out) - oldest first globally
-    let oldestExpired: Awaited<ReturnType<typeof ctx.db.get>> | null = null;
+  if (oldestLegacy) {
+    return await claim(oldestLegacy);
+  }
 
-    for (const name of args.workflowNames) {
-      const expired = await ctx.db
-        .query("workflows")
-        .withIndex("name_status_leaseExpiresAt", (q) =>
-          q.eq("name", name).eq("status", "running").lt("leaseExpiresAt", now),
-        )
-        .order("asc")
-        .first();
+  return null;
+}
 
-      if (expired) {
-        if (
-          !oldestExpired ||
-          expired._creationTime < oldestExpired._creationTime
-        ) {
-          oldestExpired = expired;
-        }
-      }
-    }
+function checkLeaseDuration(leaseDurationMs: number) {
+  if (!(leaseDurationMs > 0)) {
+    throw new Error(`Lease duration must be positive, got ${leaseDurationMs}`);
+  }
+}
 
-    if (oldestExpired) {
-      await ctx.db.patch(oldestExpired._id, {
-        claimedBy: args.workerId,
-        claimedAt: now,
-        leaseExpiresAt,
+/**
+ * A slice of the workflows table a worker can claim from: one workflow name
+ * (or every name, for "*") at one pinned version (or unpinned runs), on one
+ * task queue (undefined for the default queue).
+ */
+type ClaimLane = {
+  name: string | null;
+  version: string | undefined;
+  taskQueue: string | undefined;
+};
+
+function claimLanes(
+  workflowNames: string[],
+  workflowVersions: Record<string, string> | undefined,
+  taskQueues: string[] | undefined,
+): ClaimLane[] {
+  const namedLanes = workflowNames.includes(ALL_WORKFLOWS)
+    ? // Unpinned runs of any name, plus runs pinned to a version we registered.
+      [
+        { name: null, version: undefined },
+        ...Object.entries(workflowVersions ?? {}).map(([name, version]) => ({
+          name,
+          version,
+        })),
+      ]
+    : workflowNames.flatMap((name) => {
+        const version = workflowVersions?.[name];
+        return version === undefined
+          ? [{ name, version }]
+          : [
+              { name, version: undefined },
+              { name, version },
+            ];
       });
-      return {
-        workflowId: oldestExpired._id,
-        name: oldestExpired.name,
-        input: oldestExpired.input,
-      };
-    }
+  const queues =
+    taskQueues && taskQueues.length > 0 ? taskQueues : [DEFAULT_TASK_QUEUE];
+  return queues.flatMap((queue) =>
+    namedLanes.map((lane) => ({ ...lane, taskQueue: storedTaskQueue(queue) })),
+  );
+}
 
-    // Back-compat: reclaim older running workflows missing leaseExpiresAt
-    let oldestLegacy: Awaited<ReturnType<typeof ctx.db.get>> | null = null;
-
-    for (const name of args.workflowNames) {
-      const legacyRunning = await ctx.db
-        .query("workflows")
-        .withIndex("name_status", (q) =>
-          q.eq("name", name).eq("status", "running"),
-        )
-        .order("asc")
-        .take(25);
+/**
+ * Runs on the default task queue are stored without a taskQueue, so runs
+ * created before task queues existed stay on it.
+ */
+function storedTaskQueue(taskQueue: string | undefined) {
+  return taskQueue === DEFAULT_TASK_QUEUE ? undefined : taskQueue;
+}
 
-      for (const workflow of legacyRunning) {
-        if (
-          workflow.leaseExpiresAt == null &&
-          workflow.claimedAt != null &&
-          now - workflow.claimedAt > CLAIM_TIMEOUT_MS
-        ) {
-          if (
-            !oldestLegacy ||
-            workflow._creationTime < oldestLegacy._creationTime
-          ) {
-            oldestLegacy = workflow;
-          }
-        }
-      }
+/**
+ * The workflow in a lane whose timer fired first: a sleeping workflow, or one
+ * waiting on a signal whose timeout has passed.
+ */
+async function dueSleepingInLane(ctx: QueryCtx, lane: ClaimLane, now: number) {
+  const { name } = lane;
+  let due: Doc<"workflows"> | null = null;
+  for (const status of ["sleeping", "waiting"] as const) {
+    // The lower bound skips signal waits without a timeout (no sleepUntil).
+    const candidate =
+      name === null
+        ? await ctx.db
+            .query("workflows")
+            .withIndex("taskQueue_version_status_sleepUntil", (q) =>
+              q
+                .eq("taskQueue", lane.taskQueue)
+                .eq("version", lane.version)
+                .eq("status", status)
+                .gte("sleepUntil", 0)
+                .lte("sleepUntil", now),
+            )
+            .first()
+        : await ctx.db
+            .query("workflows")
+            .withIndex("taskQueue_name_version_status_sleepUntil", (q) =>
+              q
+                .eq("taskQueue", lane.taskQueue)
+                .eq("name", name)
+                .eq("version", lane.version)
+                .eq("status", status)
+                .gte("sleepUntil", 0)
+                .lte("sleepUntil", now),
+            )
+            .first();
+    if (candidate && (!due || candidate.sleepUntil! < due.sleepUntil!)) {
+      due = candidate;
     }
+  }
+  return due;
+}
 
-    if (oldestLegacy) {
-      await ctx.db.patch(oldestLegacy._id, {
-        claimedBy: args.workerId,
-        claimedAt: now,
-        leaseExpiresAt,
+/**
+ * The pending workflow in a lane to run next: highest priority first, oldest
+ * first among equal priorities.
+ */
+async function nextPendingInLane(ctx: QueryCtx, lane: ClaimLane) {
+  // Descending order puts the newest of equal priorities first, so the oldest
+  // run is looked up separately.
+  const above = await pendingInLane(ctx, lane, { gt: 0 }).order("desc").first();
+  if (above) {
+    return await pendingInLane(ctx, lane, { eq: above.priority }).first();
+  }
+
+  // Runs created before priorities existed have none, which the index sorts
+  // below every number; they rank as priority 0.
+  const zero = await pendingInLane(ctx, lane, { eq: 0 }).first();
+  const legacy = await pendingInLane(ctx, lane, { eq: undefined }).first();
+  if (zero && legacy) {
+    return legacy._creationTime < zero._creationTime ? legacy : zero;
+  }
+  if (zero || legacy) return zero ?? legacy;
+
+  const below = await pendingInLane(ctx, lane, { gt: undefined, lt: 0 })
+    .order("desc")
+    .first();
+  if (!below) return null;
+  return await pendingInLane(ctx, lane, { eq: below.priority }).first();
+}
+
+type PriorityRange =
+  | { eq: number | undefined }
+  | { gt: number | undefined; lt?: number };
+
+function pendingInLane(
+  ctx: QueryCtx,
+  lane: ClaimLane,
+  priority: PriorityRange,
+) {
+  const { name } = lane;
+  if (name === null) {
+    return ctx.db
+      .query("workflows")
+      .withIndex("taskQueue_version_status_priority", (q) => {
+        const pending = q
+          .eq("taskQueue", lane.taskQueue)
+          .eq("version", lane.version)
+          .eq("status", "pending");
+        if ("eq" in priority) return pending.eq("priority", priority.eq);
+        const above = pending.gt("priority", priority.gt);
+        return priority.lt === undefined
+          ? above
+          : above.lt("priority", priority.lt);
       });
-      return {
-        workflowId: oldestLegacy._id,
-        name: oldestLegacy.name,
-        input: oldestLegacy.input,
-      };
+  }
+  return ctx.db
+    .query("workflows")
+    .withIndex("taskQueue_name_version_status_priority", (q) => {
+      const pending = q
+        .eq("taskQueue", lane.taskQueue)
+        .eq("name", name)
+        .eq("version", lane.version)
+        .eq("status", "pending");
+      if ("eq" in priority) return pending.eq("priority", priority.eq);
+      const above = pending.gt("priority", priority.gt);
+      return priority.lt === undefined
+        ? above
+        : above.lt("priority", priority.lt);
+    });
+}
+
+/**
+ * The lanes that can start runs, without names at their concurrency limit.
+ * While any name is capped, "*" lanes are split into a lane per name on their
+ * task queue, so the capped names' backlog isn't read at all.
+ */
+async function uncappedClaimLanes(
+  ctx: QueryCtx,
+  lanes: ClaimLane[],
+  capped: ReadonlySet<string>,
+) {
+  if (capped.size === 0) return lanes;
+  const uncapped: ClaimLane[] = [];
+  for (const lane of lanes) {
+    const names =
+      lane.name === null
+        ? await workflowNamesOnQueue(ctx, lane.taskQueue)
+        : [lane.name];
+    for (const name of names) {
+      if (!capped.has(name)) uncapped.push({ ...lane, name });
     }
+  }
+  return uncapped;
+}
 
-    return null;
-  },
-});
+/**
+ * Every workflow name with runs on a task queue, reading one row per name.
+ */
+async function workflowNamesOnQueue(
+  ctx: QueryCtx,
+  taskQueue: string | undefined,
+) {
+  const names: string[] = [];
+  for (;;) {
+    const last = names[names.length - 1];
+    const next = await ctx.db
+      .query("workflows")
+      .withIndex("taskQueue_name_version_status_priority", (q) =>
+        last === undefined
+          ? q.eq("taskQueue", taskQueue)
+          : q.eq("taskQueue", taskQueue).gt("name", last),
+      )
+      .first();
+    if (!next) return names;
+    names.push(next.name);
+  }
+}
+
+async function oldestExpiredInLane(
+  ctx: QueryCtx,
+  lane: ClaimLane,
+  now: number,
+) {
+  const { name } = lane;
+  if (name === null) {
+    return await ctx.db
+      .query("workflows")
+      .withIndex("taskQueue_version_status_leaseExpiresAt", (q) =>
+        q
+          .eq("taskQueue", lane.taskQueue)
+          .eq("version", lane.version)
+          .eq("status", "running")
+          .lt("leaseExpiresAt", now),
+      )
+      .order("asc")
+      .first();
+  }
+  return await ctx.db
+    .query("workflows")
+    .withIndex("taskQueue_name_version_status_leaseExpiresAt", (q) =>
+      q
+        .eq("taskQueue", lane.taskQueue)
+        .eq("name", name)
+        .eq("version", lane.version)
+        .eq("status", "running")
+        .lt("leaseExpiresAt", now),
+    )
+    .order("asc")
+    .first();
+}
 
 /**
  * Heartbeat to keep a workflow claim alive
+ * Returns "cancelled" if the workflow was cancelled while the worker held it,
+ * so the worker can stop executing.
  */
 export const heartbeat = mutation({
   args: {
     workflowId: v.id("workflows"),
     workerId: v.string(),
+    // How far to extend the lease; defaults to 30 seconds.
+    leaseDurationMs: v.optional(v.number()),
   },
-  returns: v.boolean(),
+  returns: v.union(v.boolean(), v.literal("cancelled")),
   handler: async (ctx, args) => {
+    const leaseDurationMs = args.leaseDurationMs ?? DEFAULT_LEASE_DURATION_MS;
+    checkLeaseDuration(leaseDurationMs);
     const workflow = await ctx.db.get(args.workflowId);
+    if (workflow?.status === "cancelled") {
+      return "cancelled" as const;
+    }
     if (!workflow || workflow.claimedBy !== args.workerId) {
       return false;
     }
     await ctx.db.patch(args.workflowId, {
       claimedAt: Date.now(),
-      leaseExpiresAt: Date.now() + CLAIM_TIMEOUT_MS,
+      leaseExpiresAt: Date.now() + leaseDurationMs,
     });
     return true;
   },
@@ -340,20 +672,31 @@ export const completeWorkflow = mutation({
     workflowId: v.id("workflows"),
     workerId: v.string(),
     output: v.any(),
+    // Set when the output was uploaded to file storage (output is then null).
+    outputStorageId: v.optional(v.id("_storage")),
   },
   returns: v.boolean(),
   handler: async (ctx, args) => {
     const workflow = await ctx.db.get(args.workflowId);
     if (!workflow || workflow.claimedBy !== args.workerId) {
+      await deleteUnusedUpload(ctx, args.outputStorageId);
       return false;
     }
+    await countRunning(ctx, workflow.name, -1);
     await ctx.db.patch(args.workflowId, {
       status: "completed",
       output: args.output,
+      outputStorageId: args.outputStorageId,
+      finishedAt: Date.now(),
       claimedBy: null,
       claimedAt: null,
       leaseExpiresAt: null,
     });
+    await recordEvent(ctx, args.workflowId, {
+      type: "completed",
+      workerId: args.workerId,
+    });
+    await closeWorkflow(ctx, workflow);
     return true;
   },
 });
@@ -373,13 +716,21 @@ export const failWorkflow = mutation({
     if (!workflow || workflow.claimedBy !== args.workerId) {
       return false;
     }
+    await countRunning(ctx, workflow.name, -1);
     await ctx.db.patch(args.workflowId, {
       status: "failed",
       error: args.error,
+      finishedAt: Date.now(),
       claimedBy: null,
       claimedAt: null,
       leaseExpiresAt: null,
     });
+    await recordEvent(ctx, args.workflowId, {
+      type: "failed",
+      workerId: args.workerId,
+      error: args.error,
+    });
+    await closeWorkflow(ctx, workflow);
     return true;
   },
 });
@@ -403,6 +754,7 @@ export const sleepWorkflow = mutation({
     ) {
       return false;
     }
+    await countRunning(ctx, workflow.name, -1);
     await ctx.db.patch(args.workflowId, {
       status: "sleeping",
       sleepUntil: args.sleepUntil,
@@ -410,10 +762,284 @@ export const sleepWorkflow = mutation({
       claimedAt: null,
       leaseExpiresAt: null,
     });
+    await recordEvent(ctx, args.workflowId, {
+      type: "slept",
+      workerId: args.workerId,
+      until: args.sleepUntil,
+    });
+    return true;
+  },
+});
+
+/**
+ * Cancel a workflow.
+ *
+ * Pending, sleeping and waiting workflows are cancelled immediately. A running
+ * workflow is also marked cancelled and its claim released; the worker holding
+ * it learns about the cancellation from its next heartbeat and stops executing
+ * (its step writes are rejected in the meantime).
+ *
+ * Child workflows started with the "cancel" parent-close policy are cancelled
+ * along with it.
+ *
+ * Returns false if the workflow doesn't exist or already finished.
+ */
+export const cancelWorkflow = mutation({
+  args: {
+    workflowId: v.id("workflows"),
+    reason: v.optional(v.string()),
+  },
+  returns: v.boolean(),
+  handler: async (ctx, args) => {
+    const workflow = await ctx.db.get(args.workflowId);
+    if (!workflow) return false;
+    return await cancel(ctx, workflow, args.reason ?? "Workflow cancelled");
+  },
+});
+
+function isFinished(workflow: Doc<"workflows">) {
+  return (
+    workflow.status === "completed" ||
+    workflow.status === "failed" ||
+    workflow.status === "cancelled"
+  );
+}
+
+async function cancel(
+  ctx: MutationCtx,
+  workflow: Doc<"workflows">,
+  reason: string,
+) {
+  if (isFinished(workflow)) return false;
+  if (workflow.status === "running") {
+    await countRunning(ctx, workflow.name, -1);
+  }
+  await ctx.db.patch(workflow._id, {
+    status: "cancelled",
+    error: reason,
+    finishedAt: Date.now(),
+    claimedBy: null,
+    claimedAt: null,
+    leaseExpiresAt: null,
+    sleepUntil: undefined,
+    waitingForSignalName: undefined,
+    waitingForSignalStepId: undefined,
+    waitingForChildId: undefined,
+  });
+  await recordEvent(ctx, workflow._id, { type: "cancelled", error: reason });
+  await closeWorkflow(ctx, workflow);
+  return true;
+}
+
+/**
+ * Bookkeeping after a workflow finished: start its schedule's buffered run,
+ * wake its parent if it's waiting on this workflow, and apply the parent-close
+ * policy to unfinished children.
+ */
+async function closeWorkflow(ctx: MutationCtx, workflow: Doc<"workflows">) {
+  if (workflow.scheduleId) {
+    await startBufferedRun(ctx, workflow);
+  }
+
+  if (workflow.parentWorkflowId) {
+    const parent = await ctx.db.get(workflow.parentWorkflowId);
+    if (
+      parent?.status === "waiting" &&
+      parent.waitingForChildId === workflow._id
+    ) {
+      await ctx.db.patch(parent._id, {
+        status: "pending",
+        waitingForChildId: undefined,
+      });
+      await recordEvent(ctx, parent._id, {
+        type: "woke",
+        childWorkflowId: workflow._id,
+      });
+    }
+  }
+
+  const children = await ctx.db
+    .query("workflows")
+    .withIndex("parentWorkflowId", (q) =>
+      q.eq("parentWorkflowId", workflow._id),
+    )
+    .collect();
+  for (const child of children) {
+    if ((child.parentClosePolicy ?? "cancel") === "cancel") {
+      await cancel(ctx, child, "Parent workflow closed");
+    }
+  }
+
+  // Updates the run didn't get to can't be handled anymore.
+  const updates = await ctx.db
+    .query("workflowUpdates")
+    .withIndex("workflowId_stepId", (q) => q.eq("workflowId", workflow._id))
+    .collect();
+  for (const update of updates) {
+    if (update.status === "pending" || update.status === "delivered") {
+      await ctx.db.patch(update._id, {
+        status: "rejected",
+        error: "Workflow finished before handling the update",
+      });
+    }
+  }
+}
+
+/**
+ * Retry a failed workflow from the point of failure.
+ *
+ * Completed steps are kept so replay returns their recorded results; failed
+ * (and otherwise unfinished) steps are removed so they run again. The
+ * workflow goes back to `pending` for any worker to claim.
+ *
+ * Returns false if the workflow doesn't exist or isn't failed.
+ */
+export const retryWorkflow = mutation({
+  args: {
+    workflowId: v.id("workflows"),
+  },
+  returns: v.boolean(),
+  handler: async (ctx, args) => {
+    const workflow = await ctx.db.get(args.workflowId);
+    if (!workflow || workflow.status !== "failed") {
+      return false;
+    }
+
+    const steps = await ctx.db
+      .query("steps")
+      .withIndex("workflowId", (q) => q.eq("workflowId", args.workflowId))
+      .collect();
+
+    await discardSteps(
+      ctx,
+      workflow,
+      steps.filter((step) => step.status !== "completed"),
+    );
+    await recordEvent(ctx, args.workflowId, { type: "retried" });
+    return true;
+  },
+});
+
+/**
+ * Reset a workflow to an earlier step.
+ *
+ * The named step and every step created after it are discarded, and the
+ * workflow is re-queued so replay runs them again. Earlier steps keep their
+ * recorded results, so their side effects aren't repeated. Signals consumed by
+ * discarded steps are returned to the inbox.
+ *
+ * Works in any status; if a worker holds the workflow its claim is released and
+ * its further writes are rejected. Returns false if the workflow or step
+ * doesn't exist.
+ */
+export const resetWorkflow = mutation({
+  args: {
+    workflowId: v.id("workflows"),
+    toStepName: v.string(),
+  },
+  returns: v.boolean(),
+  handler: async (ctx, args) => {
+    const workflow = await ctx.db.get(args.workflowId);
+    if (!workflow) return false;
+
+    const target = await ctx.db
+      .query("steps")
+      .withIndex("workflowId_name", (q) =>
+        q.eq("workflowId", args.workflowId).eq("name", args.toStepName),
+      )
+      .first();
+    if (!target) return false;
+
+    const steps = await ctx.db
+      .query("steps")
+      .withIndex("workflowId", (q) =>
+        q
+          .eq("workflowId", args.workflowId)
+          .gte("_creationTime", target._creationTime),
+      )
+      .collect();
+
+    await discardSteps(ctx, workflow, steps);
+    await recordEvent(ctx, args.workflowId, {
+      type: "reset",
+      stepName: args.toStepName,
+    });
     return true;
   },
 });
 
+/**
+ * Delete the given steps of a workflow and put it back to `pending` so replay
+ * re-runs them.
+ */
+async function discardSteps(
+  ctx: MutationCtx,
+  workflow: Doc<"workflows">,
+  steps: Doc<"steps">[],
+) {
+  const discarded = new Set<Id<"steps">>();
+  const stepIdsByName = { ...(workflow.stepIdsByName ?? {}) };
+  for (const step of steps) {
+    await deleteStep(ctx, step);
+    discarded.add(step._id);
+    if (stepIdsByName[step.name] === step._id) {
+      delete stepIdsByName[step.name];
+    }
+  }
+
+  // Hand signals consumed by discarded steps back to the inbox.
+  const signals = await ctx.db
+    .query("signals")
+    .withIndex("workflowId", (q) => q.eq("workflowId", workflow._id))
+    .collect();
+  for (const signal of signals) {
+    if (signal.consumedByStepId && discarded.has(signal.consumedByStepId)) {
+      await ctx.db.patch(signal._id, {
+        consumedAt: null,
+        consumedByStepId: undefined,
+      });
+    }
+  }
+
+  // Hand updates applied ahead of discarded steps back, so the re-run applies
+  // them again (without answering them twice).
+  const updates = await ctx.db
+    .query("workflowUpdates")
+    .withIndex("workflowId_stepId", (q) => q.eq("workflowId", workflow._id))
+    .collect();
+  for (const update of updates) {
+    if (update.stepId && discarded.has(update.stepId)) {
+      await ctx.db.patch(update._id, {
+        stepId: undefined,
+        deliveredAt: undefined,
+        status: update.status === "delivered" ? "pending" : update.status,
+      });
+    }
+  }
+
+  if (workflow.status === "running") {
+    await countRunning(ctx, workflow.name, -1);
+  }
+  if (workflow.outputStorageId) {
+    await ctx.storage.delete(workflow.outputStorageId);
+  }
+  await ctx.db.patch(workflow._id, {
+    status: "pending",
+    error: undefined,
+    output: undefined,
+    outputStorageId: undefined,
+    finishedAt: undefined,
+    stepIdsByName,
+    claimedBy: null,
+    claimedAt: null,
+    leaseExpiresAt: null,
+    sleepUntil: undefined,
+    waitingForSignalName: undefined,
+    waitingForSignalStepId: undefined,
+    waitingForChildId: undefined,
+  });
+}
+
 /**
  * Send a signal to a workflow (stored durably and can wake a waiting workflow).
  */
@@ -436,6 +1062,10 @@ export const signalWorkflow = mutation({
       createdAt: now,
       consumedAt: null,
     });
+    await recordEvent(ctx, args.workflowId, {
+      type: "signalReceived",
+      signalName: args.signal,
+    });
 
     if (
       workflow.status === "waiting" &&
@@ -443,6 +1073,11 @@ export const signalWorkflow = mutation({
     ) {
       await ctx.db.patch(args.workflowId, {
         status: "pending",
+        sleepUntil: undefined,
+      });
+      await recordEvent(ctx, args.workflowId, {
+        type: "woke",
+        signalName: args.signal,
       });
     }
 
@@ -466,11 +1101,23 @@ export const getWorkflow = query({
       status: workflowStatus,
       input: v.any(),
       output: v.optional(v.any()),
+      // Download URLs for an input or output kept in file storage.
+      inputUrl: v.optional(v.string()),
+      outputUrl: v.optional(v.string()),
       error: v.optional(v.string()),
       claimedBy: v.optional(v.union(v.string(), v.null())),
       sleepUntil: v.optional(v.number()),
       waitingForSignalName: v.optional(v.string()),
       waitingForSignalStepId: v.optional(v.id("steps")),
+      waitingForChildId: v.optional(v.id("workflows")),
+      parentWorkflowId: v.optional(v.id("workflows")),
+      scheduleId: v.optional(v.id("schedules")),
+      priority: v.optional(v.number()),
+      taskQueue: v.optional(v.string()),
+      version: v.optional(v.string()),
+      workflowKey: v.optional(v.string()),
+      tags: v.optional(v.array(v.string())),
+      searchAttributes: v.optional(v.record(v.string(), searchAttributeValue)),
     }),
   ),
   handler: async (ctx, args) => {
@@ -483,24 +1130,43 @@ export const getWorkflow = query({
       status: workflow.status,
       input: workflow.input,
       output: workflow.output,
+      inputUrl: await storageUrl(ctx, workflow.inputStorageId),
+      outputUrl: await storageUrl(ctx, workflow.outputStorageId),
       error: workflow.error,
       claimedBy: workflow.claimedBy,
       sleepUntil: workflow.sleepUntil,
       waitingForSignalName: workflow.waitingForSignalName,
       waitingForSignalStepId: workflow.waitingForSignalStepId,
+      waitingForChildId: workflow.waitingForChildId,
+      parentWorkflowId: workflow.parentWorkflowId,
+      scheduleId: workflow.scheduleId,
+      priority: workflow.priority,
+      taskQueue: workflow.taskQueue ?? DEFAULT_TASK_QUEUE,
+      version: workflow.version,
+      workflowKey: workflow.workflowKey,
+      tags: workflow.tags,
+      searchAttributes: workflow.searchAttributes,
     };
   },
 });
 
 /**
- * List workflows (for dashboard)
+ * List workflows (for dashboard), newest first unless `order` is "asc".
+ *
+ * Filter by workflow `name`, `status` and creation time (`createdAfter`
+ * inclusive, `createdBefore` exclusive); any combination is served by an
+ * index.
  */
 export const listWorkflows = query({
   args: {
+    paginationOpts: paginationOptsValidator,
+    name: v.optional(v.string()),
     status: v.optional(workflowStatus),
-    limit: v.optional(v.number()),
+    createdAfter: v.optional(v.number()),
+    createdBefore: v.optional(v.number()),
+    order: v.optional(v.union(v.literal("asc"), v.literal("desc"))),
   },
-  returns: v.array(
+  returns: paginationResultValidator(
     v.object({
       _id: v.id("workflows"),
       _creationTime: v.number(),
@@ -512,25 +1178,61 @@ export const listWorkflows = query({
     }),
   ),
   handler: async (ctx, args) => {
-    const limit = args.limit ?? 100;
+    const { name, status } = args;
+    const after = args.createdAfter ?? 0;
+    const before = args.createdBefore ?? Number.MAX_VALUE;
+
+    const workflows =
+      name !== undefined && status !== undefined
+        ? ctx.db
+            .query("workflows")
+            .withIndex("name_status", (q) =>
+              q
+                .eq("name", name)
+                .eq("status", status)
+                .gte("_creationTime", after)
+                .lt("_creationTime", before),
+            )
+        : name !== undefined
+          ? ctx.db
+              .query("workflows")
+              .withIndex("name", (q) =>
+                q
+                  .eq("name", name)
+                  .gte("_creationTime", after)
+                  .lt("_creationTime", before),
+              )
+          : status !== undefined
+            ? ctx.db
+                .query("workflows")
+                .withIndex("status", (q) =>
+                  q
+                    .eq("status", status)
+                    .gte("_creationTime", after)
+                    .lt("_creationTime", before),
+                )
+            : ctx.db
+                .query("workflows")
+                .withIndex("by_creation_time", (q) =>
+                  q.gte("_creationTime", after).lt("_creationTime", before),
+                );
+
+    const result = await workflows
+      .order(args.order ?? "desc")
+      .paginate(args.paginationOpts);
 
-    const workflows = args.status
-      ? await ctx.db
-          .query("workflows")
-          .withIndex("status", (q) => q.eq("status", args.status!))
-          .order("desc")
-          .take(limit)
-      : await ctx.db.query("workflows").order("desc").take(limit);
-
-    return workflows.map((w) => ({
-      _id: w._id,
-      _creationTime: w._creationTime,
-      name: w.name,
-      status: w.status,
-      input: w.input,
-      output: w.output,
-      error: w.error,
-    }));
+    return {
+      ...result,
+      page: result.page.map((w) => ({
+        _id: w._id,
+        _creationTime: w._creationTime,
+        name: w.name,
+        status: w.status,
+        input: w.input,
+        output: w.output,
+        error: w.error,
+      })),
+    };
   },
 });
 
@@ -538,6 +1240,14 @@ export const listWorkflows = query({
 // Step Management
 // ============================================================================
 
+// An update recorded with a step, to apply before it (see updateWorkflow).
+const stepUpdate = v.object({
+  updateId: v.id("workflowUpdates"),
+  updateName: v.string(),
+  args: v.optional(v.any()),
+  status: workflowUpdateStatus,
+});
+
 /**
  * Get or create a step for a workflow
  * Returns the step status and result if already completed
@@ -552,8 +1262,16 @@ export const getOrCreateStep = mutation({
     stepId: v.id("steps"),
     status: stepStatus,
     output: v.optional(v.any()),
+    // Where to download the output from, if it's in file storage.
+    outputUrl: v.optional(v.string()),
     error: v.optional(v.string()),
     sleepUntil: v.optional(v.number()),
+    attempts: v.number(),
+    retryAt: v.optional(v.number()),
+    // Progress recorded by an earlier attempt of the step.
+    heartbeatDetails: v.optional(v.any()),
+    // Updates to apply before the step, in order.
+    updates: v.optional(v.array(stepUpdate)),
     isNew: v.boolean(),
   }),
   handler: async (ctx, args) => {
@@ -570,12 +1288,51 @@ export const getOrCreateStep = mutation({
     if (existingStepId) {
       const step = await ctx.db.get(existingStepId);
       if (step) {
-        return {
-          stepId: step._id,
-          status: step.status,
-          output: step.output,
-          error: step.error,
-          sleepUntil: step.sleepUntil,
+        // A step waiting for its retry becomes running again once it's due.
+        if (
+          step.status === "pending" &&
+          (step.retryAt == null || step.retryAt <= Date.now())
+        ) {
+          const attempts = step.attempts + 1;
+          await ctx.db.patch(step._id, {
+            status: "running",
+            attempts,
+            retryAt: undefined,
+            startedAt: Date.now(),
+          });
+          await recordEvent(ctx, args.workflowId, {
+            type: "stepStarted",
+            workerId: args.workerId,
+            stepName: args.stepName,
+            attempt: attempts,
+          });
+          return {
+            stepId: step._id,
+            status: "running" as const,
+            output: undefined,
+            error: step.error,
+            sleepUntil: undefined,
+            attempts,
+            retryAt: undefined,
+            heartbeatDetails: step.heartbeatDetails,
+            updates: await updatesForStep(ctx, args.workflowId, step._id, true),
+            isNew: false,
+          };
+        }
+        // Only the steps the run is at take new updates; finished ones replay
+        // the updates recorded with them.
+        const atStep = step.status === "running" || step.status === "pending";
+        return {
+          stepId: step._id,
+          status: step.status,
+          output: step.output,
+          outputUrl: await storageUrl(ctx, step.outputStorageId),
+          error: step.error,
+          sleepUntil: step.sleepUntil,
+          attempts: step.attempts,
+          retryAt: step.retryAt,
+          heartbeatDetails: step.heartbeatDetails,
+          updates: await updatesForStep(ctx, args.workflowId, step._id, atStep),
           isNew: false,
         };
       }
@@ -596,6 +1353,12 @@ export const getOrCreateStep = mutation({
         [args.stepName]: stepId,
       },
     });
+    await recordEvent(ctx, args.workflowId, {
+      type: "stepStarted",
+      workerId: args.workerId,
+      stepName: args.stepName,
+      attempt: 1,
+    });
 
     return {
       stepId,
@@ -603,11 +1366,67 @@ export const getOrCreateStep = mutation({
       output: undefined,
       error: undefined,
       sleepUntil: undefined,
+      attempts: 1,
+      retryAt: undefined,
+      updates: await updatesForStep(ctx, args.workflowId, stepId, true),
       isNew: true,
     };
   },
 });
 
+/**
+ * The updates recorded with a step, in delivery order. With `deliver`, the
+ * workflow's updates that weren't delivered yet are recorded with it first.
+ */
+async function updatesForStep(
+  ctx: MutationCtx,
+  workflowId: Id<"workflows">,
+  stepId: Id<"steps">,
+  deliver: boolean,
+) {
+  if (deliver) {
+    const undelivered = await ctx.db
+      .query("workflowUpdates")
+      .withIndex("workflowId_stepId", (q) =>
+        q.eq("workflowId", workflowId).eq("stepId", undefined),
+      )
+      .collect();
+    const now = Date.now();
+    for (const update of undelivered) {
+      if (update.status === "rejected") continue;
+      await ctx.db.patch(update._id, {
+        stepId,
+        deliveredAt: now,
+        status: update.status === "pending" ? "delivered" : update.status,
+      });
+    }
+  }
+  const updates = await ctx.db
+    .query("workflowUpdates")
+    .withIndex("workflowId_stepId", (q) =>
+      q.eq("workflowId", workflowId).eq("stepId", stepId),
+    )
+    .collect();
+  return stepUpdates(updates);
+}
+
+/**
+ * The updates recorded with one step in the order to apply them, or undefined
+ * if there are none.
+ */
+function stepUpdates(updates: Doc<"workflowUpdates">[]) {
+  if (updates.length === 0) return undefined;
+  // Stable, so updates delivered together stay in the order they were sent.
+  return [...updates]
+    .sort((a, b) => a.deliveredAt! - b.deliveredAt!)
+    .map((update) => ({
+      updateId: update._id,
+      updateName: update.updateName,
+      args: update.args,
+      status: update.status,
+    }));
+}
+
 /**
  * Atomically schedule a workflow sleep and associate it with a running step.
  *
@@ -651,6 +1470,7 @@ export const scheduleSleep = mutation({
       await ctx.db.patch(step._id, { sleepUntil: chosenSleepUntil });
     }
 
+    await countRunning(ctx, workflow.name, -1);
     await ctx.db.patch(args.workflowId, {
       status: "sleeping",
       sleepUntil: chosenSleepUntil,
@@ -658,6 +1478,88 @@ export const scheduleSleep = mutation({
       claimedAt: null,
       leaseExpiresAt: null,
     });
+    await recordEvent(ctx, args.workflowId, {
+      type: "slept",
+      workerId: args.workerId,
+      stepName: step.name,
+      until: chosenSleepUntil,
+    });
+    return true;
+  },
+});
+
+/**
+ * Atomically record a failed step attempt that should be retried and park the
+ * workflow until the retry is due.
+ *
+ * The step is moved back to `pending` with a durable `retryAt`, so the retry
+ * survives worker crashes: the workflow sleeps until `retryAt` like it does for
+ * ctx.sleep(), and getOrCreateStep() starts the next attempt on replay.
+ */
+export const scheduleStepRetry = mutation({
+  args: {
+    workflowId: v.id("workflows"),
+    stepId: v.id("steps"),
+    workerId: v.string(),
+    error: v.string(),
+    retryAt: v.number(),
+  },
+  returns: v.boolean(),
+  handler: async (ctx, args) => {
+    const workflow = await ctx.db.get(args.workflowId);
+    if (
+      !workflow ||
+      workflow.status !== "running" ||
+      workflow.claimedBy !== args.workerId
+    ) {
+      return false;
+    }
+
+    const step = await ctx.db.get(args.stepId);
+    if (
+      !step ||
+      step.workflowId !== args.workflowId ||
+      (step.status !== "running" && step.status !== "pending")
+    ) {
+      return false;
+    }
+
+    // If the retry was already scheduled, keep the original time.
+    const chosenRetryAt =
+      step.status === "pending" && step.retryAt != null
+        ? step.retryAt
+        : args.retryAt;
+
+    await ctx.db.patch(step._id, {
+      status: "pending",
+      error: args.error,
+      retryAt: chosenRetryAt,
+    });
+    if (step.status === "running") {
+      await recordEvent(ctx, args.workflowId, {
+        type: "stepFailed",
+        workerId: args.workerId,
+        stepName: step.name,
+        attempt: step.attempts,
+        error: args.error,
+        until: chosenRetryAt,
+      });
+    }
+
+    await countRunning(ctx, workflow.name, -1);
+    await ctx.db.patch(args.workflowId, {
+      status: "sleeping",
+      sleepUntil: chosenRetryAt,
+      claimedBy: null,
+      claimedAt: null,
+      leaseExpiresAt: null,
+    });
+    await recordEvent(ctx, args.workflowId, {
+      type: "slept",
+      workerId: args.workerId,
+      stepName: step.name,
+      until: chosenRetryAt,
+    });
     return true;
   },
 });
@@ -665,6 +1567,10 @@ export const scheduleSleep = mutation({
 /**
  * Wait for a signal. If available, returns it (and marks it consumed). If not,
  * parks the workflow in `waiting` status and releases the claim.
+ *
+ * With `timeoutMs`, the deadline is stored on the marker step the first time
+ * and the parked workflow is woken when it passes. Once the deadline has passed
+ * without a signal, the marker step is failed and `timedOut` is returned.
  */
 export const waitForSignal = mutation({
   args: {
@@ -672,10 +1578,12 @@ export const waitForSignal = mutation({
     stepId: v.id("steps"),
     workerId: v.string(),
     signalName: v.string(),
+    timeoutMs: v.optional(v.number()),
   },
   returns: v.union(
     v.object({ kind: v.literal("waiting") }),
     v.object({ kind: v.literal("signaled"), payload: v.any() }),
+    v.object({ kind: v.literal("timedOut") }),
   ),
   handler: async (ctx, args) => {
     const now = Date.now();
@@ -713,22 +1621,282 @@ export const waitForSignal = mutation({
         consumedAt: now,
         consumedByStepId: args.stepId,
       });
+      await recordEvent(ctx, args.workflowId, {
+        type: "signalConsumed",
+        workerId: args.workerId,
+        stepName: step.name,
+        signalName: args.signalName,
+      });
       return { kind: "signaled" as const, payload: signal.payload };
     }
 
+    const timeoutAt =
+      step.sleepUntil ??
+      (args.timeoutMs != null ? now + args.timeoutMs : undefined);
+
+    if (timeoutAt != null && timeoutAt <= now) {
+      const error = `Timed out waiting for signal "${args.signalName}"`;
+      await ctx.db.patch(step._id, {
+        status: "failed",
+        error,
+        sleepUntil: undefined,
+        completedAt: now,
+      });
+      await recordEvent(ctx, args.workflowId, {
+        type: "stepFailed",
+        workerId: args.workerId,
+        stepName: step.name,
+        attempt: step.attempts,
+        error,
+      });
+      return { kind: "timedOut" as const };
+    }
+
+    if (timeoutAt != null && step.sleepUntil == null) {
+      await ctx.db.patch(step._id, { sleepUntil: timeoutAt });
+    }
+
+    await countRunning(ctx, workflow.name, -1);
     await ctx.db.patch(args.workflowId, {
       status: "waiting",
       waitingForSignalName: args.signalName,
       waitingForSignalStepId: args.stepId,
+      sleepUntil: timeoutAt,
       claimedBy: null,
       claimedAt: null,
       leaseExpiresAt: null,
     });
+    await recordEvent(ctx, args.workflowId, {
+      type: "waiting",
+      workerId: args.workerId,
+      stepName: step.name,
+      signalName: args.signalName,
+      until: timeoutAt,
+    });
+
+    return { kind: "waiting" as const };
+  },
+});
+
+/**
+ * Start a child workflow from a running parent (ctx.startChild()).
+ *
+ * The child is inserted and the parent's marker step completed with the child's
+ * id in the same transaction, so replay returns the same child instead of
+ * starting another one. Returns null if the worker no longer holds the parent.
+ */
+export const startChildWorkflow = mutation({
+  args: {
+    workflowId: v.id("workflows"),
+    stepId: v.id("steps"),
+    workerId: v.string(),
+    name: v.string(),
+    input: v.any(),
+    inputStorageId: v.optional(v.id("_storage")),
+    parentClosePolicy: v.optional(parentClosePolicy),
+    // Defaults to the parent's priority.
+    priority: v.optional(v.number()),
+    // Defaults to the parent's task queue.
+    taskQueue: v.optional(v.string()),
+  },
+  returns: v.union(v.null(), v.id("workflows")),
+  handler: async (ctx, args) => {
+    const workflow = await ctx.db.get(args.workflowId);
+    if (
+      !workflow ||
+      workflow.status !== "running" ||
+      workflow.claimedBy !== args.workerId
+    ) {
+      await deleteUnusedUpload(ctx, args.inputStorageId);
+      return null;
+    }
+
+    const step = await ctx.db.get(args.stepId);
+    if (!step || step.workflowId !== args.workflowId) {
+      await deleteUnusedUpload(ctx, args.inputStorageId);
+      return null;
+    }
+    if (step.status === "completed") {
+      await deleteUnusedUpload(ctx, args.inputStorageId);
+      return step.output as Id<"workflows">;
+    }
+    if (step.status !== "running") {
+      await deleteUnusedUpload(ctx, args.inputStorageId);
+      return null;
+    }
+
+    const childId = await ctx.db.insert("workflows", {
+      name: args.name,
+      status: "pending",
+      input: args.input,
+      inputStorageId: args.inputStorageId,
+      parentWorkflowId: args.workflowId,
+      parentClosePolicy: args.parentClosePolicy,
+      priority: args.priority ?? workflow.priority ?? 0,
+      taskQueue:
+        args.taskQueue !== undefined
+          ? storedTaskQueue(args.taskQueue)
+          : workflow.taskQueue,
+    });
+    await recordEvent(ctx, childId, { type: "started" });
+    await ctx.db.patch(step._id, {
+      status: "completed",
+      output: childId,
+      completedAt: Date.now(),
+    });
+    return childId;
+  },
+});
+
+/**
+ * Wait for a child workflow to finish (ctx.awaitChild()). If it already
+ * finished, its result is recorded on the marker step and returned. If not,
+ * parks the parent in `waiting` status and releases the claim; the parent is
+ * re-queued when the child completes, fails or is cancelled.
+ */
+export const awaitChildWorkflow = mutation({
+  args: {
+    workflowId: v.id("workflows"),
+    stepId: v.id("steps"),
+    workerId: v.string(),
+    childWorkflowId: v.id("workflows"),
+  },
+  returns: v.union(
+    v.object({ kind: v.literal("waiting") }),
+    v.object({
+      kind: v.literal("completed"),
+      output: v.any(),
+      // Set when the child's output is in file storage. The step is left
+      // running for the worker to complete with its own copy.
+      outputUrl: v.optional(v.string()),
+    }),
+    v.object({ kind: v.literal("failed"), error: v.string() }),
+  ),
+  handler: async (ctx, args) => {
+    const workflow = await ctx.db.get(args.workflowId);
+    if (
+      !workflow ||
+      workflow.status !== "running" ||
+      workflow.claimedBy !== args.workerId
+    ) {
+      return { kind: "waiting" as const };
+    }
+
+    const step = await ctx.db.get(args.stepId);
+    if (
+      !step ||
+      step.workflowId !== args.workflowId ||
+      step.status !== "running"
+    ) {
+      return { kind: "waiting" as const };
+    }
+
+    const child = await ctx.db.get(args.childWorkflowId);
+    if (!child || child.parentWorkflowId !== args.workflowId) {
+      throw new Error("Not a child of this workflow");
+    }
+
+    const now = Date.now();
+    if (child.status === "completed") {
+      if (child.outputStorageId) {
+        return {
+          kind: "completed" as const,
+          output: null,
+          outputUrl: await storageUrl(ctx, child.outputStorageId),
+        };
+      }
+      await ctx.db.patch(step._id, {
+        status: "completed",
+        output: child.output,
+        completedAt: now,
+      });
+      return { kind: "completed" as const, output: child.output };
+    }
+    if (child.status === "failed" || child.status === "cancelled") {
+      const error = child.error ?? `Child workflow ${child.status}`;
+      await ctx.db.patch(step._id, {
+        status: "failed",
+        error,
+        completedAt: now,
+      });
+      return { kind: "failed" as const, error };
+    }
 
+    await countRunning(ctx, workflow.name, -1);
+    await ctx.db.patch(args.workflowId, {
+      status: "waiting",
+      waitingForChildId: args.childWorkflowId,
+      claimedBy: null,
+      claimedAt: null,
+      leaseExpiresAt: null,
+    });
+    await recordEvent(ctx, args.workflowId, {
+      type: "waiting",
+      workerId: args.workerId,
+      stepName: step.name,
+      childWorkflowId: args.childWorkflowId,
+    });
     return { kind: "waiting" as const };
   },
 });
 
+/**
+ * Decide (once, durably) whether a workflow run takes a patched code path.
+ *
+ * The decision is stored as a completed marker step (ctx.patched()). When the
+ * marker is first reached, the run is considered new at this point if the
+ * worker has already visited every step the run has recorded; if the run has
+ * recorded other steps, its history was written by code that predates the
+ * patch.
+ */
+export const recordPatch = mutation({
+  args: {
+    workflowId: v.id("workflows"),
+    workerId: v.string(),
+    stepName: v.string(),
+    // Steps the worker has visited in this execution so far.
+    visitedStepNames: v.array(v.string()),
+  },
+  returns: v.boolean(),
+  handler: async (ctx, args) => {
+    const workflow = await ctx.db.get(args.workflowId);
+    if (
+      !workflow ||
+      workflow.status !== "running" ||
+      workflow.claimedBy !== args.workerId
+    ) {
+      throw new Error("Workflow not claimed by worker");
+    }
+
+    const stepIdsByName = workflow.stepIdsByName ?? {};
+    const existingStepId = stepIdsByName[args.stepName];
+    if (existingStepId) {
+      const marker = await ctx.db.get(existingStepId);
+      if (marker) return marker.output === true;
+    }
+
+    const visited = new Set(args.visitedStepNames);
+    const patched = Object.keys(stepIdsByName).every((name) =>
+      visited.has(name),
+    );
+
+    const now = Date.now();
+    const stepId = await ctx.db.insert("steps", {
+      workflowId: args.workflowId,
+      name: args.stepName,
+      status: "completed",
+      output: patched,
+      attempts: 1,
+      startedAt: now,
+      completedAt: now,
+    });
+    await ctx.db.patch(args.workflowId, {
+      stepIdsByName: { ...stepIdsByName, [args.stepName]: stepId },
+    });
+    return patched;
+  },
+});
+
 /**
  * Complete a step successfully
  */
@@ -737,11 +1905,14 @@ export const completeStep = mutation({
     stepId: v.id("steps"),
     workerId: v.string(),
     output: v.any(),
+    // Set when the output was uploaded to file storage (output is then null).
+    outputStorageId: v.optional(v.id("_storage")),
   },
   returns: v.boolean(),
   handler: async (ctx, args) => {
     const step = await ctx.db.get(args.stepId);
     if (!step || step.status !== "running") {
+      await deleteUnusedUpload(ctx, args.outputStorageId);
       return false;
     }
     const workflow = await ctx.db.get(step.workflowId);
@@ -750,14 +1921,55 @@ export const completeStep = mutation({
       workflow.status !== "running" ||
       workflow.claimedBy !== args.workerId
     ) {
+      await deleteUnusedUpload(ctx, args.outputStorageId);
       return false;
     }
     await ctx.db.patch(args.stepId, {
       status: "completed",
       output: args.output,
+      outputStorageId: args.outputStorageId,
       sleepUntil: undefined,
+      retryAt: undefined,
       completedAt: Date.now(),
     });
+    await recordEvent(ctx, step.workflowId, {
+      type: "stepCompleted",
+      workerId: args.workerId,
+      stepName: step.name,
+      attempt: step.attempts,
+    });
+    return true;
+  },
+});
+
+/**
+ * Record progress of a running step (stepCtx.heartbeat). Returns false if the
+ * step isn't running or the worker lost its claim.
+ */
+export const stepHeartbeat = mutation({
+  args: {
+    stepId: v.id("steps"),
+    workerId: v.string(),
+    details: v.optional(v.any()),
+  },
+  returns: v.boolean(),
+  handler: async (ctx, args) => {
+    const step = await ctx.db.get(args.stepId);
+    if (!step || step.status !== "running") {
+      return false;
+    }
+    const workflow = await ctx.db.get(step.workflowId);
+    if (
+      !workflow ||
+      workflow.status !== "running" ||
+      workflow.claimedBy !== args.workerId
+    ) {
+      return false;
+    }
+    await ctx.db.patch(args.stepId, {
+      heartbeatDetails: args.details,
+      lastHeartbeatAt: Date.now(),
+    });
     return true;
   },
 });
@@ -791,6 +2003,13 @@ export const failStep = mutation({
       sleepUntil: undefined,
       completedAt: Date.now(),
     });
+    await recordEvent(ctx, step.workflowId, {
+      type: "stepFailed",
+      workerId: args.workerId,
+      stepName: step.name,
+      attempt: step.attempts,
+      error: args.error,
+    });
     return true;
   },
 });
@@ -809,10 +2028,16 @@ export const getWorkflowSteps = query({
       name: v.string(),
       status: stepStatus,
       output: v.optional(v.any()),
+      outputUrl: v.optional(v.string()),
       error: v.optional(v.string()),
       attempts: v.number(),
+      heartbeatDetails: v.optional(v.any()),
+      lastHeartbeatAt: v.optional(v.number()),
+      retryAt: v.optional(v.number()),
       startedAt: v.optional(v.number()),
       completedAt: v.optional(v.number()),
+      // Updates applied before the step, in order.
+      updates: v.optional(v.array(stepUpdate)),
     }),
   ),
   handler: async (ctx, args) => {
@@ -820,79 +2045,1551 @@ export const getWorkflowSteps = query({
       .query("steps")
       .withIndex("workflowId", (q) => q.eq("workflowId", args.workflowId))
       .collect();
+    const updates = await ctx.db
+      .query("workflowUpdates")
+      .withIndex("workflowId_stepId", (q) =>
+        q.eq("workflowId", args.workflowId),
+      )
+      .collect();
 
-    return steps.map((s) => ({
-      _id: s._id,
-      _creationTime: s._creationTime,
-      name: s.name,
-      status: s.status,
-      output: s.output,
-      error: s.error,
-      attempts: s.attempts,
-      startedAt: s.startedAt,
-      completedAt: s.completedAt,
-    }));
+    return await Promise.all(
+      steps.map(async (s) => ({
+        _id: s._id,
+        _creationTime: s._creationTime,
+        name: s.name,
+        status: s.status,
+        output: s.output,
+        outputUrl: await storageUrl(ctx, s.outputStorageId),
+        error: s.error,
+        attempts: s.attempts,
+        heartbeatDetails: s.heartbeatDetails,
+        lastHeartbeatAt: s.lastHeartbeatAt,
+        retryAt: s.retryAt,
+        startedAt: s.startedAt,
+        completedAt: s.completedAt,
+        updates: stepUpdates(
+          updates.filter((update) => update.stepId === s._id),
+        ),
+      })),
+    );
   },
 });
 
 // ============================================================================
-// Subscriptions for real-time updates
+// Large values
 // ============================================================================
 
 /**
- * Subscribe to pending workflows (for workers)
- * Also triggers when sleeping workflows are ready to wake
+ * Upload URL for a workflow input or output, or a step output, too large to
+ * store in a document. The worker uploads the value as JSON and passes the
+ * returned storage id instead of the value.
  */
-export const subscribePendingWorkflows = query({
-  args: {
-    workflowNames: v.array(v.string()),
+export const generateUploadUrl = mutation({
+  args: {},
+  returns: v.string(),
+  handler: async (ctx) => {
+    return await ctx.storage.generateUploadUrl();
   },
-  returns: v.number(), // just return count, triggers re-subscription
-  handler: async (ctx, args) => {
-    const now = Date.now();
-
-    if (args.workflowNames.includes(ALL_WORKFLOWS)) {
-      const pending = await ctx.db
-        .query("workflows")
-        .withIndex("status", (q) => q.eq("status", "pending"))
-        .first();
-      if (pending) return 1;
+});
 
-      // Check for sleeping workflows ready to wake
-      const sleeping = await ctx.db
-        .query("workflows")
-        .withIndex("status_sleepUntil", (q) =>
-          q.eq("status", "sleeping").lte("sleepUntil", now),
+/**
+ * Delete an upload the worker made for a value that wasn't stored after all,
+ * e.g. because startWorkflow threw on a workflowKey conflict.
+ */
+export const deleteUpload = mutation({
+  args: { storageId: v.id("_storage") },
+  returns: v.null(),
+  handler: async (ctx, args) => {
+    await deleteUnusedUpload(ctx, args.storageId);
+    return null;
+  },
+});
+
+// Writes that reject a value uploaded to file storage delete the upload, so
+// it doesn't linger unreferenced.
+async function deleteUnusedUpload(
+  ctx: MutationCtx,
+  storageId: Id<"_storage"> | undefined,
+) {
+  if (storageId) await ctx.storage.delete(storageId);
+}
+
+async function storageUrl(
+  ctx: QueryCtx,
+  storageId: Id<"_storage"> | undefined,
+) {
+  if (!storageId) return undefined;
+  return (await ctx.storage.getUrl(storageId)) ?? undefined;
+}
+
+async function deleteStep(ctx: MutationCtx, step: Doc<"steps">) {
+  if (step.outputStorageId) {
+    await ctx.storage.delete(step.outputStorageId);
+  }
+  await ctx.db.delete(step._id);
+}
+
+// ============================================================================
+// Search
+// ============================================================================
+
+/**
+ * Find workflows by tag or by the exact value of a search attribute, most
+ * recently tagged or updated first. Pass exactly one of `tag` and
+ * `searchAttribute`.
+ */
+export const searchWorkflows = query({
+  args: {
+    tag: v.optional(v.string()),
+    searchAttribute: v.optional(
+      v.object({ key: v.string(), value: searchAttributeValue }),
+    ),
+    paginationOpts: paginationOptsValidator,
+  },
+  returns: paginationResultValidator(
+    v.object({
+      _id: v.id("workflows"),
+      _creationTime: v.number(),
+      name: v.string(),
+      status: workflowStatus,
+      tags: v.optional(v.array(v.string())),
+      searchAttributes: v.optional(v.record(v.string(), searchAttributeValue)),
+    }),
+  ),
+  handler: async (ctx, args) => {
+    if ((args.tag === undefined) === (args.searchAttribute === undefined)) {
+      throw new Error("Pass exactly one of tag and searchAttribute");
+    }
+    const { key, value } = args.searchAttribute ?? {
+      key: TAG_KEY,
+      value: args.tag!,
+    };
+
+    const result = await ctx.db
+      .query("workflowSearchAttributes")
+      .withIndex("key_value", (q) => q.eq("key", key).eq("value", value))
+      .order("desc")
+      .paginate(args.paginationOpts);
+
+    const page = [];
+    for (const row of result.page) {
+      const workflow = await ctx.db.get(row.workflowId);
+      if (!workflow) continue;
+      page.push({
+        _id: workflow._id,
+        _creationTime: workflow._creationTime,
+        name: workflow.name,
+        status: workflow.status,
+        tags: workflow.tags,
+        searchAttributes: workflow.searchAttributes,
+      });
+    }
+    return { ...result, page };
+  },
+});
+
+/**
+ * Set search attributes of a running workflow (ctx.upsertSearchAttributes()).
+ * Given keys are added or overwritten and keys set to null are removed; other
+ * attributes are kept. Returns false if the worker no longer holds the
+ * workflow.
+ */
+export const upsertSearchAttributes = mutation({
+  args: {
+    workflowId: v.id("workflows"),
+    workerId: v.string(),
+    searchAttributes: v.record(
+      v.string(),
+      v.union(searchAttributeValue, v.null()),
+    ),
+  },
+  returns: v.boolean(),
+  handler: async (ctx, args) => {
+    const workflow = await ctx.db.get(args.workflowId);
+    if (
+      !workflow ||
+      workflow.status !== "running" ||
+      workflow.claimedBy !== args.workerId
+    ) {
+      return false;
+    }
+    checkSearchAttributeKeys(args.searchAttributes);
+
+    const searchAttributes = { ...(workflow.searchAttributes ?? {}) };
+    for (const [key, value] of Object.entries(args.searchAttributes)) {
+      const existing = await ctx.db
+        .query("workflowSearchAttributes")
+        .withIndex("workflowId_key", (q) =>
+          q.eq("workflowId", args.workflowId).eq("key", key),
         )
-        .first();
-      if (sleeping) return 1;
+        .unique();
+      if (existing?.value === value) continue;
+
+      if (existing) await ctx.db.delete(existing._id);
+      if (value === null) {
+        delete searchAttributes[key];
+      } else {
+        searchAttributes[key] = value;
+        await ctx.db.insert("workflowSearchAttributes", {
+          workflowId: args.workflowId,
+          key,
+          value,
+        });
+      }
+    }
+    await ctx.db.patch(args.workflowId, { searchAttributes });
+    return true;
+  },
+});
+
+function checkSearchAttributeKeys(searchAttributes: Record<string, unknown>) {
+  for (const key of Object.keys(searchAttributes)) {
+    if (!/^[A-Za-z][A-Za-z0-9_]*$/.test(key)) {
+      throw new Error(
+        `Invalid search attribute name "${key}": use letters, digits and underscores, starting with a letter`,
+      );
+    }
+  }
+}
+
+// ============================================================================
+// History
+// ============================================================================
+
+const workflowEventFields = {
+  _id: v.id("workflowEvents"),
+  _creationTime: v.number(),
+  workflowId: v.id("workflows"),
+  type: workflowEventType,
+  at: v.number(),
+  workerId: v.optional(v.string()),
+  stepName: v.optional(v.string()),
+  attempt: v.optional(v.number()),
+  error: v.optional(v.string()),
+  until: v.optional(v.number()),
+  signalName: v.optional(v.string()),
+  childWorkflowId: v.optional(v.id("workflows")),
+};
+
+/**
+ * The state transitions of a workflow, oldest first: which worker claimed,
+ * ran steps, slept or lost its lease, and when.
+ */
+export const getWorkflowHistory = query({
+  args: {
+    workflowId: v.id("workflows"),
+    paginationOpts: paginationOptsValidator,
+  },
+  returns: paginationResultValidator(v.object(workflowEventFields)),
+  handler: async (ctx, args) => {
+    return await ctx.db
+      .query("workflowEvents")
+      .withIndex("workflowId", (q) => q.eq("workflowId", args.workflowId))
+      .order("asc")
+      .paginate(args.paginationOpts);
+  },
+});
+
+type WorkflowEvent = Omit<
+  Doc<"workflowEvents">,
+  "_id" | "_creationTime" | "workflowId" | "at"
+>;
+
+async function recordEvent(
+  ctx: MutationCtx,
+  workflowId: Id<"workflows">,
+  event: WorkflowEvent,
+) {
+  await ctx.db.insert("workflowEvents", {
+    workflowId,
+    at: Date.now(),
+    ...event,
+  });
+}
+
+// ============================================================================
+// Queries
+// ============================================================================
+
+/**
+ * Ask a workflow a question answered by a query handler (ctx.setQueryHandler)
+ * of the worker running it, or, when no worker holds the run, by a worker
+ * replaying its history. Returns the id to read the answer with
+ * getQueryResult. The query and its answer are deleted after `timeoutMs`
+ * (default 30 seconds).
+ */
+export const queryWorkflow = mutation({
+  args: {
+    workflowId: v.id("workflows"),
+    queryName: v.string(),
+    args: v.optional(v.any()),
+    timeoutMs: v.optional(v.number()),
+  },
+  returns: v.id("workflowQueries"),
+  handler: async (ctx, args) => {
+    const timeoutMs = args.timeoutMs ?? DEFAULT_QUERY_TIMEOUT_MS;
+    if (!(timeoutMs >= 0)) {
+      throw new Error("timeoutMs must be a non-negative number");
+    }
+    const workflow = await ctx.db.get(args.workflowId);
+    if (!workflow) {
+      throw new Error(`Workflow ${args.workflowId} not found`);
+    }
+    const held =
+      workflow.status === "running" &&
+      workflow.claimedBy != null &&
+      (workflow.leaseExpiresAt ?? 0) > Date.now();
+    const queryId = await ctx.db.insert("workflowQueries", {
+      workflowId: args.workflowId,
+      workflowName: workflow.name,
+      queryName: args.queryName,
+      args: args.args,
+      workerId: held ? workflow.claimedBy! : undefined,
+      status: "pending",
+    });
+    await ctx.scheduler.runAfter(timeoutMs, internal.lib.expireQuery, {
+      queryId,
+    });
+    if (held) {
+      await ctx.scheduler.runAt(
+        workflow.leaseExpiresAt!,
+        internal.lib.releaseQuery,
+        { queryId },
+      );
+    }
+    return queryId;
+  },
+});
+
+/**
+ * Delete a query once its caller stopped waiting for the answer.
+ */
+export const expireQuery = internalMutation({
+  args: { queryId: v.id("workflowQueries") },
+  returns: v.null(),
+  handler: async (ctx, args) => {
+    if (await ctx.db.get(args.queryId)) {
+      await ctx.db.delete(args.queryId);
+    }
+    return null;
+  },
+});
 
-      return 0;
+/**
+ * Hand a query addressed to a worker back to the replay path once that
+ * worker's lease on the run lapsed without an answer, e.g. because the worker
+ * died. Checks again at the new expiry while the worker keeps its lease.
+ */
+export const releaseQuery = internalMutation({
+  args: { queryId: v.id("workflowQueries") },
+  returns: v.null(),
+  handler: async (ctx, args) => {
+    const query = await ctx.db.get(args.queryId);
+    if (!query || query.status !== "pending" || query.workerId === undefined) {
+      return null;
+    }
+    const workflow = await ctx.db.get(query.workflowId);
+    if (
+      workflow?.status === "running" &&
+      workflow.claimedBy === query.workerId &&
+      (workflow.leaseExpiresAt ?? 0) > Date.now()
+    ) {
+      await ctx.scheduler.runAt(
+        workflow.leaseExpiresAt!,
+        internal.lib.releaseQuery,
+        args,
+      );
+      return null;
     }
+    await ctx.db.patch(args.queryId, { workerId: undefined });
+    return null;
+  },
+});
+
+/**
+ * The answer to a queryWorkflow call: `result` once answered, `error` if the
+ * handler threw or doesn't exist.
+ */
+export const getQueryResult = query({
+  args: { queryId: v.id("workflowQueries") },
+  returns: v.union(
+    v.null(),
+    v.object({
+      status: workflowQueryStatus,
+      result: v.optional(v.any()),
+      error: v.optional(v.string()),
+    }),
+  ),
+  handler: async (ctx, args) => {
+    const query = await ctx.db.get(args.queryId);
+    if (!query) return null;
+    return { status: query.status, result: query.result, error: query.error };
+  },
+});
+
+/**
+ * Record a worker's answer to a query. Returns false if it was already
+ * answered (e.g. by another worker replaying the run).
+ */
+export const answerQuery = mutation({
+  args: {
+    queryId: v.id("workflowQueries"),
+    workerId: v.string(),
+    result: v.optional(v.any()),
+    error: v.optional(v.string()),
+  },
+  returns: v.boolean(),
+  handler: async (ctx, args) => {
+    const query = await ctx.db.get(args.queryId);
+    if (!query || query.status !== "pending") {
+      return false;
+    }
+    if (query.workerId !== undefined && query.workerId !== args.workerId) {
+      return false;
+    }
+    await ctx.db.patch(args.queryId, {
+      status: args.error === undefined ? "answered" : "failed",
+      result: args.result,
+      error: args.error,
+    });
+    return true;
+  },
+});
+
+// ============================================================================
+// Updates
+// ============================================================================
+
+/**
+ * Send a workflow a request to change it, handled by one of its update
+ * handlers (ctx.setUpdateHandler). The update is applied ahead of the run's
+ * next step and recorded with it, so replays apply it at the same point; a
+ * sleeping or waiting run is woken up for it. Returns the id to read the
+ * outcome with getUpdateResult.
+ */
+export const updateWorkflow = mutation({
+  args: {
+    workflowId: v.id("workflows"),
+    updateName: v.string(),
+    args: v.optional(v.any()),
+  },
+  returns: v.id("workflowUpdates"),
+  handler: async (ctx, args) => {
+    const workflow = await ctx.db.get(args.workflowId);
+    if (!workflow) {
+      throw new Error(`Workflow ${args.workflowId} not found`);
+    }
+    if (isFinished(workflow)) {
+      return await ctx.db.insert("workflowUpdates", {
+        workflowId: args.workflowId,
+        updateName: args.updateName,
+        args: args.args,
+        status: "rejected",
+        error: `Workflow ${args.workflowId} is ${workflow.status}`,
+      });
+    }
+
+    const updateId = await ctx.db.insert("workflowUpdates", {
+      workflowId: args.workflowId,
+      updateName: args.updateName,
+      args: args.args,
+      status: "pending",
+    });
+    if (workflow.status === "sleeping" || workflow.status === "waiting") {
+      // Replay applies the update, then parks the run again.
+      await ctx.db.patch(args.workflowId, {
+        status: "pending",
+        sleepUntil: undefined,
+      });
+      await recordEvent(ctx, args.workflowId, { type: "woke" });
+    }
+    return updateId;
+  },
+});
+
+/**
+ * The outcome of an updateWorkflow call: `result` once completed, `error` if
+ * the handler threw ("failed") or the update was refused ("rejected").
+ */
+export const getUpdateResult = query({
+  args: { updateId: v.id("workflowUpdates") },
+  returns: v.union(
+    v.null(),
+    v.object({
+      status: workflowUpdateStatus,
+      result: v.optional(v.any()),
+      error: v.optional(v.string()),
+    }),
+  ),
+  handler: async (ctx, args) => {
+    const update = await ctx.db.get(args.updateId);
+    if (!update) return null;
+    return {
+      status: update.status,
+      result: update.result,
+      error: update.error,
+    };
+  },
+});
+
+/**
+ * Record the outcome of a delivered update. Returns false if the worker
+ * doesn't hold the run or the outcome was already recorded.
+ */
+export const completeUpdate = mutation({
+  args: {
+    updateId: v.id("workflowUpdates"),
+    workerId: v.string(),
+    status: v.union(
+      v.literal("completed"),
+      v.literal("failed"),
+      v.literal("rejected"),
+    ),
+    result: v.optional(v.any()),
+    error: v.optional(v.string()),
+  },
+  returns: v.boolean(),
+  handler: async (ctx, args) => {
+    const update = await ctx.db.get(args.updateId);
+    if (!update || update.status !== "delivered") {
+      return false;
+    }
+    const workflow = await ctx.db.get(update.workflowId);
+    if (
+      !workflow ||
+      workflow.status !== "running" ||
+      workflow.claimedBy !== args.workerId
+    ) {
+      return false;
+    }
+    await ctx.db.patch(args.updateId, {
+      status: args.status,
+      result: args.result,
+      error: args.error,
+    });
+    return true;
+  },
+});
+
+// ============================================================================
+// Concurrency limits
+// ============================================================================
+
+/**
+ * Limit how many runs of a workflow name may be running at once across all
+ * workers, or remove the limit with `limit: null`. Claims skip a name while
+ * it's at its limit; sleeping and waiting runs don't count.
+ */
+export const setConcurrencyLimit = mutation({
+  args: {
+    workflowName: v.string(),
+    limit: v.union(v.number(), v.null()),
+  },
+  returns: v.null(),
+  handler: async (ctx, args) => {
+    const existing = await ctx.db
+      .query("concurrencyLimits")
+      .withIndex("workflowName", (q) =>
+        q.eq("workflowName", args.workflowName),
+      )
+      .unique();
+
+    if (args.limit === null) {
+      if (existing) await ctx.db.delete(existing._id);
+      return null;
+    }
+    if (!Number.isInteger(args.limit) || args.limit < 0) {
+      throw new Error("limit must be a non-negative integer");
+    }
+    if (existing) {
+      await ctx.db.patch(existing._id, { limit: args.limit });
+      return null;
+    }
+
+    // Start counting from the runs that are already running.
+    const running = await ctx.db
+      .query("workflows")
+      .withIndex("name_status", (q) =>
+        q.eq("name", args.workflowName).eq("status", "running"),
+      )
+      .collect();
+    await ctx.db.insert("concurrencyLimits", {
+      workflowName: args.workflowName,
+      limit: args.limit,
+      running: running.length,
+    });
+    return null;
+  },
+});
+
+/**
+ * List concurrency limits with the number of runs currently counted against
+ * each.
+ */
+export const listConcurrencyLimits = query({
+  args: {},
+  returns: v.array(
+    v.object({
+      workflowName: v.string(),
+      limit: v.number(),
+      running: v.number(),
+    }),
+  ),
+  handler: async (ctx) => {
+    const limits = await ctx.db.query("concurrencyLimits").collect();
+    return limits.map((limit) => ({
+      workflowName: limit.workflowName,
+      limit: limit.limit,
+      running: limit.running,
+    }));
+  },
+});
+
+async function cappedWorkflowNames(ctx: QueryCtx) {
+  const limits = await ctx.db.query("concurrencyLimits").collect();
+  return new Set(
+    limits
+      .filter((limit) => limit.running >= limit.limit)
+      .map((limit) => limit.workflowName),
+  );
+}
+
+/**
+ * Track a run of `workflowName` being claimed (1) or released (-1), for
+ * names that have a concurrency limit.
+ */
+async function countRunning(
+  ctx: MutationCtx,
+  workflowName: string,
+  delta: 1 | -1,
+) {
+  const limit = await ctx.db
+    .query("concurrencyLimits")
+    .withIndex("workflowName", (q) => q.eq("workflowName", workflowName))
+    .unique();
+  if (!limit) return;
+  await ctx.db.patch(limit._id, {
+    running: Math.max(0, limit.running + delta),
+  });
+}
+
+// ============================================================================
+// Workers
+// ============================================================================
+
+/**
+ * Register a worker (or re-register one with the same workerId) so it shows
+ * up in listWorkers. Registering a worker that was drained keeps it draining.
+ * New workers clear out workers that haven't heartbeated for a day, so the
+ * registry doesn't grow with every restart.
+ */
+export const registerWorker = mutation({
+  args: {
+    workerId: v.string(),
+    hostname: v.optional(v.string()),
+    pid: v.optional(v.number()),
+    workflowNames: v.array(v.string()),
+    workflowVersions: v.optional(v.record(v.string(), v.string())),
+    taskQueues: v.optional(v.array(v.string())),
+    version: v.optional(v.string()),
+    capacity: v.number(),
+  },
+  returns: workerStatus,
+  handler: async (ctx, args) => {
+    const now = Date.now();
+    const existing = await getWorker(ctx, args.workerId);
+    const status: "active" | "draining" =
+      existing?.status === "draining" ? "draining" : "active";
+    const fields = {
+      ...args,
+      running: existing?.running ?? 0,
+      status,
+      lastHeartbeatAt: now,
+    };
 
-    for (const name of args.workflowNames) {
-      const pending = await ctx.db
+    if (existing) {
+      await ctx.db.replace(existing._id, {
+        ...fields,
+        registeredAt: existing.registeredAt,
+      });
+    } else {
+      await ctx.db.insert("workers", { ...fields, registeredAt: now });
+      await pruneWorkers(ctx, now - WORKER_RETENTION_MS);
+    }
+    return status;
+  },
+});
+
+/**
+ * Heartbeat from a registered worker, reporting how many workflows it has in
+ * flight. Returns the worker's status so it can stop claiming once drained,
+ * or null if it isn't registered (it should register again).
+ */
+export const workerHeartbeat = mutation({
+  args: {
+    workerId: v.string(),
+    running: v.number(),
+  },
+  returns: v.union(workerStatus, v.null()),
+  handler: async (ctx, args) => {
+    const worker = await getWorker(ctx, args.workerId);
+    if (!worker) return null;
+    await ctx.db.patch(worker._id, {
+      running: args.running,
+      lastHeartbeatAt: Date.now(),
+    });
+    return worker.status;
+  },
+});
+
+/**
+ * Mark a worker as stopped when it shuts down cleanly.
+ */
+export const unregisterWorker = mutation({
+  args: {
+    workerId: v.string(),
+  },
+  returns: v.null(),
+  handler: async (ctx, args) => {
+    const worker = await getWorker(ctx, args.workerId);
+    if (worker) {
+      await ctx.db.patch(worker._id, { status: "stopped", running: 0 });
+    }
+    return null;
+  },
+});
+
+/**
+ * Drain a worker: it finishes the workflows it holds but claims no new ones.
+ * Returns false if the worker isn't registered or has already stopped.
+ */
+export const drainWorker = mutation({
+  args: {
+    workerId: v.string(),
+  },
+  returns: v.boolean(),
+  handler: async (ctx, args) => {
+    const worker = await getWorker(ctx, args.workerId);
+    if (!worker || worker.status === "stopped") return false;
+    await ctx.db.patch(worker._id, { status: "draining" });
+    return true;
+  },
+});
+
+/**
+ * List registered workers. A worker is `alive` if it has heartbeated within
+ * the last 30 seconds. Stopped workers are left out unless `includeStopped`.
+ */
+export const listWorkers = query({
+  args: {
+    includeStopped: v.optional(v.boolean()),
+  },
+  returns: v.array(
+    v.object({
+      workerId: v.string(),
+      hostname: v.optional(v.string()),
+      pid: v.optional(v.number()),
+      workflowNames: v.array(v.string()),
+      taskQueues: v.optional(v.array(v.string())),
+      version: v.optional(v.string()),
+      capacity: v.number(),
+      running: v.number(),
+      status: workerStatus,
+      alive: v.boolean(),
+      registeredAt: v.number(),
+      lastHeartbeatAt: v.number(),
+    }),
+  ),
+  handler: async (ctx, args) => {
+    const now = Date.now();
+    const statuses = args.includeStopped
+      ? (["active", "draining", "stopped"] as const)
+      : (["active", "draining"] as const);
+    const workers: Doc<"workers">[] = [];
+    for (const status of statuses) {
+      workers.push(
+        ...(await ctx.db
+          .query("workers")
+          .withIndex("status_lastHeartbeatAt", (q) => q.eq("status", status))
+          .collect()),
+      );
+    }
+    return workers.map((worker) => ({
+      workerId: worker.workerId,
+      hostname: worker.hostname,
+      pid: worker.pid,
+      workflowNames: worker.workflowNames,
+      taskQueues: worker.taskQueues,
+      version: worker.version,
+      capacity: worker.capacity,
+      running: worker.running,
+      status: worker.status,
+      alive:
+        worker.status !== "stopped" &&
+        worker.lastHeartbeatAt > now - WORKER_TIMEOUT_MS,
+      registeredAt: worker.registeredAt,
+      lastHeartbeatAt: worker.lastHeartbeatAt,
+    }));
+  },
+});
+
+function getWorker(ctx: QueryCtx, workerId: string) {
+  return ctx.db
+    .query("workers")
+    .withIndex("workerId", (q) => q.eq("workerId", workerId))
+    .unique();
+}
+
+async function pruneWorkers(ctx: MutationCtx, heartbeatBefore: number) {
+  let budget = WORKER_PRUNE_BATCH_SIZE;
+  for (const status of ["stopped", "active", "draining"] as const) {
+    const stale = await ctx.db
+      .query("workers")
+      .withIndex("status_lastHeartbeatAt", (q) =>
+        q.eq("status", status).lt("lastHeartbeatAt", heartbeatBefore),
+      )
+      .take(budget);
+    for (const worker of stale) {
+      await ctx.db.delete(worker._id);
+    }
+    budget -= stale.length;
+    if (budget === 0) return;
+  }
+}
+
+// ============================================================================
+// Retention
+// ============================================================================
+
+/**
+ * Keep finished (completed, failed or cancelled) workflows for `retentionMs`
+ * after they finish, then delete them with their steps, signals, history and
+ * search attributes. Without `workflowName` this sets the default for names
+ * that don't have their own policy. `retentionMs: null` removes the policy
+ * (finished workflows are then kept forever).
+ */
+export const setRetentionPolicy = mutation({
+  args: {
+    workflowName: v.optional(v.string()),
+    retentionMs: v.union(v.number(), v.null()),
+  },
+  returns: v.null(),
+  handler: async (ctx, args) => {
+    const existing = await ctx.db
+      .query("retentionPolicies")
+      .withIndex("workflowName", (q) =>
+        q.eq("workflowName", args.workflowName),
+      )
+      .unique();
+
+    if (args.retentionMs === null) {
+      if (existing) {
+        if (existing.scheduledFunctionId) {
+          await ctx.scheduler.cancel(existing.scheduledFunctionId);
+        }
+        await ctx.db.delete(existing._id);
+      }
+      return null;
+    }
+    if (!(args.retentionMs >= 0)) {
+      throw new Error("retentionMs must be a non-negative number");
+    }
+    if (existing) {
+      await ctx.db.patch(existing._id, { retentionMs: args.retentionMs });
+      return null;
+    }
+
+    const policyId = await ctx.db.insert("retentionPolicies", {
+      workflowName: args.workflowName,
+      retentionMs: args.retentionMs,
+    });
+    const scheduledFunctionId = await ctx.scheduler.runAfter(
+      0,
+      internal.lib.cleanupWorkflows,
+      { policyId },
+    );
+    await ctx.db.patch(policyId, { scheduledFunctionId });
+    return null;
+  },
+});
+
+/**
+ * List retention policies; the default policy has no workflowName.
+ */
+export const listRetentionPolicies = query({
+  args: {},
+  returns: v.array(
+    v.object({
+      workflowName: v.optional(v.string()),
+      retentionMs: v.number(),
+    }),
+  ),
+  handler: async (ctx) => {
+    const policies = await ctx.db.query("retentionPolicies").collect();
+    return policies.map((policy) => ({
+      workflowName: policy.workflowName,
+      retentionMs: policy.retentionMs,
+    }));
+  },
+});
+
+const finishedStatuses = ["completed", "failed", "cancelled"] as const;
+
+// Where a cleanupWorkflows run left off: the name and status it was walking
+// and the index key of the last workflow it handled there.
+const retentionCursor = v.object({
+  name: v.string(),
+  status: v.union(
+    v.literal("completed"),
+    v.literal("failed"),
+    v.literal("cancelled"),
+  ),
+  after: v.optional(
+    v.object({
+      finishedAt: v.optional(v.number()),
+      creationTime: v.number(),
+    }),
+  ),
+});
+type RetentionCursor = Infer<typeof retentionCursor>;
+
+/**
+ * Delete workflows that outlived a retention policy, reading at most
+ * RETENTION_CLEANUP_BATCH_SIZE rows, then schedule the next run: right away
+ * from where this one stopped if the batch filled up, otherwise after
+ * RETENTION_CLEANUP_INTERVAL_MS from the start.
+ */
+export const cleanupWorkflows = internalMutation({
+  args: {
+    policyId: v.id("retentionPolicies"),
+    cursor: v.optional(retentionCursor),
+  },
+  returns: v.null(),
+  handler: async (ctx, args) => {
+    const policy = await ctx.db.get(args.policyId);
+    if (!policy) return null;
+
+    const cutoff = Date.now() - policy.retentionMs;
+    // The default policy leaves names with their own policy alone.
+    const exempt = new Set<string>();
+    if (policy.workflowName === undefined) {
+      for (const other of await ctx.db.query("retentionPolicies").collect()) {
+        if (other.workflowName !== undefined) exempt.add(other.workflowName);
+      }
+    }
+
+    let budget = RETENTION_CLEANUP_BATCH_SIZE;
+    let cursor: RetentionCursor | null =
+      args.cursor ??
+      (policy.workflowName !== undefined
+        ? { name: policy.workflowName, status: "completed" }
+        : await nextRetentionName(ctx, undefined, exempt));
+    while (cursor && budget > 0) {
+      const page = await expiredWorkflows(ctx, cursor, cutoff, budget);
+      for (const expired of page) {
+        budget--;
+        if (expired.parentWorkflowId) budget--;
+        // An unfinished parent replays awaitChild against its children.
+        if (!(await hasUnfinishedParent(ctx, expired))) {
+          budget = await deleteWorkflow(ctx, expired._id, Math.max(budget, 0));
+        }
+        // Come back to a workflow the budget ran out on.
+        if (budget <= 0) break;
+        cursor = {
+          ...cursor,
+          after: {
+            finishedAt: expired.finishedAt,
+            creationTime: expired._creationTime,
+          },
+        };
+      }
+      if (budget <= 0) break;
+      // Every expired workflow with this name and status has been handled.
+      const next: (typeof finishedStatuses)[number] | undefined =
+        finishedStatuses[finishedStatuses.indexOf(cursor.status) + 1];
+      if (next) {
+        cursor = { name: cursor.name, status: next };
+      } else if (policy.workflowName !== undefined) {
+        cursor = null;
+      } else {
+        cursor = await nextRetentionName(ctx, cursor.name, exempt);
+        budget--;
+      }
+    }
+
+    const scheduledFunctionId = await ctx.scheduler.runAfter(
+      cursor ? 0 : RETENTION_CLEANUP_INTERVAL_MS,
+      internal.lib.cleanupWorkflows,
+      { policyId: args.policyId, cursor: cursor ?? undefined },
+    );
+    await ctx.db.patch(args.policyId, { scheduledFunctionId });
+    return null;
+  },
+});
+
+/**
+ * The first workflow name after `name` that isn't exempt, for the default
+ * policy to walk one name at a time.
+ */
+async function nextRetentionName(
+  ctx: QueryCtx,
+  name: string | undefined,
+  exempt: ReadonlySet<string>,
+): Promise<RetentionCursor | null> {
+  for (;;) {
+    const after = name;
+    const next = await ctx.db
+      .query("workflows")
+      .withIndex("name", (q) => (after === undefined ? q : q.gt("name", after)))
+      .first();
+    if (!next) return null;
+    name = next.name;
+    if (!exempt.has(name)) return { name, status: "completed" };
+  }
+}
+
+/**
+ * Up to `limit` workflows with the cursor's name and status that finished
+ * before `cutoff`, in index order after the cursor. Workflows finished before
+ * finishedAt was recorded sort first and count from their creation.
+ */
+async function expiredWorkflows(
+  ctx: QueryCtx,
+  { name, status, after }: RetentionCursor,
+  cutoff: number,
+  limit: number,
+) {
+  const expired = await ctx.db
+    .query("workflows")
+    .withIndex("name_status_finishedAt", (q) => {
+      const range = q.eq("name", name).eq("status", status);
+      if (after?.finishedAt !== undefined) {
+        return range
+          .eq("finishedAt", after.finishedAt)
+          .gt("_creationTime", after.creationTime);
+      }
+      const legacy = range.eq("finishedAt", undefined);
+      return after
+        ? legacy
+            .gt("_creationTime", after.creationTime)
+            .lt("_creationTime", cutoff)
+        : legacy.lt("_creationTime", cutoff);
+    })
+    .take(limit);
+  if (expired.length < limit) {
+    expired.push(
+      ...(await ctx.db
         .query("workflows")
-        .withIndex("name_status", (q) =>
-          q.eq("name", name).eq("status", "pending"),
+        .withIndex("name_status_finishedAt", (q) =>
+          q
+            .eq("name", name)
+            .eq("status", status)
+            .gt("finishedAt", after?.finishedAt)
+            .lt("finishedAt", cutoff),
         )
-        .first();
+        .take(limit - expired.length)),
+    );
+  }
+  return expired;
+}
+
+async function hasUnfinishedParent(ctx: QueryCtx, workflow: Doc<"workflows">) {
+  if (!workflow.parentWorkflowId) return false;
+  const parent = await ctx.db.get(workflow.parentWorkflowId);
+  return (
+    parent !== null &&
+    parent.status !== "completed" &&
+    parent.status !== "failed" &&
+    parent.status !== "cancelled"
+  );
+}
+
+/**
+ * Delete a workflow and the rows that belong to it, deleting at most `budget`
+ * rows. Returns the budget left; the workflow row itself goes last, so a
+ * workflow that doesn't fit is finished off by the next run.
+ */
+async function deleteWorkflow(
+  ctx: MutationCtx,
+  workflowId: Id<"workflows">,
+  budget: number,
+) {
+  const steps = await ctx.db
+    .query("steps")
+    .withIndex("workflowId", (q) => q.eq("workflowId", workflowId))
+    .take(budget);
+  for (const step of steps) {
+    await deleteStep(ctx, step);
+    budget--;
+  }
+  if (budget === 0) return 0;
+
+  const dependents: Array<
+    (limit: number) => Promise<Array<{ _id: Id<TableNames> }>>
+  > = [
+    (limit) =>
+      ctx.db
+        .query("signals")
+        .withIndex("workflowId", (q) => q.eq("workflowId", workflowId))
+        .take(limit),
+    (limit) =>
+      ctx.db
+        .query("workflowEvents")
+        .withIndex("workflowId", (q) => q.eq("workflowId", workflowId))
+        .take(limit),
+    (limit) =>
+      ctx.db
+        .query("workflowSearchAttributes")
+        .withIndex("workflowId_key", (q) => q.eq("workflowId", workflowId))
+        .take(limit),
+    (limit) =>
+      ctx.db
+        .query("workflowQueries")
+        .withIndex("workflowId", (q) => q.eq("workflowId", workflowId))
+        .take(limit),
+    (limit) =>
+      ctx.db
+        .query("workflowUpdates")
+        .withIndex("workflowId_stepId", (q) => q.eq("workflowId", workflowId))
+        .take(limit),
+  ];
+  for (const rowsOf of dependents) {
+    for (const row of await rowsOf(budget)) {
+      await ctx.db.delete(row._id);
+      budget--;
+    }
+    if (budget === 0) return 0;
+  }
+  const workflow = await ctx.db.get(workflowId);
+  for (const storageId of [
+    workflow?.inputStorageId,
+    workflow?.outputStorageId,
+  ]) {
+    if (storageId) await ctx.storage.delete(storageId);
+  }
+  await ctx.db.delete(workflowId);
+  return budget - 1;
+}
+
+// ============================================================================
+// Schedules
+// ============================================================================
+
+const scheduleFields = {
+  _id: v.id("schedules"),
+  _creationTime: v.number(),
+  workflowName: v.string(),
+  input: v.any(),
+  cron: v.optional(v.string()),
+  intervalMs: v.optional(v.number()),
+  catchUpPolicy: schedulePolicy,
+  overlapPolicy: schedulePolicy,
+  paused: v.boolean(),
+  nextRunAt: v.number(),
+  lastRunAt: v.optional(v.number()),
+  lastWorkflowId: v.optional(v.id("workflows")),
+  bufferedRunAt: v.optional(v.number()),
+};
+
+/**
+ * Create a schedule that starts `workflowName` on a cron expression (UTC) or a
+ * fixed interval. Runs are started by the Convex scheduler, no worker or
+ * external cron is involved.
+ *
+ * - `catchUpPolicy` (default "skip") applies when fire times were missed, e.g.
+ *   the deployment was down: "skip" starts a run for the latest one only,
+ *   "bufferOne" starts one extra run for all missed ones, "allowAll" starts a
+ *   run for each (at most 100).
+ * - `overlapPolicy` (default "skip") applies when a fire time arrives while
+ *   the previous run is still going: "skip" drops it, "bufferOne" starts one
+ *   run once the previous one finishes, "allowAll" starts it anyway.
+ */
+export const createSchedule = mutation({
+  args: {
+    workflowName: v.string(),
+    input: v.any(),
+    cron: v.optional(v.string()),
+    intervalMs: v.optional(v.number()),
+    // First fire time for interval schedules (defaults to now + intervalMs).
+    startAt: v.optional(v.number()),
+    catchUpPolicy: v.optional(schedulePolicy),
+    overlapPolicy: v.optional(schedulePolicy),
+  },
+  returns: v.id("schedules"),
+  handler: async (ctx, args) => {
+    if ((args.cron === undefined) === (args.intervalMs === undefined)) {
+      throw new Error("Pass exactly one of cron or intervalMs");
+    }
+    if (args.intervalMs !== undefined && !(args.intervalMs >= 1000)) {
+      throw new Error("intervalMs must be at least 1000");
+    }
+
+    const now = Date.now();
+    const nextRunAt =
+      args.cron !== undefined
+        ? nextCronTime(parseCron(args.cron), now)
+        : (args.startAt ?? now + args.intervalMs!);
+
+    const scheduleId = await ctx.db.insert("schedules", {
+      workflowName: args.workflowName,
+      input: args.input,
+      cron: args.cron,
+      intervalMs: args.intervalMs,
+      catchUpPolicy: args.catchUpPolicy ?? "skip",
+      overlapPolicy: args.overlapPolicy ?? "skip",
+      paused: false,
+      nextRunAt,
+    });
+    const scheduledFunctionId = await ctx.scheduler.runAt(
+      nextRunAt,
+      internal.lib.runSchedule,
+      { scheduleId },
+    );
+    await ctx.db.patch(scheduleId, { scheduledFunctionId });
+    return scheduleId;
+  },
+});
+
+/**
+ * Pause a schedule. Fire times that pass while it's paused are not caught up.
+ * Returns false if the schedule doesn't exist or is already paused.
+ */
+export const pauseSchedule = mutation({
+  args: {
+    scheduleId: v.id("schedules"),
+  },
+  returns: v.boolean(),
+  handler: async (ctx, args) => {
+    const schedule = await ctx.db.get(args.scheduleId);
+    if (!schedule || schedule.paused) return false;
+    if (schedule.scheduledFunctionId) {
+      await ctx.scheduler.cancel(schedule.scheduledFunctionId);
+    }
+    await ctx.db.patch(args.scheduleId, {
+      paused: true,
+      scheduledFunctionId: undefined,
+      bufferedRunAt: undefined,
+    });
+    return true;
+  },
+});
+
+/**
+ * Resume a paused schedule from its next fire time after now.
+ * Returns false if the schedule doesn't exist or isn't paused.
+ */
+export const resumeSchedule = mutation({
+  args: {
+    scheduleId: v.id("schedules"),
+  },
+  returns: v.boolean(),
+  handler: async (ctx, args) => {
+    const schedule = await ctx.db.get(args.scheduleId);
+    if (!schedule || !schedule.paused) return false;
+    const nextRunAt = nextFireTimeAfter(schedule, Date.now());
+    const scheduledFunctionId = await ctx.scheduler.runAt(
+      nextRunAt,
+      internal.lib.runSchedule,
+      { scheduleId: args.scheduleId },
+    );
+    await ctx.db.patch(args.scheduleId, {
+      paused: false,
+      nextRunAt,
+      scheduledFunctionId,
+    });
+    return true;
+  },
+});
+
+/**
+ * Delete a schedule. Workflows it already started are not affected.
+ */
+export const deleteSchedule = mutation({
+  args: {
+    scheduleId: v.id("schedules"),
+  },
+  returns: v.boolean(),
+  handler: async (ctx, args) => {
+    const schedule = await ctx.db.get(args.scheduleId);
+    if (!schedule) return false;
+    if (schedule.scheduledFunctionId) {
+      await ctx.scheduler.cancel(schedule.scheduledFunctionId);
+    }
+    await ctx.db.delete(args.scheduleId);
+    return true;
+  },
+});
+
+/**
+ * List schedules (newest first)
+ */
+export const listSchedules = query({
+  args: {
+    limit: v.optional(v.number()),
+  },
+  returns: v.array(v.object(scheduleFields)),
+  handler: async (ctx, args) => {
+    const schedules = await ctx.db
+      .query("schedules")
+      .order("desc")
+      .take(args.limit ?? 100);
+    return schedules.map((schedule) => ({
+      _id: schedule._id,
+      _creationTime: schedule._creationTime,
+      workflowName: schedule.workflowName,
+      input: schedule.input,
+      cron: schedule.cron,
+      intervalMs: schedule.intervalMs,
+      catchUpPolicy: schedule.catchUpPolicy,
+      overlapPolicy: schedule.overlapPolicy,
+      paused: schedule.paused,
+      nextRunAt: schedule.nextRunAt,
+      lastRunAt: schedule.lastRunAt,
+      lastWorkflowId: schedule.lastWorkflowId,
+      bufferedRunAt: schedule.bufferedRunAt,
+    }));
+  },
+});
+
+/**
+ * Fire a schedule: start runs for the fire times that are due, then schedule
+ * the next call.
+ */
+export const runSchedule = internalMutation({
+  args: {
+    scheduleId: v.id("schedules"),
+  },
+  returns: v.null(),
+  handler: async (ctx, args) => {
+    const schedule = await ctx.db.get(args.scheduleId);
+    if (!schedule || schedule.paused) return null;
+
+    const now = Date.now();
+    if (schedule.nextRunAt > now) return null;
+
+    // The latest due fire time always runs; earlier ones were missed and are
+    // handled by the catch-up policy.
+    const due = dueFireTimes(schedule, now);
+    const latest = due.pop()!;
+    const missed =
+      schedule.catchUpPolicy === "allowAll"
+        ? due
+        : schedule.catchUpPolicy === "bufferOne" && due.length > 0
+          ? [due[due.length - 1]]
+          : [];
+
+    let state = schedule;
+    for (const fireAt of [...missed, latest]) {
+      state = await fireSchedule(ctx, state, fireAt);
+    }
+
+    const nextRunAt = nextFireTimeAfter(schedule, now);
+    const scheduledFunctionId = await ctx.scheduler.runAt(
+      nextRunAt,
+      internal.lib.runSchedule,
+      { scheduleId: args.scheduleId },
+    );
+    await ctx.db.patch(args.scheduleId, {
+      nextRunAt,
+      scheduledFunctionId,
+      lastRunAt: state.lastRunAt,
+      lastWorkflowId: state.lastWorkflowId,
+      bufferedRunAt: state.bufferedRunAt,
+    });
+    return null;
+  },
+});
+
+/**
+ * Fire times from `nextRunAt` up to `now`, oldest first, keeping only the
+ * latest MAX_CATCH_UP_RUNS + 1.
+ */
+function dueFireTimes(schedule: Doc<"schedules">, now: number) {
+  if (schedule.cron === undefined) {
+    const intervalMs = schedule.intervalMs!;
+    const count = Math.floor((now - schedule.nextRunAt) / intervalMs) + 1;
+    const first = Math.max(0, count - MAX_CATCH_UP_RUNS - 1);
+    const due: number[] = [];
+    for (let i = first; i < count; i++) {
+      due.push(schedule.nextRunAt + i * intervalMs);
+    }
+    return due;
+  }
+  const cron = parseCron(schedule.cron);
+  const due: number[] = [];
+  for (
+    let fireAt = schedule.nextRunAt;
+    fireAt <= now;
+    fireAt = nextCronTime(cron, fireAt)
+  ) {
+    due.push(fireAt);
+    if (due.length > MAX_CATCH_UP_RUNS + 1) due.shift();
+  }
+  return due;
+}
+
+function nextFireTimeAfter(schedule: Doc<"schedules">, after: number) {
+  if (schedule.cron !== undefined) {
+    return nextCronTime(parseCron(schedule.cron), after);
+  }
+  // Interval schedules stay aligned to their first fire time.
+  const intervalMs = schedule.intervalMs!;
+  const elapsed = after - schedule.nextRunAt;
+  if (elapsed < 0) return schedule.nextRunAt;
+  return schedule.nextRunAt + (Math.floor(elapsed / intervalMs) + 1) * intervalMs;
+}
+
+/**
+ * Apply the overlap policy to one fire time and start a run if it allows.
+ * Returns the schedule with updated run bookkeeping (not yet written).
+ */
+async function fireSchedule(
+  ctx: MutationCtx,
+  schedule: Doc<"schedules">,
+  fireAt: number,
+): Promise<Doc<"schedules">> {
+  const previous = schedule.lastWorkflowId
+    ? await ctx.db.get(schedule.lastWorkflowId)
+    : null;
+  if (previous && !isFinished(previous)) {
+    if (schedule.overlapPolicy === "skip") return schedule;
+    if (schedule.overlapPolicy === "bufferOne") {
+      return { ...schedule, bufferedRunAt: fireAt };
+    }
+  }
+  const workflowId = await ctx.db.insert("workflows", {
+    name: schedule.workflowName,
+    status: "pending",
+    input: schedule.input,
+    scheduleId: schedule._id,
+    priority: 0,
+  });
+  await recordEvent(ctx, workflowId, { type: "started" });
+  return { ...schedule, lastRunAt: fireAt, lastWorkflowId: workflowId };
+}
+
+/**
+ * Start the run a "bufferOne" schedule held back while `workflow` was running.
+ */
+async function startBufferedRun(
+  ctx: MutationCtx,
+  workflow: Doc<"workflows">,
+) {
+  const schedule = await ctx.db.get(workflow.scheduleId!);
+  if (
+    !schedule ||
+    schedule.paused ||
+    schedule.bufferedRunAt === undefined ||
+    schedule.lastWorkflowId !== workflow._id
+  ) {
+    return;
+  }
+  const workflowId = await ctx.db.insert("workflows", {
+    name: schedule.workflowName,
+    status: "pending",
+    input: schedule.input,
+    scheduleId: schedule._id,
+    priority: 0,
+  });
+  await recordEvent(ctx, workflowId, { type: "started" });
+  await ctx.db.patch(schedule._id, {
+    lastRunAt: schedule.bufferedRunAt,
+    lastWorkflowId: workflowId,
+    bufferedRunAt: undefined,
+  });
+}
+
+// ============================================================================
+// Subscriptions for real-time updates
+// ============================================================================
+
+/**
+ * Subscribe to pending workflows (for workers)
+ * Also triggers when sleeping workflows are ready to wake
+ */
+export const subscribePendingWorkflows = query({
+  args: {
+    workflowNames: v.array(v.string()),
+    workflowVersions: v.optional(v.record(v.string(), v.string())),
+    taskQueues: v.optional(v.array(v.string())),
+  },
+  returns: v.number(), // just return count, triggers re-subscription
+  handler: async (ctx, args) => {
+    const now = Date.now();
+    const lanes = await uncappedClaimLanes(
+      ctx,
+      claimLanes(args.workflowNames, args.workflowVersions, args.taskQueues),
+      await cappedWorkflowNames(ctx),
+    );
+
+    for (const lane of lanes) {
+      const pending = await nextPendingInLane(ctx, lane);
       if (pending) return 1;
     }
 
-    // Check for sleeping workflows ready to wake (per-name)
-    for (const name of args.workflowNames) {
-      const sleeping = await ctx.db
-        .query("workflows")
-        .withIndex("name_status_sleepUntil", (q) =>
-          q.eq("name", name).eq("status", "sleeping").lte("sleepUntil", now),
-        )
-        .first();
-      if (sleeping) {
-        return 1;
-      }
+    // Check for sleeping workflows ready to wake
+    for (const lane of lanes) {
+      const sleeping = await dueSleepingInLane(ctx, lane, now);
+      if (sleeping) return 1;
     }
 
     return 0;
   },
 });
+
+/**
+ * Queries waiting for a worker (for workers): those addressed to `workerId`,
+ * then those made while no worker held the run, for the given workflow names.
+ */
+export const subscribePendingQueries = query({
+  args: {
+    workerId: v.string(),
+    workflowNames: v.array(v.string()),
+  },
+  returns: v.array(
+    v.object({
+      _id: v.id("workflowQueries"),
+      workflowId: v.id("workflows"),
+      workflowName: v.string(),
+      queryName: v.string(),
+      args: v.optional(v.any()),
+    }),
+  ),
+  handler: async (ctx, args) => {
+    const owned = await ctx.db
+      .query("workflowQueries")
+      .withIndex("status_workerId_workflowName", (q) =>
+        q.eq("status", "pending").eq("workerId", args.workerId),
+      )
+      .take(PENDING_QUERIES_LIMIT);
+    const unowned = args.workflowNames.includes(ALL_WORKFLOWS)
+      ? await ctx.db
+          .query("workflowQueries")
+          .withIndex("status_workerId_workflowName", (q) =>
+            q.eq("status", "pending").eq("workerId", undefined),
+          )
+          .take(PENDING_QUERIES_LIMIT)
+      : (
+          await Promise.all(
+            args.workflowNames.map((workflowName) =>
+              ctx.db
+                .query("workflowQueries")
+                .withIndex("status_workerId_workflowName", (q) =>
+                  q
+                    .eq("status", "pending")
+                    .eq("workerId", undefined)
+                    .eq("workflowName", workflowName),
+                )
+                .take(PENDING_QUERIES_LIMIT),
+            ),
+          )
+        ).flat();
+    return [...owned, ...unowned].map((query) => ({
+      _id: query._id,
+      workflowId: query.workflowId,
+      workflowName: query.workflowName,
+      queryName: query.queryName,
+      args: query.args,
+    }));
+  },
+});
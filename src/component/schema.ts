@@ -8,6 +8,82 @@ export const workflowStatus = v.union(
   v.literal("waiting"),
   v.literal("completed"),
   v.literal("failed"),
+  v.literal("cancelled"),
+);
+
+// What startWorkflow does when a workflow with the same name and workflowKey
+// already exists.
+export const workflowKeyConflictPolicy = v.union(
+  v.literal("returnExisting"),
+  v.literal("fail"),
+  v.literal("startNewIfFinished"),
+);
+
+// What happens to a child workflow when its parent finishes first.
+export const parentClosePolicy = v.union(
+  v.literal("cancel"),
+  v.literal("abandon"),
+);
+
+// How a schedule handles missed fire times (catch-up) and fire times that
+// arrive while its previous run is still going (overlap).
+export const schedulePolicy = v.union(
+  v.literal("skip"),
+  v.literal("bufferOne"),
+  v.literal("allowAll"),
+);
+
+// "draining" workers finish what they hold but claim nothing new;
+// "stopped" workers have shut down cleanly.
+export const workerStatus = v.union(
+  v.literal("active"),
+  v.literal("draining"),
+  v.literal("stopped"),
+);
+
+export const workflowEventType = v.union(
+  v.literal("started"),
+  v.literal("claimed"),
+  v.literal("woke"), // left sleeping/waiting (timer, signal or child)
+  v.literal("leaseExpired"),
+  v.literal("reclaimed"), // claimed by another worker after leaseExpired
+  v.literal("stepStarted"),
+  v.literal("stepCompleted"),
+  v.literal("stepFailed"),
+  v.literal("slept"),
+  v.literal("waiting"), // parked on a signal or child workflow
+  v.literal("signalReceived"),
+  v.literal("signalConsumed"),
+  v.literal("completed"),
+  v.literal("failed"),
+  v.literal("cancelled"),
+  v.literal("retried"),
+  v.literal("reset"),
+);
+
+// Values a search attribute can hold (searchWorkflows matches them exactly).
+export const searchAttributeValue = v.union(
+  v.string(),
+  v.number(),
+  v.boolean(),
+);
+
+// "answered"/"failed" once a worker ran the query handler.
+export const workflowQueryStatus = v.union(
+  v.literal("pending"),
+  v.literal("answered"),
+  v.literal("failed"),
+);
+
+// "delivered" once handed to the workflow ahead of one of its steps; then
+// "completed"/"failed" after the handler ran (or threw), or "rejected" if the
+// validator refused it or the workflow finished first.
+export const workflowUpdateStatus = v.union(
+  v.literal("pending"),
+  v.literal("delivered"),
+  v.literal("completed"),
+  v.literal("failed"),
+  v.literal("rejected"),
 );
 
 export const stepStatus = v.union(
@@ -24,24 +100,92 @@ export default defineSchema({
     status: workflowStatus,
     input: v.any(), // JSON input to the workflow
     output: v.optional(v.any()), // JSON output when completed
+    // Inputs and outputs too large for a document live in file storage (as
+    // JSON); the row then holds null instead.
+    inputStorageId: v.optional(v.id("_storage")),
+    outputStorageId: v.optional(v.id("_storage")),
     error: v.optional(v.string()), // error message if failed
     claimedBy: v.optional(v.union(v.string(), v.null())), // worker ID that's running this
     claimedAt: v.optional(v.union(v.number(), v.null())), // last heartbeat/claim time
     leaseExpiresAt: v.optional(v.union(v.number(), v.null())), // for efficient reclaiming
     // Used to prevent duplicate step rows under concurrency.
     stepIdsByName: v.optional(v.record(v.string(), v.id("steps"))),
-    // When the workflow should wake up from sleeping state
+    // When the workflow should wake up from sleeping state (or, while waiting
+    // for a signal with a timeout, when the wait times out)
     sleepUntil: v.optional(v.number()),
     // When waiting on a signal via ctx.waitForSignal(...)
     waitingForSignalName: v.optional(v.string()),
     waitingForSignalStepId: v.optional(v.id("steps")),
+    // When waiting on a child workflow via ctx.awaitChild(...)
+    waitingForChildId: v.optional(v.id("workflows")),
+    // Set on child workflows started with ctx.startChild(...)
+    parentWorkflowId: v.optional(v.id("workflows")),
+    parentClosePolicy: v.optional(parentClosePolicy), // defaults to "cancel"
+    // Set on workflows started by a schedule
+    scheduleId: v.optional(v.id("schedules")),
+    // Version of the workflow definition this run is pinned to (set on first
+    // claim by a worker that registered a version for this workflow name).
+    version: v.optional(v.string()),
+    // Caller-supplied idempotency key, scoped to the workflow name (duplicates
+    // are resolved by startWorkflow's onConflict policy).
+    workflowKey: v.optional(v.string()),
+    // Pending runs with a higher priority are claimed first (default 0).
+    priority: v.optional(v.number()),
+    // Only workers polling this task queue claim the run (unset for the
+    // "default" queue).
+    taskQueue: v.optional(v.string()),
+    // Searchable labels (searchWorkflows); mirrored into
+    // workflowSearchAttributes, which holds the indexed copies.
+    tags: v.optional(v.array(v.string())),
+    searchAttributes: v.optional(v.record(v.string(), searchAttributeValue)),
+    // When the workflow completed, failed or was cancelled (retention).
+    finishedAt: v.optional(v.number()),
   })
     .index("status", ["status"])
-    .index("status_leaseExpiresAt", ["status", "leaseExpiresAt"])
+    .index("name", ["name"])
     .index("name_status", ["name", "status"])
-    .index("name_status_leaseExpiresAt", ["name", "status", "leaseExpiresAt"])
-    .index("name_status_sleepUntil", ["name", "status", "sleepUntil"])
-    .index("status_sleepUntil", ["status", "sleepUntil"]),
+    .index("name_status_finishedAt", ["name", "status", "finishedAt"])
+    .index("name_workflowKey", ["name", "workflowKey"])
+    .index("parentWorkflowId", ["parentWorkflowId"])
+    .index("taskQueue_version_status_priority", [
+      "taskQueue",
+      "version",
+      "status",
+      "priority",
+    ])
+    .index("taskQueue_version_status_leaseExpiresAt", [
+      "taskQueue",
+      "version",
+      "status",
+      "leaseExpiresAt",
+    ])
+    .index("taskQueue_version_status_sleepUntil", [
+      "taskQueue",
+      "version",
+      "status",
+      "sleepUntil",
+    ])
+    .index("taskQueue_name_version_status_priority", [
+      "taskQueue",
+      "name",
+      "version",
+      "status",
+      "priority",
+    ])
+    .index("taskQueue_name_version_status_leaseExpiresAt", [
+      "taskQueue",
+      "name",
+      "version",
+      "status",
+      "leaseExpiresAt",
+    ])
+    .index("taskQueue_name_version_status_sleepUntil", [
+      "taskQueue",
+      "name",
+      "version",
+      "status",
+      "sleepUntil",
+    ]),
 
   // Individual step executions within a workflow
   steps: defineTable({
@@ -49,16 +193,104 @@ export default defineSchema({
     name: v.string(), // step name (unique within workflow)
     status: stepStatus,
     output: v.optional(v.any()), // step result when completed
+    outputStorageId: v.optional(v.id("_storage")), // large results (as JSON)
     error: v.optional(v.string()), // error if failed
-    // Only set for internal sleep markers (ctx.sleep / ctx.sleepUntil).
+    // Only set for internal sleep markers (ctx.sleep / ctx.sleepUntil) and
+    // signal markers with a timeout (ctx.waitForSignal).
     sleepUntil: v.optional(v.number()),
     attempts: v.number(), // retry count
+    // When a failed attempt is scheduled to be retried (status "pending").
+    retryAt: v.optional(v.number()),
     startedAt: v.optional(v.number()),
     completedAt: v.optional(v.number()),
+    // Progress reported by the step callback (stepCtx.heartbeat), kept across
+    // retries so a new attempt can resume from it.
+    heartbeatDetails: v.optional(v.any()),
+    lastHeartbeatAt: v.optional(v.number()),
   })
     .index("workflowId", ["workflowId"])
     .index("workflowId_name", ["workflowId", "name"]),
 
+  // Recurring workflow starts (createSchedule), driven by the Convex scheduler
+  schedules: defineTable({
+    workflowName: v.string(),
+    input: v.any(), // input for every run
+    // Exactly one of cron / intervalMs is set.
+    cron: v.optional(v.string()), // 5-field cron expression, UTC
+    intervalMs: v.optional(v.number()),
+    catchUpPolicy: schedulePolicy,
+    overlapPolicy: schedulePolicy,
+    paused: v.boolean(),
+    nextRunAt: v.number(),
+    // The pending runSchedule call for nextRunAt (unset while paused).
+    scheduledFunctionId: v.optional(v.id("_scheduled_functions")),
+    lastRunAt: v.optional(v.number()),
+    lastWorkflowId: v.optional(v.id("workflows")),
+    // A fire time held back by the "bufferOne" overlap policy, started when
+    // lastWorkflowId finishes.
+    bufferedRunAt: v.optional(v.number()),
+  }),
+
+  // Cluster-wide limits on running instances of a workflow name
+  // (setConcurrencyLimit). `running` counts runs of the name currently held by
+  // a worker and is kept up to date as runs are claimed and released.
+  concurrencyLimits: defineTable({
+    workflowName: v.string(),
+    limit: v.number(),
+    running: v.number(),
+  }).index("workflowName", ["workflowName"]),
+
+  // One row per tag or search attribute of a workflow, so workflows can be
+  // looked up by value. Tags are stored under the reserved key "__tag".
+  workflowSearchAttributes: defineTable({
+    workflowId: v.id("workflows"),
+    key: v.string(),
+    value: searchAttributeValue,
+  })
+    .index("workflowId_key", ["workflowId", "key"])
+    .index("key_value", ["key", "value"]),
+
+  // Append-only history of workflow state transitions (getWorkflowHistory)
+  workflowEvents: defineTable({
+    workflowId: v.id("workflows"),
+    type: workflowEventType,
+    at: v.number(),
+    workerId: v.optional(v.string()), // worker that caused the transition
+    stepName: v.optional(v.string()),
+    attempt: v.optional(v.number()), // step attempt
+    error: v.optional(v.string()),
+    until: v.optional(v.number()), // wake-up time (sleep, retry or timeout)
+    signalName: v.optional(v.string()),
+    childWorkflowId: v.optional(v.id("workflows")),
+  }).index("workflowId", ["workflowId"]),
+
+  // How long finished workflows are kept (setRetentionPolicy). A policy
+  // without workflowName is the default for names without their own.
+  retentionPolicies: defineTable({
+    workflowName: v.optional(v.string()),
+    retentionMs: v.number(),
+    // The pending cleanupWorkflows call for this policy.
+    scheduledFunctionId: v.optional(v.id("_scheduled_functions")),
+  }).index("workflowName", ["workflowName"]),
+
+  // Registry of workers (createWorker), kept fresh by worker heartbeats
+  workers: defineTable({
+    workerId: v.string(),
+    hostname: v.optional(v.string()),
+    pid: v.optional(v.number()),
+    workflowNames: v.array(v.string()), // workflow names the worker runs
+    workflowVersions: v.optional(v.record(v.string(), v.string())),
+    taskQueues: v.optional(v.array(v.string())),
+    version: v.optional(v.string()), // the worker's own deployment version
+    capacity: v.number(), // max concurrent workflows
+    running: v.number(), // workflows in flight at the last heartbeat
+    status: workerStatus,
+    registeredAt: v.number(),
+    lastHeartbeatAt: v.number(),
+  })
+    .index("workerId", ["workerId"])
+    .index("status_lastHeartbeatAt", ["status", "lastHeartbeatAt"]),
+
   // Signal inbox for workflows (ctx.waitForSignal / signalWorkflow)
   signals: defineTable({
     workflowId: v.id("workflows"),
@@ -75,4 +307,37 @@ export default defineSchema({
       "consumedAt",
       "createdAt",
     ]),
+
+  // Requests to read the in-memory state of a workflow (queryWorkflow),
+  // answered by the worker running it or, if none is, by replaying its history
+  workflowQueries: defineTable({
+    workflowId: v.id("workflows"),
+    workflowName: v.string(),
+    queryName: v.string(),
+    args: v.optional(v.any()),
+    // Worker holding the run when the query was made; unset if none was.
+    workerId: v.optional(v.string()),
+    status: workflowQueryStatus,
+    result: v.optional(v.any()),
+    error: v.optional(v.string()),
+  })
+    .index("workflowId", ["workflowId"])
+    .index("status_workerId_workflowName", [
+      "status",
+      "workerId",
+      "workflowName",
+    ]),
+
+  // Requests that change a workflow (updateWorkflow). Each is applied ahead of
+  // the step it was delivered with, so replays apply it at the same point.
+  workflowUpdates: defineTable({
+    workflowId: v.id("workflows"),
+    updateName: v.string(),
+    args: v.optional(v.any()),
+    status: workflowUpdateStatus,
+    stepId: v.optional(v.id("steps")),
+    deliveredAt: v.optional(v.number()),
+    result: v.optional(v.any()),
+    error: v.optional(v.string()),
+  }).index("workflowId_stepId", ["workflowId", "stepId"]),
 });